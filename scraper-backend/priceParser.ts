@@ -0,0 +1,67 @@
+/**
+ * Types for the price parser shared with the main server (server/priceParser.js).
+ * There is one implementation, so both backends read a shelf label the same way;
+ * this module only gives it TypeScript signatures.
+ */
+
+import * as shared from '../server/priceParser.js';
+
+export type PackUnit = 'g' | 'ml' | 'each';
+
+export interface MultiBuyPromo {
+  type: 'multiBuy';
+  quantity: number;
+  price: number;
+  text: string;
+}
+
+export interface ParsedPrice {
+  price: number | null;
+  currency: 'SGD' | null;
+  wasPrice: number | null;
+  promo: MultiBuyPromo | null;
+}
+
+export interface PackSize {
+  packCount: number;
+  unitSize: number;
+  unit: PackUnit;
+  totalQuantity: number;
+}
+
+export interface UnitPrice {
+  amount: number;
+  per: '100g' | 'L' | 'each';
+}
+
+export interface ProductPricing extends Partial<PackSize> {
+  price: number;
+  currency: 'SGD';
+  wasPrice?: number;
+  promo?: MultiBuyPromo;
+  /** Best price per pack, counting a multi-buy offer */
+  effectivePrice: number;
+  unitPrice: UnitPrice | null;
+}
+
+export interface PricingFields {
+  /** The card's price text */
+  priceText: string;
+  /** The card's pack size text */
+  sizeText?: string;
+  /** Product name, searched for a size when sizeText has none */
+  name?: string;
+}
+
+/** Selling price, was price and any multi-buy offer in price text */
+export const parsePriceText = shared.parsePriceText as (text: string) => ParsedPrice;
+
+/** Pack count, size and unit (g, ml or pieces) from a measurement such as "2 x 1L"; null if none */
+export const parsePackSize = shared.parsePackSize as (text: string) => PackSize | null;
+
+/**
+ * Structured pricing for one product, or null if no price can be read.
+ * The unit price uses the best price a shopper can get per pack, so a
+ * "2 for $5" offer counts as $2.50 each.
+ */
+export const parseProductPricing = shared.parseProductPricing as (fields: PricingFields) => ProductPricing | null;
@@ -2,6 +2,7 @@ import express from 'express';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import cors from 'cors';
+import { parseProductPricing, ProductPricing } from './priceParser.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -16,6 +17,8 @@ interface ProductResult {
   price: string;
   measurement: string;
   link: string;
+  /** Numeric price, pack size and unit price read from price and measurement; null if the price can't be read */
+  pricing: ProductPricing | null;
 }
 
 /**
@@ -95,7 +98,8 @@ async function scrapeNtuc(query: string): Promise<ProductResult[]> {
           title,
           price,
           measurement,
-          link: fullLink
+          link: fullLink,
+          pricing: parseProductPricing({ priceText: price, sizeText: measurement, name: title })
         });
       }
     });
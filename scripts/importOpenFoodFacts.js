@@ -0,0 +1,239 @@
+// scripts/importOpenFoodFacts.js
+// Run this with: node scripts/importOpenFoodFacts.js <export.csv|export.jsonl> [--dry-run] [--limit N]
+// Loads an Open Food Facts export into the products collection so barcodes can be
+// looked up offline from our own catalog. Accepts the tab-separated CSV export
+// (or a comma-separated extract of it) and the JSONL dump, one product per line.
+// Products are keyed off_<barcode>, so re-running with a newer export updates
+// them in place instead of adding duplicates.
+
+import admin from 'firebase-admin';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+import { normalizeBarcode } from '../src/lib/gtin.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const limitIndex = args.indexOf('--limit');
+const limit = limitIndex !== -1 ? Number(args[limitIndex + 1]) : Infinity;
+const inputPath = args.find((arg, i) => !arg.startsWith('--') && (limitIndex === -1 || i !== limitIndex + 1));
+
+if (!inputPath) {
+  console.error('Usage: node scripts/importOpenFoodFacts.js <export.csv|export.jsonl> [--dry-run] [--limit N]');
+  process.exit(1);
+}
+
+let db = null;
+if (!dryRun) {
+  try {
+    const serviceAccountPath = path.join(__dirname, '../serviceAccountKey.json');
+    const serviceAccount = JSON.parse(fs.readFileSync(serviceAccountPath, 'utf8'));
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+  } catch (error) {
+    console.log('Using default credentials. Make sure GOOGLE_APPLICATION_CREDENTIALS is set.');
+    admin.initializeApp();
+  }
+  db = admin.firestore();
+}
+
+const MAX_BATCH_WRITES = 500;
+
+// OFF categories are very fine-grained ("en:semi-skimmed-milks"); map them onto the
+// broad categories the app uses and a typical unopened shelf life. Longest keyword wins.
+const CATEGORY_RULES = [
+  { keywords: ['frozen', 'ice-cream', 'ice cream'], category: 'Frozen', shelfLifeDays: 90 },
+  { keywords: ['fish', 'seafood', 'prawn', 'shrimp', 'salmon', 'tuna'], category: 'Seafood', shelfLifeDays: 2 },
+  { keywords: ['meat', 'poultry', 'chicken', 'beef', 'pork', 'ham', 'sausage'], category: 'Meat', shelfLifeDays: 3 },
+  { keywords: ['milk', 'dairies', 'dairy', 'yogurt', 'yoghurt', 'cheese', 'butter', 'cream', 'tofu'], category: 'Dairy', shelfLifeDays: 7 },
+  { keywords: ['egg'], category: 'Eggs', shelfLifeDays: 21 },
+  { keywords: ['vegetable', 'salad', 'herb', 'fresh-plant'], category: 'Produce', shelfLifeDays: 5 },
+  { keywords: ['fruit'], category: 'Fruit', shelfLifeDays: 7 },
+  { keywords: ['bread', 'bakery', 'pastries', 'pastry', 'bun'], category: 'Bakery', shelfLifeDays: 4 },
+  { keywords: ['juice', 'beverage', 'drink', 'water', 'soda', 'tea', 'coffee'], category: 'Beverages', shelfLifeDays: 180 },
+  { keywords: ['snack', 'biscuit', 'chocolate', 'candy', 'confectioner', 'chips', 'crisps'], category: 'Snacks', shelfLifeDays: 180 },
+  { keywords: ['canned', 'tinned', 'cereal', 'rice', 'pasta', 'noodle', 'flour', 'sauce', 'condiment', 'spice', 'oil'], category: 'Pantry', shelfLifeDays: 365 },
+];
+
+const DEFAULT_SHELF_LIFE_DAYS = 14;
+
+// Units we can store in Product.packageSize, keyed by how OFF writes them
+const PACKAGE_UNITS = {
+  mg: { unit: 'mg', factor: 1 },
+  g: { unit: 'g', factor: 1 },
+  gr: { unit: 'g', factor: 1 },
+  kg: { unit: 'kg', factor: 1 },
+  ml: { unit: 'ml', factor: 1 },
+  cl: { unit: 'ml', factor: 10 },
+  dl: { unit: 'ml', factor: 100 },
+  l: { unit: 'L', factor: 1 },
+  oz: { unit: 'oz', factor: 1 },
+  lb: { unit: 'lb', factor: 1 },
+};
+
+const humanizeTag = (tag) => {
+  const text = tag.replace(/^[a-z]{2}:/, '').replace(/-/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+function classify(categoryText, name) {
+  for (const text of [categoryText, name]) {
+    const lower = (text || '').toLowerCase();
+    let best = null;
+    let bestLength = 0;
+    for (const rule of CATEGORY_RULES) {
+      for (const keyword of rule.keywords) {
+        if (lower.includes(keyword) && keyword.length > bestLength) {
+          best = rule;
+          bestLength = keyword.length;
+        }
+      }
+    }
+    if (best) return best;
+  }
+  return null;
+}
+
+// "1 L", "500g", "6 x 330 ml" -> { amount, unit }; anything else is left out
+function parsePackageSize(quantity) {
+  const match = String(quantity || '').toLowerCase().match(/(?:(\d+)\s*[x×]\s*)?(\d+(?:[.,]\d+)?)\s*(mg|kg|gr|g|ml|cl|dl|l|oz|lb)\b/);
+  if (!match) return null;
+  const { unit, factor } = PACKAGE_UNITS[match[3]];
+  const count = match[1] ? Number(match[1]) : 1;
+  const amount = Math.round(count * Number(match[2].replace(',', '.')) * factor * 1000) / 1000;
+  return amount > 0 ? { amount, unit } : null;
+}
+
+const asList = (value) => Array.isArray(value) ? value : String(value || '').split(',').filter(Boolean);
+
+function toProduct(row) {
+  const barcode = normalizeBarcode(row.code);
+  const name = (row.product_name_en || row.product_name || row.generic_name || '').trim();
+  if (!barcode || !name) return null;
+
+  const brand = asList(row.brands)[0]?.trim();
+  const categoryTags = asList(row.categories_tags || row.categories_en || row.categories);
+  const categoryText = [row.main_category_en, row.main_category, row.pnns_groups_2, ...categoryTags]
+    .filter(Boolean)
+    .join(' ');
+  const rule = classify(categoryText, name);
+  const mainCategory = row.main_category_en || row.main_category || categoryTags[categoryTags.length - 1];
+
+  const product = {
+    name,
+    category: rule?.category || (mainCategory ? humanizeTag(mainCategory) : 'Other'),
+    barcode,
+    defaultShelfLifeDays: rule?.shelfLifeDays ?? DEFAULT_SHELF_LIFE_DAYS,
+    source: 'openfoodfacts',
+    createdBy: 'system',
+  };
+  if (brand) product.brand = brand;
+  const packageSize = parsePackageSize(row.quantity);
+  if (packageSize) product.packageSize = packageSize;
+  return product;
+}
+
+// Split one CSV line, honouring double-quoted fields (OFF's own export is tab-separated and unquoted)
+function splitLine(line, delimiter) {
+  if (delimiter === '\t') return line.split('\t');
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+async function* readRows(filePath) {
+  const isJsonLines = /\.jsonl?$/i.test(filePath);
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+  let header = null;
+  let delimiter = '\t';
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    if (isJsonLines) {
+      try {
+        yield JSON.parse(line);
+      } catch (error) {
+        console.warn(`Skipping line ${lineNumber}: ${error.message}`);
+      }
+      continue;
+    }
+    if (!header) {
+      delimiter = line.includes('\t') ? '\t' : ',';
+      header = splitLine(line, delimiter);
+      continue;
+    }
+    const values = splitLine(line, delimiter);
+    yield Object.fromEntries(header.map((key, i) => [key, values[i] ?? '']));
+  }
+}
+
+async function importProducts() {
+  console.log(`${dryRun ? '[dry run] ' : ''}Importing products from ${inputPath}...\n`);
+  let read = 0;
+  let imported = 0;
+  let skipped = 0;
+  let batch = db ? db.batch() : null;
+  let batchSize = 0;
+  const seen = new Set();
+
+  for await (const row of readRows(inputPath)) {
+    if (imported >= limit) break;
+    read++;
+    const product = toProduct(row);
+    if (!product || seen.has(product.barcode)) {
+      skipped++;
+      continue;
+    }
+    seen.add(product.barcode);
+    imported++;
+
+    if (dryRun) {
+      if (imported <= 10) console.log(`  ${product.barcode}  ${product.name} (${product.category}, ${product.defaultShelfLifeDays}d)`);
+      continue;
+    }
+
+    const ref = db.collection('products').doc(`off_${product.barcode}`);
+    batch.set(ref, { ...product, createdAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+    batchSize++;
+    if (batchSize === MAX_BATCH_WRITES) {
+      await batch.commit();
+      console.log(`  ${imported} products written`);
+      batch = db.batch();
+      batchSize = 0;
+    }
+  }
+
+  if (batch && batchSize > 0) await batch.commit();
+
+  console.log(`\n✅ ${imported} products ${dryRun ? 'would be ' : ''}imported from ${read} rows (${skipped} without a valid barcode and name, or duplicated).`);
+  process.exit(0);
+}
+
+importProducts().catch(error => {
+  console.error('Error:', error);
+  process.exit(1);
+});
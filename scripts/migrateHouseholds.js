@@ -0,0 +1,147 @@
+// scripts/migrateHouseholds.js
+// Run this with: node scripts/migrateHouseholds.js [--dry-run]
+// Gives every existing user a personal household and stamps their inventory,
+// recipes and waste log rows with its id. Expiry rules saved on a user doc move
+// to the household that user owns, where the app and the server now read them.
+// Safe to run more than once: users that already have a household and rows that
+// already have a householdId are skipped.
+// The app also does this lazily on sign-in; this script just does it up front.
+
+import admin from 'firebase-admin';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+try {
+  const serviceAccountPath = path.join(__dirname, '../serviceAccountKey.json');
+  const serviceAccount = JSON.parse(fs.readFileSync(serviceAccountPath, 'utf8'));
+  admin.initializeApp({
+    credential: admin.credential.cert(serviceAccount)
+  });
+} catch (error) {
+  console.log('Using default credentials. Make sure GOOGLE_APPLICATION_CREDENTIALS is set.');
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+const dryRun = process.argv.includes('--dry-run');
+
+const HOUSEHOLD_SCOPED_COLLECTIONS = ['inventory', 'recipes', 'wasteLog'];
+const MAX_BATCH_WRITES = 500;
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const generateInviteCode = (length = 6) =>
+  Array.from({ length }, () => INVITE_ALPHABET[Math.floor(Math.random() * INVITE_ALPHABET.length)]).join('');
+
+async function commitInChunks(refs, data) {
+  for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    refs.slice(i, i + MAX_BATCH_WRITES).forEach(ref => batch.update(ref, data));
+    await batch.commit();
+  }
+}
+
+async function collectUserIds() {
+  // Users with data but no profile doc (e.g. rows written by webhooks) still need a household
+  const userIds = new Set();
+  const usersSnapshot = await db.collection('users').get();
+  usersSnapshot.docs.forEach(doc => userIds.add(doc.id));
+  for (const collectionName of HOUSEHOLD_SCOPED_COLLECTIONS) {
+    const snapshot = await db.collection(collectionName).select('userId').get();
+    snapshot.docs.forEach(doc => {
+      const userId = doc.get('userId');
+      if (typeof userId === 'string' && userId) userIds.add(userId);
+    });
+  }
+  return userIds;
+}
+
+async function ensureHousehold(userId) {
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await userRef.get();
+  const existing = userDoc.exists ? userDoc.get('householdId') : null;
+  if (existing) return { householdId: existing, created: false };
+
+  const householdRef = db.collection('households').doc();
+  if (dryRun) return { householdId: householdRef.id, created: true };
+
+  let inviteCode = generateInviteCode();
+  while ((await db.collection('householdInvites').doc(inviteCode).get()).exists) {
+    inviteCode = generateInviteCode();
+  }
+
+  const batch = db.batch();
+  batch.set(householdRef, {
+    name: 'My Kitchen',
+    ownerId: userId,
+    memberIds: [userId],
+    memberNames: { [userId]: (userDoc.exists && userDoc.get('name')) || 'Me' },
+    inviteCode,
+    ...(userDoc.exists && userDoc.get('expirySettings') ? { expirySettings: userDoc.get('expirySettings') } : {}),
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  batch.set(db.collection('householdInvites').doc(inviteCode), {
+    householdId: householdRef.id,
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  batch.set(userRef, {
+    householdId: householdRef.id,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  }, { merge: true });
+  await batch.commit();
+
+  return { householdId: householdRef.id, created: true };
+}
+
+// Households created before expiry rules moved off the user doc start from the owner's rules
+async function copyExpirySettings(userId, householdId) {
+  const [userDoc, householdDoc] = await Promise.all([
+    db.collection('users').doc(userId).get(),
+    db.collection('households').doc(householdId).get()
+  ]);
+  const expirySettings = userDoc.exists ? userDoc.get('expirySettings') : null;
+  if (!expirySettings || !householdDoc.exists) return false;
+  if (householdDoc.get('ownerId') !== userId || householdDoc.get('expirySettings')) return false;
+  if (!dryRun) await householdDoc.ref.update({ expirySettings });
+  return true;
+}
+
+async function migrateHouseholds() {
+  try {
+    console.log(`Migrating per-user data to households${dryRun ? ' (dry run)' : ''}...\n`);
+
+    const userIds = await collectUserIds();
+    let householdsCreated = 0;
+    let rowsUpdated = 0;
+    let settingsCopied = 0;
+
+    for (const userId of userIds) {
+      const { householdId, created } = await ensureHousehold(userId);
+      if (created) householdsCreated++;
+      else if (await copyExpirySettings(userId, householdId)) {
+        settingsCopied++;
+        console.log(`  ${userId}: expiry rules -> ${householdId}`);
+      }
+
+      for (const collectionName of HOUSEHOLD_SCOPED_COLLECTIONS) {
+        const snapshot = await db.collection(collectionName).where('userId', '==', userId).get();
+        const refs = snapshot.docs.filter(doc => !doc.get('householdId')).map(doc => doc.ref);
+        if (refs.length === 0) continue;
+        if (!dryRun) await commitInChunks(refs, { householdId });
+        rowsUpdated += refs.length;
+        console.log(`  ${userId}: ${refs.length} ${collectionName} row(s) -> ${householdId}`);
+      }
+    }
+
+    console.log(`\n✅ ${userIds.size} user(s) checked, ${householdsCreated} household(s) created, ${rowsUpdated} row(s) updated, ${settingsCopied} expiry rule set(s) copied`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error migrating households:', error);
+    process.exit(1);
+  }
+}
+
+migrateHouseholds();
@@ -0,0 +1,281 @@
+// Long-lived Puppeteer browsers shared by every scrape.
+// Each browser serves a fixed number of pages at once; callers beyond that wait
+// in a queue. Pages are reset to about:blank and reused. Browsers that crash,
+// stop answering or have served many pages are closed and relaunched on demand.
+
+const PAGE_RESET_TIMEOUT_MS = 2000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+const withTimeout = (promise, ms, message) => {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Thrown when a caller can't be served; `code` tells the HTTP layer to answer 503
+export class ScraperBusyError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ScraperBusyError';
+    this.code = 'SCRAPER_BUSY';
+  }
+}
+
+/**
+ * Run at most `max` tasks at once, queueing up to `maxQueued` more.
+ * Tasks beyond that are rejected straight away with ScraperBusyError.
+ */
+export const createConcurrencyLimiter = ({ max, maxQueued = Infinity }) => {
+  let running = 0;
+  const queue = [];
+
+  const next = () => {
+    if (running >= max || queue.length === 0) return;
+    running++;
+    const { task, resolve, reject } = queue.shift();
+    Promise.resolve()
+      .then(task)
+      .then(resolve, reject)
+      .finally(() => {
+        running--;
+        next();
+      });
+  };
+
+  const run = (task) => {
+    if (running >= max && queue.length >= maxQueued) {
+      return Promise.reject(new ScraperBusyError('Too many searches in progress, please try again shortly'));
+    }
+    return new Promise((resolve, reject) => {
+      queue.push({ task, resolve, reject });
+      next();
+    });
+  };
+
+  return { run, getStats: () => ({ running, queued: queue.length, max }) };
+};
+
+/**
+ * @param {Object} options
+ * @param {Function} options.launch - Launches a Puppeteer browser
+ * @param {number} options.browsers - How many browsers to keep
+ * @param {number} options.pagesPerBrowser - Pages each browser serves at once
+ * @param {number} options.acquireTimeoutMs - How long a caller waits for a free page
+ * @param {number} options.healthCheckIntervalMs - How often idle browsers are checked (0 disables)
+ * @param {number} options.recycleAfterPages - Relaunch a browser after it has served this many pages
+ */
+export const createBrowserPool = ({
+  launch,
+  browsers = 1,
+  pagesPerBrowser = 3,
+  acquireTimeoutMs = 30000,
+  healthCheckIntervalMs = 30000,
+  recycleAfterPages = 200
+}) => {
+  const slots = Array.from({ length: browsers }, (_, id) => ({
+    id,
+    browser: null,
+    launching: null,
+    idlePages: [],
+    busy: 0,
+    served: 0,
+    retiring: false
+  }));
+  const waiters = [];
+  const stats = { launched: 0, recycled: 0, crashed: 0, pagesServed: 0, acquireTimeouts: 0 };
+  let closing = false;
+
+  // The slot with the fewest busy pages that can take another one
+  const pickSlot = () => slots
+    .filter(slot => !slot.retiring && slot.busy < pagesPerBrowser)
+    .sort((a, b) => a.busy - b.busy)[0];
+
+  const dispatch = () => {
+    while (waiters.length > 0) {
+      const slot = pickSlot();
+      if (!slot) return;
+      const waiter = waiters.shift();
+      clearTimeout(waiter.timer);
+      slot.busy++;
+      waiter.resolve(slot);
+    }
+  };
+
+  const reserveSlot = () => new Promise((resolve, reject) => {
+    const slot = pickSlot();
+    if (slot) {
+      slot.busy++;
+      resolve(slot);
+      return;
+    }
+    const waiter = { resolve, reject };
+    waiter.timer = setTimeout(() => {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      stats.acquireTimeouts++;
+      reject(new ScraperBusyError(`No browser page free after ${acquireTimeoutMs}ms`));
+    }, acquireTimeoutMs);
+    waiters.push(waiter);
+  });
+
+  const closeBrowser = (browser) => {
+    browser.close().catch(error => console.error('[browser-pool] Error closing browser:', error.message));
+  };
+
+  // Drop the slot's browser; the next page it serves launches a fresh one
+  const recycle = (slot, reason) => {
+    const browser = slot.browser;
+    slot.browser = null;
+    slot.idlePages = [];
+    slot.served = 0;
+    slot.retiring = false;
+    if (browser) {
+      stats.recycled++;
+      console.log(`[browser-pool] Recycling browser ${slot.id}: ${reason}`);
+      closeBrowser(browser);
+    }
+  };
+
+  const ensureBrowser = async (slot) => {
+    if (slot.browser) return slot.browser;
+    if (!slot.launching) {
+      slot.launching = launch()
+        .then(browser => {
+          stats.launched++;
+          slot.browser = browser;
+          browser.on('disconnected', () => {
+            // Only an unexpected disconnect counts as a crash; recycle() clears slot.browser first
+            if (slot.browser === browser) {
+              stats.crashed++;
+              console.error(`[browser-pool] Browser ${slot.id} disconnected unexpectedly`);
+              slot.browser = null;
+              slot.idlePages = [];
+            }
+          });
+          return browser;
+        })
+        .finally(() => {
+          slot.launching = null;
+        });
+    }
+    return slot.launching;
+  };
+
+  const acquirePage = async () => {
+    if (closing) throw new ScraperBusyError('Browser pool is shutting down');
+    const slot = await reserveSlot();
+    try {
+      const browser = await ensureBrowser(slot);
+      let page = slot.idlePages.pop();
+      while (page && page.isClosed()) page = slot.idlePages.pop();
+      if (!page) page = await browser.newPage();
+      return { slot, browser, page };
+    } catch (error) {
+      slot.busy--;
+      dispatch();
+      throw error;
+    }
+  };
+
+  const releasePage = async ({ slot, browser, page }, reusable) => {
+    let kept = false;
+    // Pages from a browser that has since been recycled or crashed are never reused
+    if (reusable && !closing && slot.browser === browser && !page.isClosed()) {
+      try {
+        await withTimeout(page.goto('about:blank'), PAGE_RESET_TIMEOUT_MS, 'Page reset timed out');
+        slot.idlePages.push(page);
+        kept = true;
+      } catch {
+        // Fall through and close it
+      }
+    }
+    if (!kept) {
+      page.close().catch(() => {});
+    }
+
+    slot.busy--;
+    slot.served++;
+    stats.pagesServed++;
+    if (slot.served >= recycleAfterPages) {
+      slot.retiring = true;
+    }
+    if (slot.retiring && slot.busy === 0) {
+      recycle(slot, `served ${slot.served} pages`);
+    }
+    dispatch();
+  };
+
+  /**
+   * Run `task(page)` on a pooled page and give the page back afterwards.
+   * A page whose task threw is closed rather than reused.
+   */
+  const withPage = async (task) => {
+    const lease = await acquirePage();
+    let reusable = false;
+    try {
+      const result = await task(lease.page);
+      reusable = true;
+      return result;
+    } finally {
+      await releasePage(lease, reusable);
+    }
+  };
+
+  const checkHealth = async () => {
+    for (const slot of slots) {
+      if (!slot.browser || slot.busy > 0) continue;
+      const browser = slot.browser;
+      try {
+        if (!browser.connected) throw new Error('not connected');
+        await withTimeout(browser.version(), HEALTH_CHECK_TIMEOUT_MS, 'no answer');
+      } catch (error) {
+        if (slot.browser === browser && slot.busy === 0) {
+          recycle(slot, `failed health check (${error.message})`);
+        }
+      }
+    }
+  };
+
+  const healthTimer = healthCheckIntervalMs > 0 ? setInterval(checkHealth, healthCheckIntervalMs) : null;
+  // Don't keep the process alive just for health checks
+  healthTimer?.unref?.();
+
+  /**
+   * Stop handing out pages, wait up to `timeoutMs` for busy ones, then close every browser.
+   */
+  const shutdown = async ({ timeoutMs = 10000 } = {}) => {
+    closing = true;
+    if (healthTimer) clearInterval(healthTimer);
+    waiters.splice(0).forEach(waiter => {
+      clearTimeout(waiter.timer);
+      waiter.reject(new ScraperBusyError('Browser pool is shutting down'));
+    });
+
+    const deadline = Date.now() + timeoutMs;
+    while (slots.some(slot => slot.busy > 0) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    await Promise.all(slots.map(async slot => {
+      const browser = slot.browser ?? await slot.launching?.catch(() => null);
+      slot.browser = null;
+      slot.idlePages = [];
+      if (browser) {
+        await browser.close().catch(error => console.error('[browser-pool] Error closing browser:', error.message));
+      }
+    }));
+  };
+
+  const getStats = () => ({
+    browsers,
+    pagesPerBrowser,
+    running: slots.filter(slot => slot.browser).length,
+    activePages: slots.reduce((sum, slot) => sum + slot.busy, 0),
+    idlePages: slots.reduce((sum, slot) => sum + slot.idlePages.length, 0),
+    queued: waiters.length,
+    ...stats
+  });
+
+  return { withPage, checkHealth, shutdown, getStats };
+};
@@ -1,19 +1,7 @@
 // Test just FairPrice store
-import { scrapeStore } from './scraper.js';
+import { scrapeStore, STORES } from './scraper.js';
 
-const FAIRPRICE_CONFIG = {
-  storeName: "NTUC FairPrice",
-  storeCode: "fairprice",
-  baseSearchUrl: "https://www.fairprice.com.sg/search",
-  queryParam: "query",
-  selectors: {
-    searchInput: 'input[name="q"], input[placeholder*="Search"], input[type="search"]',
-    searchButton: 'button[type="submit"]',
-    productCard: '[data-testid="product"]',
-    productCardFallback: ['a[class*="sc-e68f503d-3"]', '[class*="product-card"]', '[class*="product-item"]', 'article'],
-    noResults: '.no-results, .empty-state, [data-testid="no-results"]'
-  }
-};
+const FAIRPRICE_CONFIG = STORES.find(store => store.storeCode === 'fairprice');
 
 async function test() {
   console.log('\n\n==========================================');
@@ -0,0 +1,129 @@
+// Server-side expiry status recomputation.
+// The rules come from src/lib/expiryRules.js, the same module the app uses, so
+// stored statuses match what the app shows.
+
+import {
+  DEFAULT_EXPIRY_SETTINGS,
+  daysUntil,
+  getStatusForDays,
+  mergeExpirySettings,
+  resolveExpiryThresholds
+} from '../src/lib/expiryRules.js';
+
+// Firestore caps a batch at 500 writes
+const MAX_BATCH_WRITES = 500;
+
+const toDate = (value) => {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Earliest expiry among lots that still hold something, falling back to the row's expiryDate
+const getEarliestExpiry = (item) => {
+  const lotDates = (Array.isArray(item.lots) ? item.lots : [])
+    .filter(lot => lot.quantity > 0)
+    .map(lot => toDate(lot.expiryDate))
+    .filter(Boolean);
+  if (lotDates.length > 0) {
+    return new Date(Math.min(...lotDates.map(date => date.getTime())));
+  }
+  return toDate(item.expiryDate);
+};
+
+export const computeItemStatus = (item, settings = DEFAULT_EXPIRY_SETTINGS, now = new Date()) => {
+  const expiry = getEarliestExpiry(item);
+  if (!expiry) return 'fresh';
+  return getStatusForDays(daysUntil(expiry, now), resolveExpiryThresholds(item, settings));
+};
+
+// Expiry rules belong to the household, the same settings the app reads; rows from
+// before households use the defaults
+export const getHouseholdExpirySettings = async (db, householdId) => {
+  if (!householdId) return DEFAULT_EXPIRY_SETTINGS;
+  const householdDoc = await db.collection('households').doc(householdId).get();
+  return mergeExpirySettings(householdDoc.exists ? householdDoc.data().expirySettings : null);
+};
+
+// The household the user is currently using, as long as they are still a member of it
+export const getUserHouseholdId = async (db, uid) => {
+  const userDoc = await db.collection('users').doc(uid).get();
+  const householdId = userDoc.exists ? userDoc.data().householdId : null;
+  if (!householdId) return null;
+  const householdDoc = await db.collection('households').doc(householdId).get();
+  return householdDoc.exists && (householdDoc.data().memberIds || []).includes(uid) ? householdId : null;
+};
+
+export const getUserExpirySettings = async (db, uid) =>
+  getHouseholdExpirySettings(db, await getUserHouseholdId(db, uid));
+
+/**
+ * Recompute `status` for every inventory item (or one household's items) and write
+ * only the documents whose status actually changed.
+ */
+export const recomputeInventoryStatuses = async (db, { householdId } = {}) => {
+  const startedAt = Date.now();
+  let query = db.collection('inventory');
+  if (householdId) {
+    query = query.where('householdId', '==', householdId);
+  }
+  const snapshot = await query.get();
+
+  const settingsByHousehold = new Map();
+  const changes = [];
+  const now = new Date();
+
+  for (const doc of snapshot.docs) {
+    const item = doc.data();
+    const key = item.householdId || null;
+
+    if (!settingsByHousehold.has(key)) {
+      settingsByHousehold.set(key, await getHouseholdExpirySettings(db, key));
+    }
+    const status = computeItemStatus(item, settingsByHousehold.get(key), now);
+    if (status !== item.status) {
+      changes.push({ ref: doc.ref, status });
+    }
+  }
+
+  for (let i = 0; i < changes.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    for (const change of changes.slice(i, i + MAX_BATCH_WRITES)) {
+      batch.update(change.ref, { status: change.status });
+    }
+    await batch.commit();
+  }
+
+  return {
+    scanned: snapshot.size,
+    updated: changes.length,
+    households: settingsByHousehold.size,
+    durationMs: Date.now() - startedAt
+  };
+};
+
+/**
+ * Run the recompute job now and then every `intervalMs`. Runs never overlap:
+ * a tick that arrives while a run is in flight is skipped.
+ */
+export const scheduleStatusRecompute = (db, intervalMs) => {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await recomputeInventoryStatuses(db);
+      console.log(`[status-recompute] scanned ${result.scanned}, updated ${result.updated} in ${result.durationMs}ms`);
+    } catch (error) {
+      console.error('[status-recompute] failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
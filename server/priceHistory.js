@@ -0,0 +1,136 @@
+// Price history built from scrape results.
+// Every priced product a scrape matches is stored as one observation, so the
+// series for a product can be rebuilt per store over any period. Series are
+// charted in unit prices, so a store switching between pack sizes doesn't
+// look like a price change.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Firestore caps a batch at 500 writes
+const MAX_BATCH_WRITES = 500;
+const COLLECTION = 'priceObservations';
+// Days are counted in the stores' own time zone
+const STORE_TIME_ZONE = 'Asia/Singapore';
+
+// Pack sizes aren't part of a product's key: "Meiji Milk 2L" and "Meiji Milk 1L" share a series,
+// which compares them per litre
+export const SIZE_PATTERN = /\b\d+(\.\d+)?\s*(x\s*\d+(\.\d+)?\s*)?(kg|g|mg|ml|l|cl|pack|packs|pc|pcs|s)\b/gi;
+
+/**
+ * Key a product or search query by its words, ignoring case, punctuation and pack size.
+ */
+export const normalizeProductKey = (text) => (text || '')
+  .toLowerCase()
+  .replace(SIZE_PATTERN, ' ')
+  .replace(/[^a-z0-9\s]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const toDate = (value) => (value && typeof value.toDate === 'function' ? value.toDate() : new Date(value));
+
+/**
+ * Store one observation per priced product in a scrape's results.
+ * Returns how many observations were written.
+ */
+export const recordPriceObservations = async (db, query, results, observedAt = new Date()) => {
+  const queryKey = normalizeProductKey(query);
+  const observations = [];
+
+  for (const result of results) {
+    for (const product of result.products || []) {
+      observations.push({
+        query,
+        queryKey,
+        storeCode: result.storeCode,
+        storeName: result.storeName,
+        productName: product.name,
+        productKey: normalizeProductKey(product.name),
+        price: product.price,
+        effectivePrice: product.pricing?.effectivePrice ?? product.price,
+        size: product.size || null,
+        unitPrice: product.pricing?.unitPrice ?? null,
+        url: result.url,
+        observedAt
+      });
+    }
+  }
+
+  for (let i = 0; i < observations.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    for (const observation of observations.slice(i, i + MAX_BATCH_WRITES)) {
+      batch.set(db.collection(COLLECTION).doc(), observation);
+    }
+    await batch.commit();
+  }
+
+  return observations.length;
+};
+
+/**
+ * The unit most observations are priced in, or null when none has a pack size
+ */
+const seriesUnit = (observations) => {
+  const counts = new Map();
+  for (const observation of observations) {
+    const per = observation.unitPrice?.per;
+    if (per) counts.set(per, (counts.get(per) || 0) + 1);
+  }
+  let best = null;
+  for (const [per, count] of counts) {
+    if (best === null || count > counts.get(best)) best = per;
+  }
+  return best;
+};
+
+/**
+ * Group observations into one series per store with the lowest unit price seen
+ * each day, oldest first. Only observations priced in the most common unit are
+ * used; without any unit prices the series fall back to pack prices.
+ * The cheapest matching product is what a shopper would buy.
+ */
+export const summarizePriceSeries = (observations) => {
+  const per = seriesUnit(observations);
+  const priced = per ? observations.filter(observation => observation.unitPrice?.per === per) : observations;
+  const stores = new Map();
+
+  for (const observation of priced) {
+    const day = toDate(observation.observedAt).toLocaleDateString('en-CA', { timeZone: STORE_TIME_ZONE });
+    if (!stores.has(observation.storeCode)) {
+      stores.set(observation.storeCode, { storeCode: observation.storeCode, storeName: observation.storeName, days: new Map() });
+    }
+    const days = stores.get(observation.storeCode).days;
+    const price = per ? observation.unitPrice.amount : observation.effectivePrice ?? observation.price;
+    const current = days.get(day);
+    if (!current || price < current.price) {
+      days.set(day, { date: day, price, productName: observation.productName, size: observation.size ?? null });
+    }
+  }
+
+  return Array.from(stores.values()).map(({ storeCode, storeName, days }) => ({
+    storeCode,
+    storeName,
+    per,
+    points: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date))
+  }));
+};
+
+/**
+ * Price series for a product over the last `days` days. Observations match when
+ * either the search that found them or the product's own name has the same key.
+ */
+export const getPriceHistory = async (db, product, { days = 90 } = {}) => {
+  const key = normalizeProductKey(product);
+  if (!key) return [];
+
+  // Two queries rather than an OR; each needs its key + observedAt index in firestore.indexes.json
+  const since = new Date(Date.now() - days * DAY_MS);
+  const [byQuery, byProduct] = await Promise.all([
+    db.collection(COLLECTION).where('queryKey', '==', key).where('observedAt', '>=', since).get(),
+    db.collection(COLLECTION).where('productKey', '==', key).where('observedAt', '>=', since).get()
+  ]);
+  const observations = new Map();
+  for (const doc of [...byQuery.docs, ...byProduct.docs]) {
+    observations.set(doc.id, doc.data());
+  }
+
+  return summarizePriceSeries(Array.from(observations.values()));
+};
@@ -0,0 +1,157 @@
+// Structured prices and pack sizes from the text on a product card.
+// Shelf labels mix the selling price with was prices, savings and multi-buy
+// offers ("2 for $5"), and pack sizes come as "1L", "6 x 200ml" or "10s".
+// Turning them into numbers gives each product a price per 100 g, per litre or
+// per piece, so products in different pack sizes can be compared.
+// scraper-backend imports this module too (typed in scraper-backend/priceParser.ts),
+// so both backends read prices the same way.
+
+const AMOUNT = String.raw`(?:S?\$)\s?(\d{1,4}(?:\.\d{1,2})?)`;
+const AMOUNT_PATTERN = new RegExp(AMOUNT, 'gi');
+const MULTI_BUY_PATTERN = new RegExp(String.raw`\b(\d{1,2})\s*(?:for|\/|@)\s*${AMOUNT}`, 'i');
+const WAS_PATTERN = new RegExp(String.raw`\b(?:was|usual(?:ly)?|before|reg(?:ular)?|u\.?p)\b\.?(?:\s*price)?\W*${AMOUNT}`, 'i');
+const NOW_PATTERN = new RegExp(String.raw`\b(?:now|promo|sale|offer)\b(?:\s*price)?\W*${AMOUNT}`, 'i');
+const SAVE_PATTERN = new RegExp(String.raw`\bsave\b\W*${AMOUNT}`, 'i');
+
+// Units in each dimension and how many base units (g, ml, pieces) they hold
+const UNITS = {
+  kg: ['g', 1000], kgs: ['g', 1000], kilogram: ['g', 1000], kilograms: ['g', 1000],
+  g: ['g', 1], gm: ['g', 1], gram: ['g', 1], grams: ['g', 1],
+  mg: ['g', 0.001],
+  l: ['ml', 1000], ltr: ['ml', 1000], litre: ['ml', 1000], litres: ['ml', 1000], liter: ['ml', 1000], liters: ['ml', 1000],
+  ml: ['ml', 1], cl: ['ml', 10],
+  s: ['each', 1], pc: ['each', 1], pcs: ['each', 1], piece: ['each', 1], pieces: ['each', 1],
+  pack: ['each', 1], packs: ['each', 1], each: ['each', 1], ea: ['each', 1],
+  sachet: ['each', 1], sachets: ['each', 1], roll: ['each', 1], rolls: ['each', 1]
+};
+const UNIT_NAMES = Object.keys(UNITS).sort((a, b) => b.length - a.length).join('|');
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+// "6 x 200ml" and "200ml x 6"
+const MULTI_PACK_PATTERN = new RegExp(String.raw`\b${NUMBER}\s*[x×]\s*${NUMBER}\s*(${UNIT_NAMES})\b`, 'i');
+const MULTI_PACK_REVERSED_PATTERN = new RegExp(String.raw`\b${NUMBER}\s*(${UNIT_NAMES})\s*[x×]\s*${NUMBER}\b`, 'i');
+const SINGLE_PACK_PATTERN = new RegExp(String.raw`\b${NUMBER}\s*(${UNIT_NAMES})\b`, 'i');
+
+// How unit prices are quoted for each dimension
+const UNIT_PRICE_BASIS = {
+  g: { per: '100g', quantity: 100 },
+  ml: { per: 'L', quantity: 1000 },
+  each: { per: 'each', quantity: 1 }
+};
+
+const toAmount = (match, group = 1) => (match ? Number(match[group]) : null);
+const roundPrice = (value, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Read the selling price, was price and any multi-buy offer from price text
+ * The selling price is the "now" price if there is one, otherwise the first
+ * amount that isn't a was price, a saving or part of a multi-buy offer
+ * @param {string} text - Price text, e.g. "$3.20 Was $3.65" or "$2.95\n2 for $5"
+ * @returns {Object} { price, currency, wasPrice, promo } with nulls for anything not shown
+ */
+export function parsePriceText(text) {
+  // "$1,299" -> "$1299"
+  const source = (text || '').replace(/(\d),(\d{3})\b/g, '$1$2');
+  const multiBuy = source.match(MULTI_BUY_PATTERN);
+  const was = source.match(WAS_PATTERN);
+  const now = source.match(NOW_PATTERN);
+  const save = source.match(SAVE_PATTERN);
+
+  let price = toAmount(now);
+  if (price === null) {
+    // Blank out the amounts that belong to offers, then take the first left
+    let remaining = source;
+    for (const match of [multiBuy, was, save]) {
+      if (match) remaining = remaining.replace(match[0], ' ');
+    }
+    price = toAmount(new RegExp(AMOUNT, 'i').exec(remaining));
+  }
+
+  const promo = multiBuy
+    ? { type: 'multiBuy', quantity: Number(multiBuy[1]), price: Number(multiBuy[2]), text: multiBuy[0].trim() }
+    : null;
+  // Only a multi-buy offer on the card: one item costs a share of it
+  if (price === null && promo) {
+    price = roundPrice(promo.price / promo.quantity);
+  }
+
+  let wasPrice = toAmount(was);
+  if (wasPrice === null && save && price !== null) {
+    wasPrice = roundPrice(price + Number(save[1]));
+  }
+  if (wasPrice !== null && (price === null || wasPrice <= price)) {
+    wasPrice = null;
+  }
+
+  const amounts = source.match(AMOUNT_PATTERN);
+  return {
+    price,
+    currency: amounts ? 'SGD' : null,
+    wasPrice,
+    promo
+  };
+}
+
+/**
+ * Read pack count, size and unit from pack size text
+ * @param {string} text - Pack size text, e.g. "2 x 1L", "500g" or "10s"
+ * @returns {Object|null} { packCount, unitSize, unit, totalQuantity } in g, ml or pieces, or null if no size is found
+ */
+export function parsePackSize(text) {
+  const source = (text || '').replace(/,/g, '');
+  let packCount = 1;
+  let size;
+  let unitName;
+
+  const multi = source.match(MULTI_PACK_PATTERN);
+  const reversed = !multi && source.match(MULTI_PACK_REVERSED_PATTERN);
+  const single = !multi && !reversed && source.match(SINGLE_PACK_PATTERN);
+  if (multi) {
+    [, packCount, size, unitName] = multi;
+  } else if (reversed) {
+    [, size, unitName, packCount] = reversed;
+  } else if (single) {
+    [, size, unitName] = single;
+  } else {
+    return null;
+  }
+
+  const [unit, factor] = UNITS[unitName.toLowerCase()];
+  packCount = Number(packCount);
+  const unitSize = roundPrice(Number(size) * factor, 3);
+  if (!(packCount > 0) || !(unitSize > 0)) return null;
+
+  return { packCount, unitSize, unit, totalQuantity: roundPrice(packCount * unitSize, 3) };
+}
+
+/**
+ * Structured pricing for one product
+ * The unit price uses the best price a shopper can get per pack, so a
+ * "2 for $5" offer counts as $2.50 each
+ * @param {Object} fields
+ * @param {string} fields.priceText - The card's price text
+ * @param {string} [fields.sizeText] - The card's pack size text
+ * @param {string} [fields.name] - Product name, searched for a size when sizeText has none
+ * @returns {Object|null} Pricing, or null if no price can be read
+ */
+export function parseProductPricing({ priceText, sizeText = '', name = '' }) {
+  const { price, currency, wasPrice, promo } = parsePriceText(priceText);
+  if (price === null || price <= 0) return null;
+
+  const pack = parsePackSize(sizeText) || parsePackSize(name);
+  const effectivePrice = promo ? Math.min(price, roundPrice(promo.price / promo.quantity)) : price;
+  let unitPrice = null;
+  if (pack) {
+    const basis = UNIT_PRICE_BASIS[pack.unit];
+    unitPrice = { amount: roundPrice((effectivePrice / pack.totalQuantity) * basis.quantity, 4), per: basis.per };
+  }
+
+  return {
+    price,
+    currency: currency || 'SGD',
+    ...(wasPrice !== null && { wasPrice }),
+    ...(promo && { promo }),
+    effectivePrice,
+    ...pack,
+    unitPrice
+  };
+}
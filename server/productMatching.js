@@ -0,0 +1,123 @@
+// Cross-store product matching.
+// Each store names the same SKU a little differently ("Meiji Fresh Milk 2L" at
+// FairPrice, "Meiji Milk 2 L" at Cold Storage), so listings are grouped by brand,
+// pack size and a normalized name. Each group compares its stores' prices per unit.
+
+import { SIZE_PATTERN, normalizeProductKey } from './priceHistory.js';
+
+// Brands longer than one word; any other brand is taken to be the first word of the name
+const MULTI_WORD_BRANDS = ['dutch lady', 'seng choon', 'cold storage', 'sheng siong', 'lee kum kee'];
+// Words stores add or leave out for the same product
+const FILLER_WORDS = new Set([
+  'fresh', 'pure', 'original', 'classic', 'premium', 'natural', 'brand', 'the', 'and', 'with', 'of',
+  'pack', 'packet', 'bottle', 'carton', 'box', 'tub', 'bag', 'value', 'new'
+]);
+// Share of name words two listings must have in common to be the same product
+const NAME_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Brand and remaining name words of a product name, ignoring case, punctuation and pack size
+ * @param {string} name - Product name as listed, e.g. "Meiji Fresh Milk 2L"
+ * @returns {Object} { brand, words } e.g. { brand: "meiji", words: ["milk"] }
+ */
+export function parseProductIdentity(name) {
+  // "F&N", "F & N" and "Chew's" are one word
+  const key = normalizeProductKey((name || '').replace(/\s*&\s*|'/g, ''));
+  const brand = MULTI_WORD_BRANDS.find(candidate => key === candidate || key.startsWith(`${candidate} `))
+    ?? key.split(' ')[0];
+  const words = key.slice(brand.length).split(' ').filter(word => word && !FILLER_WORDS.has(word));
+  return { brand, words: [...new Set(words)].sort() };
+}
+
+/**
+ * Pack size a listing is sold in, e.g. "1x2000ml"; null without a parsed size
+ */
+const sizeKey = (pricing) => (pricing?.unit ? `${pricing.packCount}x${pricing.unitSize}${pricing.unit}` : null);
+
+const formatSize = (pricing) => {
+  if (!pricing?.unit) return null;
+  const { packCount, unitSize, unit } = pricing;
+  const size = unit === 'g' && unitSize >= 1000 ? `${unitSize / 1000}kg`
+    : unit === 'ml' && unitSize >= 1000 ? `${unitSize / 1000}L`
+    : unit === 'each' ? `${unitSize}s`
+    : `${unitSize}${unit}`;
+  return packCount > 1 ? `${packCount} x ${size}` : size;
+};
+
+const nameSimilarity = (a, b) => {
+  if (a.length === 0 && b.length === 0) return 1;
+  const shared = a.filter(word => b.includes(word)).length;
+  return shared / (a.length + b.length - shared);
+};
+
+const displayBrand = (name, brand) => name.split(/\s+/).slice(0, brand.split(' ').length).join(' ');
+const displayName = (name) => name.replace(SIZE_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Group the products every store matched into one entry per SKU
+ * Listings are the same SKU when they share a brand and pack size and most of
+ * their other name words. A store listing one SKU more than once keeps its cheapest.
+ * @param {Array<Object>} results - Store results from scrapeAllStores
+ * @returns {Array<Object>} One entry per SKU with each store's offer, cheapest first;
+ *   SKUs sold at more stores come first
+ */
+export function matchProductsAcrossStores(results) {
+  const groups = [];
+
+  for (const result of results) {
+    for (const product of result.products || []) {
+      if (!product.pricing) continue;
+      const identity = parseProductIdentity(product.name);
+      const size = sizeKey(product.pricing);
+      const offer = {
+        storeCode: result.storeCode,
+        storeName: result.storeName,
+        url: result.url,
+        productName: product.name,
+        price: product.pricing.price,
+        effectivePrice: product.pricing.effectivePrice,
+        ...(product.pricing.wasPrice !== undefined && { wasPrice: product.pricing.wasPrice }),
+        ...(product.pricing.promo && { promo: product.pricing.promo }),
+        unitPrice: product.pricing.unitPrice
+      };
+
+      const group = groups.find(candidate =>
+        candidate.brand === identity.brand &&
+        candidate.sizeKey === size &&
+        nameSimilarity(candidate.words, identity.words) >= NAME_SIMILARITY_THRESHOLD
+      );
+      if (!group) {
+        groups.push({ ...identity, sizeKey: size, product, offers: [offer] });
+        continue;
+      }
+      const existing = group.offers.findIndex(o => o.storeCode === offer.storeCode);
+      if (existing === -1) {
+        group.offers.push(offer);
+      } else if (offer.effectivePrice < group.offers[existing].effectivePrice) {
+        group.offers[existing] = offer;
+      }
+    }
+  }
+
+  return groups
+    .map(({ brand, words, sizeKey: key, product, offers }) => {
+      offers.sort((a, b) => a.effectivePrice - b.effectivePrice);
+      const cheapest = offers[0];
+      const dearest = offers[offers.length - 1];
+      return {
+        id: [brand, words.join(' '), key ?? 'any'].join('|'),
+        brand: displayBrand(product.name, brand),
+        name: displayName(product.name),
+        size: formatSize(product.pricing),
+        storeCount: offers.length,
+        cheapestStoreCode: cheapest.storeCode,
+        // What buying at the cheapest store saves over the dearest one
+        saving: Math.round((dearest.effectivePrice - cheapest.effectivePrice) * 100) / 100,
+        offers
+      };
+    })
+    .sort((a, b) =>
+      b.storeCount - a.storeCount ||
+      a.offers[0].effectivePrice - b.offers[0].effectivePrice
+    );
+}
@@ -0,0 +1,203 @@
+// Cache for scrape results, one entry per normalized query, store and adapter version.
+// Fresh entries are served as-is. Stale entries are served straight away while
+// a background scrape refreshes them. Concurrent requests for an entry that is
+// already being scraped wait for that scrape instead of starting another.
+
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+const SAVE_DELAY_MS = 1000;
+
+export const normalizeCacheQuery = (query) => (query || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// A new adapter version reads pages differently, so its results never reuse the old version's;
+// entries for old versions are left to expire
+const cacheKey = (query, store) => `${normalizeCacheQuery(query)}::${store.storeCode}@${store.version ?? ''}`;
+
+/**
+ * Entries held in memory only; they are lost on restart.
+ */
+export const createMemoryBackend = () => {
+  const entries = new Map();
+  return {
+    get: (key) => entries.get(key),
+    set: (key, entry) => { entries.set(key, entry); },
+    delete: (key) => { entries.delete(key); },
+    entries: () => entries.entries(),
+    size: () => entries.size,
+    flush: async () => {}
+  };
+};
+
+/**
+ * Entries kept in memory and written to a JSON file shortly after each change,
+ * so a restarted server starts warm. Writes go to a temp file first so a crash
+ * mid-write can't corrupt the cache.
+ */
+export const createFileBackend = (filePath) => {
+  const entries = new Map();
+  if (existsSync(filePath)) {
+    try {
+      for (const [key, entry] of Object.entries(JSON.parse(readFileSync(filePath, 'utf8')))) {
+        entries.set(key, entry);
+      }
+    } catch (error) {
+      console.warn(`[scrape-cache] Ignoring unreadable cache file ${filePath}:`, error.message);
+    }
+  }
+
+  let saveTimer = null;
+  let saving = Promise.resolve();
+
+  const save = () => {
+    saveTimer = null;
+    const data = JSON.stringify(Object.fromEntries(entries));
+    const tempPath = `${filePath}.tmp`;
+    saving = saving
+      .then(async () => {
+        mkdirSync(dirname(filePath), { recursive: true });
+        await writeFile(tempPath, data);
+        await rename(tempPath, filePath);
+      })
+      .catch(error => console.error('[scrape-cache] Failed to save cache file:', error));
+    return saving;
+  };
+
+  const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(save, SAVE_DELAY_MS);
+    // Don't keep the process alive just to save the cache
+    saveTimer.unref?.();
+  };
+
+  return {
+    get: (key) => entries.get(key),
+    set: (key, entry) => { entries.set(key, entry); scheduleSave(); },
+    delete: (key) => { entries.delete(key); scheduleSave(); },
+    entries: () => entries.entries(),
+    size: () => entries.size,
+    flush: async () => {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        await save();
+      }
+      await saving;
+    }
+  };
+};
+
+/**
+ * Wrap a `scrape(query, stores)` function that returns one result per store.
+ * @param {Object} options
+ * @param {Function} options.scrape - Scrapes the given stores for a query
+ * @param {Object} options.backend - From createMemoryBackend or createFileBackend
+ * @param {number} options.ttlMs - How long a result is fresh
+ * @param {number} options.staleMs - How long after that it may still be served while refreshing
+ * @param {number} options.maxEntries - Oldest entries are dropped past this many
+ */
+export const createScrapeCache = ({ scrape, backend = createMemoryBackend(), ttlMs, staleMs, maxEntries = 1000 }) => {
+  const inFlight = new Map();
+  const metrics = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, refreshes: 0, errors: 0 };
+
+  const prune = (now) => {
+    const expired = [];
+    for (const [key, entry] of backend.entries()) {
+      if (now - entry.storedAt >= ttlMs + staleMs) expired.push(key);
+    }
+    expired.forEach(key => backend.delete(key));
+
+    if (backend.size() > maxEntries) {
+      const oldest = Array.from(backend.entries())
+        .sort(([, a], [, b]) => a.storedAt - b.storedAt)
+        .slice(0, backend.size() - maxEntries);
+      oldest.forEach(([key]) => backend.delete(key));
+    }
+  };
+
+  // Scrape the stores as one batch, with one in-flight promise per store so
+  // other requests can join any part of it
+  const fetchStores = (query, stores) => {
+    const batch = Promise.resolve().then(() => scrape(query, stores));
+    return stores.map(store => {
+      const key = cacheKey(query, store);
+      const promise = batch
+        .then(results => {
+          const result = results.find(r => r.storeCode === store.storeCode);
+          if (!result) throw new Error(`No result for ${store.storeCode}`);
+          // Failed scrapes aren't cached so the next request tries again
+          if (result.error) {
+            metrics.errors++;
+          } else {
+            const now = Date.now();
+            backend.set(key, { storedAt: now, result });
+            prune(now);
+          }
+          return result;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    });
+  };
+
+  /**
+   * Results for every store, from the cache where possible, in the order of `stores`.
+   * Cached results carry `cachedAt` and, when being refreshed, `stale: true`.
+   */
+  const search = async (query, stores) => {
+    const now = Date.now();
+    const pending = new Array(stores.length);
+    const missing = [];
+    const expiring = [];
+
+    stores.forEach((store, index) => {
+      const key = cacheKey(query, store);
+      const entry = backend.get(key);
+      const age = entry ? now - entry.storedAt : Infinity;
+
+      if (age < ttlMs) {
+        metrics.hits++;
+        pending[index] = { ...entry.result, cachedAt: new Date(entry.storedAt).toISOString() };
+      } else if (age < ttlMs + staleMs) {
+        metrics.staleHits++;
+        pending[index] = { ...entry.result, cachedAt: new Date(entry.storedAt).toISOString(), stale: true };
+        if (!inFlight.has(key)) expiring.push(store);
+      } else if (inFlight.has(key)) {
+        metrics.coalesced++;
+        pending[index] = inFlight.get(key);
+      } else {
+        metrics.misses++;
+        missing.push({ store, index });
+      }
+    });
+
+    if (missing.length > 0) {
+      const promises = fetchStores(query, missing.map(m => m.store));
+      missing.forEach(({ index }, i) => { pending[index] = promises[i]; });
+    }
+
+    if (expiring.length > 0) {
+      metrics.refreshes++;
+      // Not awaited: the stale results above answer this request
+      Promise.all(fetchStores(query, expiring))
+        .catch(error => console.error('[scrape-cache] Background refresh failed:', error));
+    }
+
+    return Promise.all(pending);
+  };
+
+  const getMetrics = () => {
+    const lookups = metrics.hits + metrics.staleHits + metrics.misses + metrics.coalesced;
+    return {
+      ...metrics,
+      entries: backend.size(),
+      inFlight: inFlight.size,
+      hitRate: lookups > 0 ? Math.round(((metrics.hits + metrics.staleHits) / lookups) * 1000) / 1000 : null,
+      ttlSeconds: ttlMs / 1000,
+      staleSeconds: staleMs / 1000
+    };
+  };
+
+  return { search, getMetrics, flush: () => backend.flush() };
+};
@@ -1,7 +1,11 @@
 import puppeteer from 'puppeteer';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { DEFAULT_NO_RESULTS_TEXT, loadStoreAdapters } from './storeAdapters.js';
+import { parsePriceText, parseProductPricing } from './priceParser.js';
 
 // Central Puppeteer options for cloud environments like Railway
-const PUPPETEER_LAUNCH_OPTIONS = {
+export const PUPPETEER_LAUNCH_OPTIONS = {
   headless: true,
   args: [
     '--no-sandbox',
@@ -16,66 +20,12 @@ const PUPPETEER_LAUNCH_OPTIONS = {
   // Don't specify executablePath - let Puppeteer find Chrome automatically
 };
 
-// Store configurations for Singapore supermarkets
-export const STORES = [
-  {
-    storeName: "NTUC FairPrice",
-    storeCode: "fairprice",
-    baseSearchUrl: "https://www.fairprice.com.sg/search",
-    queryParam: "query",
-    selectors: {
-      // Primary selector based on inspection: data-testid="product"
-      // Fallback to a[class*="sc-e68f503d-3"] for styled anchor links
-      productCard: '[data-testid="product"]',
-      productCardFallback: [
-        'a[class*="sc-e68f503d-3"]',
-        '[data-testid*="product"]',
-        'div[class*="product-card"]',
-        'a[href*="/product"]',
-        '[class*="product-item"]',
-        'div[role="link"]',
-        'article'
-      ],
-      noResults: '.no-results, .empty-state, [data-testid="no-results"]'
-    }
-  },
-  {
-    storeName: "Sheng Siong",
-    storeCode: "shengsiong",
-    baseSearchUrl: "https://shengsiong.com.sg/search",
-    queryParam: "q",
-    queryFormat: "path",  // /search/<query> format instead of ?q=
-    selectors: {
-      productCard: 'a.product-preview',
-      productCardFallback: [
-        'a[href*="/product"]',
-        'div[class*="product"]',
-        '.product-item',
-        'a[class*="product"]',
-        'article'
-      ],
-      noResults: '.no-results, .empty-state, [class*="no-result"]'
-    }
-  },
-  {
-    storeName: "Cold Storage",
-    storeCode: "coldstorage",
-    baseSearchUrl: "https://coldstorage.com.sg/en/search",
-    queryParam: "keyword",
-    selectors: {
-      productCard: 'a.ware-wrapper',
-      productCardFallback: [
-        'a.router-link',
-        'a[href*="/product"]',
-        'div[class*="ware"]',
-        'div[class*="product"]',
-        '[class*="product-item"]',
-        'article'
-      ],
-      noResults: '.no-results, .empty-state, [class*="no-result"]'
-    }
-  }
-];
+// Store configurations live in server/stores/, one adapter file per store (see storeAdapters.js).
+// The server reloads them as they change; scripts use the set loaded at startup.
+export const STORE_ADAPTERS_DIR = join(dirname(fileURLToPath(import.meta.url)), 'stores');
+export const STORES = loadStoreAdapters(STORE_ADAPTERS_DIR).adapters
+  .map(adapter => adapter.store)
+  .filter(store => store.enabled);
 
 /**
  * Helper function to wait using Promise (replaces deprecated page.waitForTimeout)
@@ -90,7 +40,7 @@ function delay(ms) {
  * @param {string} text - Product text containing quantity, unit, and name
  * @returns {string} Cleaned product name without quantity and unit
  */
-function cleanProductName(text) {
+export function cleanProductName(text) {
   // Split by newlines in case format is "1 kg\nNuts" or "Nuts\n1 kg"
   const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
   
@@ -121,322 +71,484 @@ function cleanProductName(text) {
   return cleaned;
 }
 
+const normalizeForMatch = (str) => str
+  .toLowerCase()
+  .replace(/[^a-z0-9\s]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
 /**
- * Scrape a single store to check if it has a product matching the query
- * @param {Object} store - Store configuration
+ * Check whether a cleaned product name matches a search query
+ * Every query word must appear as a whole word, a plural/singular form,
+ * or (for words of 5+ characters) inside a longer compound word
+ * @param {string} productName - Product name from cleanProductName
  * @param {string} query - Search query
- * @param {Object} browser - Puppeteer browser instance (optional, for reuse)
- * @returns {Promise<Object>} Result with storeName, storeCode, url, and hasItem
+ * @returns {boolean} True if the product matches
  */
-export async function scrapeStore(store, query, browser = null) {
-  const shouldCloseBrowser = !browser;
-  let page = null;
+export function matchesQuery(productName, query) {
+  const queryWords = normalizeForMatch(query).split(' ').filter(w => w.length > 0);
+  if (queryWords.length === 0) return false;
+  const productWords = normalizeForMatch(productName).split(' ');
+
+  return queryWords.every(queryWord => {
+    // For ALL query words, require exact whole word match first
+    if (productWords.includes(queryWord)) {
+      return true;
+    }
 
-  try {
-    // Create browser if not provided
-    if (!browser) {
-      browser = await puppeteer.launch(PUPPETEER_LAUNCH_OPTIONS);
+    // Check plural/singular variations (e.g., milk/milks, pen/pens)
+    const singular = queryWord.replace(/s$/, '');
+    const plural = queryWord + 's';
+    if (productWords.includes(plural) || productWords.includes(singular)) {
+      return true;
     }
 
-    // Build search URL - handle path-based queries for Sheng Siong
-    let searchUrl;
-    if (store.queryFormat === 'path') {
-      // Sheng Siong uses /search/<query> format
-      searchUrl = `${store.baseSearchUrl}/${encodeURIComponent(query)}`;
-    } else {
-      // Standard query parameter format
-      searchUrl = `${store.baseSearchUrl}?${store.queryParam}=${encodeURIComponent(query)}`;
+    // Only allow substring matching for longer words (5+ chars) to catch compound words
+    // This prevents "pen" matching "peng" but allows "chocolate" to match "ferrero-chocolate"
+    if (queryWord.length >= 5) {
+      return productWords.some(pw => pw.length >= queryWord.length && pw.includes(queryWord));
     }
-    
-    console.log(`\n[${store.storeName}] 🌐 Navigating to: ${searchUrl}`);
 
-    page = await browser.newPage();
-    
-    // Set user agent to avoid bot detection
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-    
-    // Set viewport
-    await page.setViewport({ width: 1280, height: 800 });
+    return false;
+  });
+}
 
-    // Navigate with optimized timeout
-    try {
-      await page.goto(searchUrl, {
-        waitUntil: 'domcontentloaded',
-        timeout: 6000
-      });
-      console.log(`[${store.storeName}] ✓ Page loaded`);
-    } catch (navError) {
-      console.log(`[${store.storeName}] ⚠️  Timeout, continuing anyway...`);
-    }
+// Card lines that are buttons, badges or promos rather than the product name
+const CARD_NOISE_PATTERN = /^(add to cart|add|buy|view|sold out|out of stock|new|sale|offer|promo|\d+% off|save\b.*|was\b.*|u\.?p\.?\b.*)$/i;
+const CARD_PRICE_PATTERN = /\$\s?(\d{1,4}(?:\.\d{1,2})?)/;
+const CARD_SIZE_PATTERN = /^\s*\d+(\.\d+)?\s*[x×X]?\s*\d*(\.\d+)?\s*(kg|g|mg|ml|l|cl|pack|packs|pc|pcs|piece|pieces|each|ea|s)\b/i;
 
-    // Accept common consent / cookies banners (best-effort, non-blocking)
-    try {
-      await page.evaluate(() => {
-        const labels = ['accept', 'agree', 'got it', 'i understand', 'close'];
-        const buttons = Array.from(document.querySelectorAll('button, [role="button"], .cookie, .consent'));
-        for (const btn of buttons) {
-          const text = (btn.innerText || btn.textContent || '').toLowerCase();
-          if (labels.some(l => text.includes(l))) {
-            try {
-              btn.click();
-            } catch {}
-          }
-        }
-      });
-    } catch (consentErr) {
-      console.log(`[${store.storeName}] Consent dismiss failed: ${consentErr.message || consentErr}`);
-    }
+const cardLines = (text) => text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
 
-    // Skip delays - products should already be loaded
-
-    // Try to wait for product container or results area
-    const containerSelectors = [
-      '[data-testid="search-results"]',
-      '.search-results',
-      '.products-grid',
-      '.product-list',
-      'main',
-      '.main-content',
-      '[role="main"]'
-    ];
-
-    let containerFound = false;
-    for (const selector of containerSelectors) {
-      try {
-        await page.waitForSelector(selector, { timeout: 5000 });
-        console.log(`[${store.storeName}] Found results container with selector: ${selector}`);
-        containerFound = true;
-        break;
-      } catch (e) {
-        // Selector not found, try next
-      }
-    }
+/**
+ * Pull the name, shelf price and pack size out of a product card's text
+ * The price is read from every line with a dollar amount, so was prices,
+ * savings and multi-buy offers aren't mistaken for what the shopper pays
+ * @param {string} text - Card text, one line per visual line
+ * @returns {Object|null} { name, price, size } or null if the card shows no price
+ */
+export function parseProductCard(text) {
+  const lines = cardLines(text);
+  const priceLines = lines.filter(line => CARD_PRICE_PATTERN.test(line));
+  if (priceLines.length === 0) return null;
+
+  const { price } = parsePriceText(priceLines.join('\n'));
+  const size = lines.find(line => CARD_SIZE_PATTERN.test(line) && !CARD_PRICE_PATTERN.test(line)) || null;
+  const name = cleanProductName(lines
+    .filter(line => !CARD_PRICE_PATTERN.test(line) && !CARD_NOISE_PATTERN.test(line))
+    .join('\n'));
+
+  if (!name || !isFinite(price) || price <= 0) return null;
+  return { name, price, size };
+}
 
-    if (!containerFound) {
-      console.log(`[${store.storeName}] No results container found, but continuing...`);
-    }
+/**
+ * Build the search page URL for a store and query
+ * @param {Object} store - Store configuration
+ * @param {string} query - Search query
+ * @returns {string} Search URL
+ */
+export function buildSearchUrl(store, query) {
+  return store.searchUrl.replace('{query}', encodeURIComponent(query));
+}
 
-    // Check for "no results" message first
-    const noResultsSelectors = store.selectors.noResults.split(', ');
-    for (const selector of noResultsSelectors) {
-      try {
-        const noResultsElement = await page.$(selector);
-        if (noResultsElement) {
-          const text = await page.evaluate(el => el?.textContent || '', noResultsElement);
-          if (text && (text.toLowerCase().includes('no result') || 
-                       text.toLowerCase().includes('not found') ||
-                       text.toLowerCase().includes('no product') ||
-                       text.toLowerCase().includes('no items') ||
-                       text.toLowerCase().includes('nothing found'))) {
-            console.log(`[${store.storeName}] ✗ No results found (empty state message detected)`);
-            await page.close();
-            return {
-              storeName: store.storeName,
-              storeCode: store.storeCode,
-              url: searchUrl,
-              hasItem: false
-            };
-          }
+/**
+ * Turn the fields read from a card into a priced product
+ * The adapter's title, price and unit selectors are used as read; the card's text is
+ * only parsed for cards without them (the broad search, or a selector that found nothing)
+ * @param {Object} card - { text, title?, price?, unit?, image? } as read from the page
+ * @returns {Object|null} { name, price, size, image?, pricing } or null if the card shows no price;
+ *   `pricing` has the was price, offers, pack size and unit price (see priceParser.js)
+ */
+export function readProductCard(card) {
+  const parsed = card.title && card.price ? null : parseProductCard(card.text);
+  const name = card.title ? cleanProductName(card.title) : parsed?.name ?? cleanProductName(card.text);
+  const size = card.unit || parsed?.size || null;
+  const priceText = card.price || cardLines(card.text).filter(line => CARD_PRICE_PATTERN.test(line)).join('\n');
+  const pricing = parseProductPricing({ priceText, sizeText: size || '', name });
+  if (!name || !pricing) return null;
+
+  return {
+    name,
+    price: pricing.price,
+    size,
+    ...(card.image && { image: card.image }),
+    pricing
+  };
+}
+
+// Card texts that are the store's own messages rather than products
+const NOT_A_PRODUCT_PATTERNS = [
+  /no products? found/i,
+  /no results?/i,
+  /nothing found/i,
+  /0 products?/i,
+  /found 0/i,
+  /check out our/i,
+  /try again/i,
+  /search returned/i,
+  /no items? match/i
+];
+
+/**
+ * Drop card texts that are error or UI messages, or too short to be a product
+ * @param {string} text - Card text
+ * @returns {boolean} True if the text looks like a product
+ */
+export function isProductText(text) {
+  // Very short texts are likely UI elements, not products
+  return text.length >= 5 && !NOT_A_PRODUCT_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * Match cards read from a search page against the query
+ * @param {Array<Object>} cards - Cards as read from the page, see readProductCard
+ * @param {string} query - Search query
+ * @returns {Object} { names, matched, products }: every cleaned name, the matching ones and their prices
+ */
+export function matchProductCards(cards, query) {
+  const names = cards.map(card => cleanProductName(card.title || card.text));
+  const matchedIndexes = names
+    .map((name, index) => (matchesQuery(name, query) ? index : -1))
+    .filter(index => index !== -1);
+
+  return {
+    names,
+    matched: matchedIndexes.map(index => names[index]),
+    // Keep the prices of matched cards so they can be recorded as price history
+    products: matchedIndexes
+      .map(index => readProductCard(cards[index]))
+      .filter(Boolean)
+      .slice(0, 20)
+  };
+}
+
+const scrapeErrorResult = (store, query, error) => {
+  console.error(`[${store.storeName}] ✗ Error during scraping:`, error.message);
+  return {
+    storeName: store.storeName,
+    storeCode: store.storeCode,
+    url: buildSearchUrl(store, query),
+    hasItem: false,
+    error: error.message
+  };
+};
+
+/**
+ * Navigate to a search page and wait for it to render
+ * @param {Object} store - Store configuration
+ * @param {Object} page - Puppeteer page
+ * @param {string} url - Page to open
+ */
+async function openSearchPage(store, page, url) {
+  console.log(`\n[${store.storeName}] 🌐 Navigating to: ${url}`);
+
+  // Navigate with optimized timeout
+  try {
+    await page.goto(url, {
+      waitUntil: 'domcontentloaded',
+      timeout: 6000
+    });
+    console.log(`[${store.storeName}] ✓ Page loaded`);
+  } catch (navError) {
+    console.log(`[${store.storeName}] ⚠️  Timeout, continuing anyway...`);
+  }
+
+  // Accept common consent / cookies banners (best-effort, non-blocking)
+  try {
+    await page.evaluate(() => {
+      const labels = ['accept', 'agree', 'got it', 'i understand', 'close'];
+      const buttons = Array.from(document.querySelectorAll('button, [role="button"], .cookie, .consent'));
+      for (const btn of buttons) {
+        const text = (btn.innerText || btn.textContent || '').toLowerCase();
+        if (labels.some(l => text.includes(l))) {
+          try {
+            btn.click();
+          } catch {}
         }
-      } catch (e) {
-        // Selector not found, continue
       }
+    });
+  } catch (consentErr) {
+    console.log(`[${store.storeName}] Consent dismiss failed: ${consentErr.message || consentErr}`);
+  }
+
+  // Skip delays - products should already be loaded
+
+  // Try to wait for product container or results area
+  const containerSelectors = [
+    '[data-testid="search-results"]',
+    '.search-results',
+    '.products-grid',
+    '.product-list',
+    'main',
+    '.main-content',
+    '[role="main"]'
+  ];
+
+  let containerFound = false;
+  for (const selector of containerSelectors) {
+    try {
+      await page.waitForSelector(selector, { timeout: 5000 });
+      console.log(`[${store.storeName}] Found results container with selector: ${selector}`);
+      containerFound = true;
+      break;
+    } catch (e) {
+      // Selector not found, try next
     }
+  }
 
-    // Check for product cards - with explicit waitForSelector for all stores
-    let hasProducts = false;
-    let productSelector = null;
+  if (!containerFound) {
+    console.log(`[${store.storeName}] No results container found, but continuing...`);
+  }
+}
 
-    // Use explicit waitForSelector for all stores
-    console.log(`[${store.storeName}] 🔍 Checking for products with selector: ${store.selectors.productCard}`);
-    
+/**
+ * Check whether the page shows the store's "no results" message
+ * @param {Object} store - Store configuration
+ * @param {Object} page - Puppeteer page
+ * @returns {Promise<boolean>} True if an empty state message is showing
+ */
+async function showsNoResults(store, page) {
+  if (!store.selectors.noResults) return false;
+  const phrases = store.noResultsText || DEFAULT_NO_RESULTS_TEXT;
+
+  for (const selector of store.selectors.noResults.split(', ')) {
     try {
-      // Try to wait for the primary selector with 1.5 second timeout
-      await page.waitForSelector(store.selectors.productCard, { timeout: 1500 });
-      console.log(`[${store.storeName}] ✓ waitForSelector SUCCEEDED for: ${store.selectors.productCard}`);
-      productSelector = store.selectors.productCard;
-    } catch (e) {
-      console.log(`[${store.storeName}] ⚠️  waitForSelector TIMED OUT for: ${store.selectors.productCard}`);
-      
-      // Try fallback selectors if configured
-      if (store.selectors.productCardFallback && Array.isArray(store.selectors.productCardFallback)) {
-        console.log(`[${store.storeName}] 🔄 Trying ${store.selectors.productCardFallback.length} fallback selectors...`);
-        for (const fallbackSelector of store.selectors.productCardFallback) {
-          try {
-            await page.waitForSelector(fallbackSelector, { timeout: 500 });
-            console.log(`[${store.storeName}] ✓ Fallback SUCCEEDED: ${fallbackSelector}`);
-            productSelector = fallbackSelector;
-            break;
-          } catch (fallbackError) {
-            console.log(`[${store.storeName}] ⚠️  Fallback timed out: ${fallbackSelector}`);
-          }
+      const noResultsElement = await page.$(selector);
+      if (noResultsElement) {
+        const text = await page.evaluate(el => el?.textContent || '', noResultsElement);
+        if (text && phrases.some(phrase => text.toLowerCase().includes(phrase))) {
+          return true;
         }
       }
+    } catch (e) {
+      // Selector not found, continue
     }
+  }
+  return false;
+}
 
-    // Query with the selector we found (or don't have one)
-    let productTexts = [];
-    if (productSelector) {
-      const products = await page.$$(productSelector);
-      console.log(`[${store.storeName}] 📦 Found ${products.length} products with selector: ${productSelector}`);
-
-      if (products.length > 0) {
-        // Extract text from found products
-        productTexts = await page.$$eval(productSelector, nodes =>
-          nodes.slice(0, 80).map(node => {
-            const text = (node.innerText || node.textContent || '').trim();
-            return text.split('\n').filter(line => line.trim().length > 0).join('\n');
-          }).filter(text => text.length > 0)
-        );
-        
-        // Filter out common error/UI messages that shouldn't be treated as products
-        const errorPatterns = [
-          /no products? found/i,
-          /no results?/i,
-          /nothing found/i,
-          /0 products?/i,
-          /found 0/i,
-          /check out our/i,
-          /try again/i,
-          /search returned/i,
-          /no items? match/i
-        ];
-        
-        productTexts = productTexts.filter(text => {
-          const lowerText = text.toLowerCase();
-          // Filter out texts that match error patterns
-          if (errorPatterns.some(pattern => pattern.test(lowerText))) {
-            return false;
-          }
-          // Filter out very short texts (likely UI elements, not products)
-          if (text.length < 5) {
-            return false;
-          }
-          return true;
-        });
-        
-        console.log(`[${store.storeName}] 📝 After filtering: ${productTexts.length} valid product texts`);
+/**
+ * Read every product card on the page with the adapter's field selectors
+ * A text field joins every element its selector matches, one per line, so a brand
+ * and name in separate elements, or a price and its promo badge, are read together
+ * @param {Object} page - Puppeteer page
+ * @param {string} cardSelector - Selector that matched the cards
+ * @param {Object} selectors - Store selectors (unit and image are optional)
+ * @returns {Promise<Array<Object>>} Cards as { text, title, price, unit, image }
+ */
+function readCards(page, cardSelector, selectors) {
+  const fields = { title: selectors.title, price: selectors.price, unit: selectors.unit, image: selectors.image };
+  return page.$$eval(cardSelector, (nodes, fields) => {
+    const textOf = (el) => (el ? (el.innerText || el.textContent || '').trim() : '');
+    const pick = (node, selector) => (selector ? node.querySelector(selector) : null);
+    const textOfAll = (node, selector) => (selector
+      ? Array.from(node.querySelectorAll(selector), textOf).filter(text => text.length > 0).join('\n')
+      : '');
+    return nodes.slice(0, 80).map(node => {
+      const image = pick(node, fields.image);
+      return {
+        text: textOf(node).split('\n').filter(line => line.trim().length > 0).join('\n'),
+        title: textOfAll(node, fields.title),
+        price: textOfAll(node, fields.price),
+        unit: textOfAll(node, fields.unit),
+        image: image ? image.currentSrc || image.src || image.getAttribute('data-src') || '' : ''
+      };
+    }).filter(card => card.text.length > 0);
+  }, fields);
+}
+
+/**
+ * URL of the next results page, or null if there isn't one
+ * @param {Object} store - Store configuration
+ * @param {Object} page - Puppeteer page, showing the current results page
+ * @param {string} searchUrl - First results page
+ * @param {number} pageNumber - Page to find, counting the first as 1
+ * @returns {Promise<string|null>} URL to open next
+ */
+async function getNextPageUrl(store, page, searchUrl, pageNumber) {
+  const { pagination } = store;
+  if (pagination.type === 'param') {
+    const url = new URL(searchUrl);
+    url.searchParams.set(pagination.param, String(pagination.start + pageNumber - 1));
+    return url.toString();
+  }
+  if (pagination.type === 'nextLink') {
+    return page.$eval(pagination.selector, link => link.href || null).catch(() => null);
+  }
+  return null;
+}
+
+/**
+ * Search one store on an open page and read the matching products
+ * The page is left open so pooled pages can be reused
+ * @param {Object} store - Store configuration
+ * @param {string} query - Search query
+ * @param {Object} page - Puppeteer page
+ * @returns {Promise<Object>} Result with storeName, storeCode, url, hasItem, the matched products' prices
+ *   and how many cards the selectors found (for adapter health)
+ */
+async function searchStorePage(store, query, page) {
+  const searchUrl = buildSearchUrl(store, query);
+
+  // Set user agent to avoid bot detection
+  await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+  
+  // Set viewport
+  await page.setViewport({ width: 1280, height: 800 });
+
+  await openSearchPage(store, page, searchUrl);
+
+  // Check for "no results" message first
+  if (await showsNoResults(store, page)) {
+    console.log(`[${store.storeName}] ✗ No results found (empty state message detected)`);
+    return {
+      storeName: store.storeName,
+      storeCode: store.storeCode,
+      url: searchUrl,
+      hasItem: false,
+      products: [],
+      cardsFound: 0,
+      noResults: true
+    };
+  }
+
+  // Check for product cards - with explicit waitForSelector for all stores
+  let hasProducts = false;
+  let pricedProducts = [];
+  let productSelector = null;
+
+  // Use explicit waitForSelector for all stores
+  console.log(`[${store.storeName}] 🔍 Checking for products with selector: ${store.selectors.productCard}`);
+  
+  try {
+    // Try to wait for the primary selector with 1.5 second timeout
+    await page.waitForSelector(store.selectors.productCard, { timeout: 1500 });
+    console.log(`[${store.storeName}] ✓ waitForSelector SUCCEEDED for: ${store.selectors.productCard}`);
+    productSelector = store.selectors.productCard;
+  } catch (e) {
+    console.log(`[${store.storeName}] ⚠️  waitForSelector TIMED OUT for: ${store.selectors.productCard}`);
+    
+    // Try fallback selectors if configured
+    if (store.selectors.productCardFallback && store.selectors.productCardFallback.length > 0) {
+      console.log(`[${store.storeName}] 🔄 Trying ${store.selectors.productCardFallback.length} fallback selectors...`);
+      for (const fallbackSelector of store.selectors.productCardFallback) {
+        try {
+          await page.waitForSelector(fallbackSelector, { timeout: 500 });
+          console.log(`[${store.storeName}] ✓ Fallback SUCCEEDED: ${fallbackSelector}`);
+          productSelector = fallbackSelector;
+          break;
+        } catch (fallbackError) {
+          console.log(`[${store.storeName}] ⚠️  Fallback timed out: ${fallbackSelector}`);
+        }
       }
     }
+  }
 
-    // If we didn't find products, try a broader search
-    if (productTexts.length === 0) {
-      console.log(`[${store.storeName}] 🔄 No products found with selectors, trying broader search...`);
+  // Query with the selector we found (or don't have one)
+  let cards = [];
+  if (productSelector) {
+    cards = await readCards(page, productSelector, store.selectors);
+    console.log(`[${store.storeName}] 📦 Found ${cards.length} products with selector: ${productSelector}`);
+
+    // Follow the adapter's pagination rule while pages keep returning cards
+    for (let pageNumber = 2; cards.length > 0 && pageNumber <= store.pagination.maxPages; pageNumber++) {
+      const nextUrl = await getNextPageUrl(store, page, searchUrl, pageNumber);
+      if (!nextUrl) break;
+      await openSearchPage(store, page, nextUrl);
+      let moreCards = [];
       try {
-        productTexts = await page.evaluate(() => {
-          // Try to find any element that might contain product info
-          const candidates = document.querySelectorAll('[class*="product"], [class*="item"], a, div[role="link"]');
-          const texts = [];
-          for (const el of candidates) {
-            const text = (el.innerText || el.textContent || '').trim();
-            if (text.length > 2 && text.length < 200) {
-              texts.push(text);
-            }
-          }
-          return texts.slice(0, 100);
-        });
-        console.log(`[${store.storeName}] 📦 Broad search found ${productTexts.length} potential product texts`);
-        
-        // Apply the same error filtering to broader search results
-        const errorPatterns = [
-          /no products? found/i,
-          /no results?/i,
-          /nothing found/i,
-          /0 products?/i,
-          /found 0/i,
-          /check out our/i,
-          /try again/i,
-          /search returned/i,
-          /no items? match/i
-        ];
-        
-        productTexts = productTexts.filter(text => {
-          const lowerText = text.toLowerCase();
-          // Filter out texts that match error patterns
-          if (errorPatterns.some(pattern => pattern.test(lowerText))) {
-            return false;
-          }
-          // Filter out very short texts (likely UI elements, not products)
-          if (text.length < 5) {
-            return false;
-          }
-          return true;
-        });
-        
-        console.log(`[${store.storeName}] 📝 After filtering broad search: ${productTexts.length} valid texts`);
+        await page.waitForSelector(productSelector, { timeout: 1500 });
+        moreCards = await readCards(page, productSelector, store.selectors);
       } catch (e) {
-        console.log(`[${store.storeName}] ⚠️  Broad search also failed`);
+        // No cards on this page
       }
+      console.log(`[${store.storeName}] 📦 Page ${pageNumber}: ${moreCards.length} more products`);
+      if (moreCards.length === 0) break;
+      cards.push(...moreCards);
     }
 
-    // Now proceed with matching if we have product texts
-    if (productTexts.length > 0) {
-      const normalize = (str) => str
-        .toLowerCase()
-        .replace(/[^a-z0-9\s]/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-
-      // Clean product names by removing quantities and units
-      const cleanedProductTexts = productTexts.map(text => cleanProductName(text));
+    // Filter out common error/UI messages that shouldn't be treated as products
+    cards = cards.filter(card => isProductText(card.text));
+    console.log(`[${store.storeName}] 📝 After filtering: ${cards.length} valid product texts`);
+  }
+  const cardsFound = cards.length;
 
-      // Create normalized query for matching
-      const queryNorm = normalize(query).trim();
-      const queryWords = queryNorm.split(' ').filter(w => w.length > 0);
-      
-      // STRICTER matching: check if query words appear as whole words - NO SUBSTRING MATCHING FOR SHORT QUERIES
-      const matched = queryWords.length === 0 ? [] : cleanedProductTexts.filter(productName => {
-        const productNorm = normalize(productName);
-        const productWords = productNorm.split(' ');
-        
-        // Check if ALL query words appear in the product (as whole words or very close matches)
-        return queryWords.every(queryWord => {
-          // For ALL query words, require exact whole word match first
-          if (productWords.includes(queryWord)) {
-            return true;
-          }
-          
-          // Check plural/singular variations (e.g., milk/milks, pen/pens)
-          const singular = queryWord.replace(/s$/, '');
-          const plural = queryWord + 's';
-          if (productWords.includes(plural) || productWords.includes(singular)) {
-            return true;
-          }
-          
-          // Only allow substring matching for longer words (5+ chars) to catch compound words
-          // This prevents "pen" matching "peng" but allows "chocolate" to match "ferrero-chocolate"
-          if (queryWord.length >= 5) {
-            return productWords.some(pw => pw.length >= queryWord.length && pw.includes(queryWord));
+  // If we didn't find products, try a broader search
+  if (cards.length === 0) {
+    console.log(`[${store.storeName}] 🔄 No products found with selectors, trying broader search...`);
+    try {
+      const texts = await page.evaluate(() => {
+        // Try to find any element that might contain product info
+        const candidates = document.querySelectorAll('[class*="product"], [class*="item"], a, div[role="link"]');
+        const texts = [];
+        for (const el of candidates) {
+          const text = (el.innerText || el.textContent || '').trim();
+          if (text.length > 2 && text.length < 200) {
+            texts.push(text);
           }
-          
-          return false;
-        });
+        }
+        return texts.slice(0, 100);
       });
+      console.log(`[${store.storeName}] 📦 Broad search found ${texts.length} potential product texts`);
+      
+      // Apply the same error filtering to broader search results
+      cards = texts.filter(isProductText).map(text => ({ text }));
+      console.log(`[${store.storeName}] 📝 After filtering broad search: ${cards.length} valid texts`);
+    } catch (e) {
+      console.log(`[${store.storeName}] ⚠️  Broad search also failed`);
+    }
+  }
 
-      hasProducts = matched.length > 0;
-      console.log(`[${store.storeName}] ✅ Matched products: ${matched.length} of ${cleanedProductTexts.length} (search: "${query}")`);
-      if (matched.length > 0) {
-        console.log(`[${store.storeName}] 📝 Found: ${matched.slice(0, 5).map(p => `"${p}"`).join(', ')}`);
-      } else if (cleanedProductTexts.length > 0) {
-        console.log(`[${store.storeName}] 🔍 No matches. Sample products: ${cleanedProductTexts.slice(0, 8).map(p => `"${p}"`).join(', ')}`);
-      }
-    } else {
-      console.log(`[${store.storeName}] ⚠️  No product texts found - cannot match`);
-      hasProducts = false;
+  // Now proceed with matching if we have product texts
+  if (cards.length > 0) {
+    // STRICTER matching: check if query words appear as whole words - NO SUBSTRING MATCHING FOR SHORT QUERIES
+    const { names, matched, products } = matchProductCards(cards, query);
+    pricedProducts = products;
+
+    hasProducts = matched.length > 0;
+    console.log(`[${store.storeName}] ✅ Matched products: ${matched.length} of ${names.length} (search: "${query}")`);
+    if (matched.length > 0) {
+      console.log(`[${store.storeName}] 📝 Found: ${matched.slice(0, 5).map(p => `"${p}"`).join(', ')}`);
+    } else if (names.length > 0) {
+      console.log(`[${store.storeName}] 🔍 No matches. Sample products: ${names.slice(0, 8).map(p => `"${p}"`).join(', ')}`);
     }
+  } else {
+    console.log(`[${store.storeName}] ⚠️  No product texts found - cannot match`);
+    hasProducts = false;
+  }
 
-    await page.close();
+  return {
+    storeName: store.storeName,
+    storeCode: store.storeCode,
+    url: searchUrl,
+    hasItem: hasProducts,
+    products: pricedProducts,
+    cardsFound
+  };
+}
 
-    return {
-      storeName: store.storeName,
-      storeCode: store.storeCode,
-      url: searchUrl,
-      hasItem: hasProducts
-    };
+/**
+ * Scrape a single store to check if it has a product matching the query
+ * @param {Object} store - Store configuration
+ * @param {string} query - Search query
+ * @param {Object} browser - Puppeteer browser instance (optional, for reuse)
+ * @returns {Promise<Object>} Result with storeName, storeCode, url, hasItem and the matched products' prices
+ */
+export async function scrapeStore(store, query, browser = null) {
+  const shouldCloseBrowser = !browser;
+  let page = null;
 
+  try {
+    // Create browser if not provided
+    if (!browser) {
+      browser = await puppeteer.launch(PUPPETEER_LAUNCH_OPTIONS);
+    }
+    page = await browser.newPage();
+    return await searchStorePage(store, query, page);
   } catch (error) {
-    console.error(`[${store.storeName}] ✗ Error during scraping:`, error.message);
-    
+    return scrapeErrorResult(store, query, error);
+  } finally {
     if (page) {
       try {
         await page.close();
@@ -444,15 +556,6 @@ export async function scrapeStore(store, query, browser = null) {
         // Ignore close errors
       }
     }
-
-    return {
-      storeName: store.storeName,
-      storeCode: store.storeCode,
-      url: `${store.baseSearchUrl}?${store.queryParam}=${encodeURIComponent(query)}`,
-      hasItem: false,
-      error: error.message
-    };
-  } finally {
     if (shouldCloseBrowser && browser) {
       try {
         await browser.close();
@@ -463,13 +566,29 @@ export async function scrapeStore(store, query, browser = null) {
   }
 }
 
+/**
+ * Scrape a single store on a page borrowed from a browser pool
+ * @param {Object} store - Store configuration
+ * @param {string} query - Search query
+ * @param {Object} pool - Browser pool from createBrowserPool
+ * @returns {Promise<Object>} Same result shape as scrapeStore
+ */
+export async function scrapeStoreWithPool(store, query, pool) {
+  try {
+    return await pool.withPage(page => searchStorePage(store, query, page));
+  } catch (error) {
+    return scrapeErrorResult(store, query, error);
+  }
+}
+
 /**
  * Scrape multiple stores to check product availability
  * @param {string} query - Search query
  * @param {Array<Object>} stores - Array of store configurations (defaults to STORES)
+ * @param {Object} pool - Browser pool to borrow pages from (optional; launches a browser per call without one)
  * @returns {Promise<Array<Object>>} Array of results
  */
-export async function scrapeAllStores(query, stores = STORES) {
+export async function scrapeAllStores(query, stores = STORES, pool = null) {
   // ===== START OF SCRAPER FUNCTION =====
   console.log('[SCRAPER] Starting scrapeAllStores for query:', query);
   console.log('[SCRAPER] Stores to check:', stores.length);
@@ -487,6 +606,13 @@ export async function scrapeAllStores(query, stores = STORES) {
   console.log('[SCRAPER] Environment:', process.env.NODE_ENV || 'development');
   console.log('='.repeat(60));
   
+  // Pooled pages are scraped in parallel and go back to the pool when done
+  if (pool) {
+    const results = await Promise.all(stores.map(store => scrapeStoreWithPool(store, query, pool)));
+    console.log('[SCRAPER] Finished pooled scrape:', results.filter(r => r.hasItem).length, 'of', results.length, 'stores have the item');
+    return results;
+  }
+
   // Create a single browser instance for all stores
   let browser = null;
   const results = [];
@@ -512,7 +638,7 @@ export async function scrapeAllStores(query, stores = STORES) {
         return {
           storeName: store.storeName,
           storeCode: store.storeCode,
-          url: `${store.baseSearchUrl}`,
+          url: buildSearchUrl(store, query),
           hasItem: false,
           error: `Scraping error: ${storeError.message}`
         };
@@ -534,7 +660,7 @@ export async function scrapeAllStores(query, stores = STORES) {
       return stores.map(store => ({
         storeName: store.storeName,
         storeCode: store.storeCode,
-        url: `${store.baseSearchUrl}`,
+        url: buildSearchUrl(store, query),
         hasItem: false,
         error: `Puppeteer launch failed: ${error.message}`
       }));
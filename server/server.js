@@ -6,7 +6,20 @@ import dotenv from 'dotenv';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { scrapeAllStores, STORES } from './scraper.js';
+import puppeteer from 'puppeteer';
+import { PUPPETEER_LAUNCH_OPTIONS, scrapeAllStores, STORE_ADAPTERS_DIR } from './scraper.js';
+import {
+  computeItemStatus,
+  getUserExpirySettings,
+  getUserHouseholdId,
+  recomputeInventoryStatuses,
+  scheduleStatusRecompute
+} from './inventoryStatus.js';
+import { getPriceHistory, recordPriceObservations } from './priceHistory.js';
+import { matchProductsAcrossStores } from './productMatching.js';
+import { createFileBackend, createMemoryBackend, createScrapeCache } from './scrapeCache.js';
+import { createBrowserPool, createConcurrencyLimiter } from './browserPool.js';
+import { createStoreAdapterRegistry } from './storeAdapters.js';
 import fetch from 'node-fetch';
 
 dotenv.config();
@@ -24,23 +37,66 @@ admin.initializeApp({
 
 const db = admin.firestore();
 
-// Initialize OpenAI (optional - only needed for recipe generation)
+// Initialize OpenAI (optional - only needed for recipe generation and photo detection)
 let openai = null;
 if (process.env.OPENAI_API_KEY) {
   openai = new OpenAI({
     apiKey: process.env.OPENAI_API_KEY
   });
-  console.log('OpenAI initialized for recipe generation');
+  console.log('OpenAI initialized for recipe generation and photo detection');
 } else {
-  console.warn('OPENAI_API_KEY not found - recipe generation will not be available');
+  console.warn('OPENAI_API_KEY not found - recipe generation and photo detection will not be available');
 }
 
+// Store adapters are read from server/stores/ (or STORE_ADAPTERS_DIR) and reloaded when they change
+const storeAdapters = createStoreAdapterRegistry({
+  dir: process.env.STORE_ADAPTERS_DIR || STORE_ADAPTERS_DIR,
+  watch: process.env.STORE_ADAPTERS_WATCH !== 'false'
+});
+
+// Searches share long-lived browsers instead of launching one per store per search
+const browserPool = createBrowserPool({
+  launch: () => puppeteer.launch(PUPPETEER_LAUNCH_OPTIONS),
+  browsers: Number(process.env.SCRAPER_BROWSERS ?? 1),
+  pagesPerBrowser: Number(process.env.SCRAPER_PAGES_PER_BROWSER ?? 3),
+  acquireTimeoutMs: Number(process.env.SCRAPER_ACQUIRE_TIMEOUT_MS ?? 30000),
+  healthCheckIntervalMs: Number(process.env.SCRAPER_HEALTH_CHECK_SECONDS ?? 30) * 1000,
+  recycleAfterPages: Number(process.env.SCRAPER_RECYCLE_AFTER_PAGES ?? 200)
+});
+// Searches past the limit wait in a short queue; beyond that they're turned away with a 503
+const scrapeLimiter = createConcurrencyLimiter({
+  max: Number(process.env.SCRAPER_MAX_CONCURRENT_SEARCHES ?? 2),
+  maxQueued: Number(process.env.SCRAPER_MAX_QUEUED_SEARCHES ?? 10)
+});
+
+// Scrape results are cached per query and store; a stale result is served while it's refreshed
+const scrapeCacheBackend = process.env.SCRAPE_CACHE_BACKEND === 'memory'
+  ? createMemoryBackend()
+  : createFileBackend(process.env.SCRAPE_CACHE_FILE || join(__dirname, '.cache', 'scrape-cache.json'));
+const scrapeCache = createScrapeCache({
+  backend: scrapeCacheBackend,
+  ttlMs: Number(process.env.SCRAPE_CACHE_TTL_SECONDS ?? 600) * 1000,
+  staleMs: Number(process.env.SCRAPE_CACHE_STALE_SECONDS ?? 3600) * 1000,
+  scrape: async (query, stores) => {
+    const results = await scrapeLimiter.run(() => scrapeAllStores(query, stores, browserPool));
+    storeAdapters.recordResults(results);
+    // Not awaited: history is a by-product and shouldn't slow down the search.
+    // Only fresh scrapes are recorded, so cache hits don't duplicate observations.
+    recordPriceObservations(db, query, results)
+      .then(count => console.log('[scrape-cache] Recorded', count, 'price observations'))
+      .catch(error => console.error('[scrape-cache] Failed to record prices:', error));
+    return results;
+  }
+});
+
 // Express app setup
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
+// Photos for item detection arrive as base64, well over the default body limit
+app.use('/api/vision', express.json({ limit: '10mb' }));
 app.use(express.json());
 
 // Serve static frontend assets from Vite build output
@@ -49,9 +105,10 @@ app.use(express.static(distPath));
 
 // Helper Functions
 const buildPrompt = (inventoryItems, strictOnly, preferenceText) => {
-  const ingredientList = inventoryItems.map(item =>
-    `${item.name} (${item.quantity} ${item.quantityUnit})`
-  ).join(', ');
+  const ingredientList = inventoryItems.map(item => {
+    const useSoon = item.status === 'expiringSoon' || item.status === 'almostExpired';
+    return `${item.name} (${item.quantity} ${item.quantityUnit}${useSoon ? ', use soon' : ''})`;
+  }).join(', ');
 
   // Always available in small quantities (doesn't affect inventory tracking)
   const assumedPantryStaples = ['salt', 'pepper', 'oil', 'butter', 'sugar', 'flour', 'water'];
@@ -60,7 +117,7 @@ const buildPrompt = (inventoryItems, strictOnly, preferenceText) => {
 
   let prompt = `I have these ingredients available: ${ingredientList}
 
-Please generate 3 creative recipe ideas`;
+Please generate 3 creative recipe ideas, favouring ingredients marked "use soon"`;
 
   if (strictOnly) {
     prompt += `. You can use small amounts of basic pantry staples that are typically always available: ${assumedPantryStaples.join(', ')} (like "a pinch of salt" or "1 tbsp oil"). Do NOT include any other ingredients not in my inventory list.`;
@@ -221,10 +278,22 @@ app.post('/api/generate-recipes', async (req, res) => {
       return res.status(400).json({ error: 'No inventory items found' });
     }
 
-    const inventoryItems = inventorySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }));
+    // Stored statuses go stale as days pass, so work them out afresh and leave expired food out
+    const expirySettings = await getUserExpirySettings(db, uid);
+    const inventoryItems = inventorySnapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          status: computeItemStatus(data, expirySettings)
+        };
+      })
+      .filter(item => item.status !== 'expired');
+
+    if (inventoryItems.length === 0) {
+      return res.status(400).json({ error: 'All inventory items have expired' });
+    }
 
     // Build prompt
     const prompt = buildPrompt(inventoryItems, strictOnly, preferenceText);
@@ -359,7 +428,137 @@ app.get('/api/favourites', async (req, res) => {
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    scrapeCache: scrapeCache.getMetrics(),
+    browserPool: browserPool.getStats(),
+    searches: scrapeLimiter.getStats()
+  });
+});
+
+// The signed-in Firebase user behind a request, from its "Authorization: Bearer <ID token>" header;
+// null when the header is missing or the token doesn't verify
+const getRequestUser = async (req) => {
+  const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+  if (!match) return null;
+  try {
+    return await admin.auth().verifyIdToken(match[1]);
+  } catch (error) {
+    console.warn('ID token rejected:', error.code || error.message);
+    return null;
+  }
+};
+
+// A user's on-demand recompute runs at most this often; the scheduled job covers everyone else
+const RECOMPUTE_MIN_INTERVAL_MS = 5 * 60 * 1000;
+const lastRecomputeByUser = new Map();
+
+// Forget runs outside the window, so the map doesn't keep every user who ever asked
+const pruneRecomputeTimes = (now) => {
+  for (const [uid, lastRun] of lastRecomputeByUser) {
+    if (now - lastRun >= RECOMPUTE_MIN_INTERVAL_MS) lastRecomputeByUser.delete(uid);
+  }
+};
+
+// POST /api/inventory/recompute - Refresh the stored expiry statuses of the signed-in user's household on demand
+app.post('/api/inventory/recompute', async (req, res) => {
+  let uid = null;
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in required' });
+    }
+
+    const now = Date.now();
+    pruneRecomputeTimes(now);
+    if (lastRecomputeByUser.has(user.uid)) {
+      return res.json({ success: true, skipped: true });
+    }
+    // Taken before the run so overlapping requests don't both start one; a failed run gives it back
+    uid = user.uid;
+    lastRecomputeByUser.set(uid, now);
+
+    const householdId = await getUserHouseholdId(db, uid);
+    if (!householdId) {
+      return res.json({ success: true, scanned: 0, updated: 0 });
+    }
+
+    const result = await recomputeInventoryStatuses(db, { householdId });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (uid) lastRecomputeByUser.delete(uid);
+    console.error('Recompute statuses error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error.message
+    });
+  }
+});
+
+const VISION_MODEL = process.env.VISION_MODEL || 'gpt-4o-mini';
+const VISION_PROMPT = [
+  'You list the grocery items visible in a photo of a fridge, pantry or shopping bag.',
+  'Reply with JSON only, in the form {"items": [...]}, where each item is',
+  '{"name": string, "category": string, "quantity": number, "unit": "pcs" | "g" | "kg" | "ml" | "L" | "pack",',
+  '"storage": "fridge" | "freezer" | "pantry", "expiryDate": "YYYY-MM-DD" (only if printed on the item), "confidence": number from 0 to 1}.',
+  'Reply with {"items": []} if you see no food.'
+].join(' ');
+
+// POST /api/vision/detect - List the grocery items in a photo for the signed-in user.
+// The app validates the reply against its detected-items schema.
+app.post('/api/vision/detect', async (req, res) => {
+  try {
+    if (!openai) {
+      return res.status(503).json({
+        error: 'Photo detection service unavailable',
+        details: 'OPENAI_API_KEY not configured'
+      });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in required' });
+    }
+
+    const { imageBase64, mimeType } = req.body;
+    if (typeof imageBase64 !== 'string' || !imageBase64 || !/^image\/[\w.+-]+$/.test(mimeType || '')) {
+      return res.status(400).json({ error: 'An image is required' });
+    }
+
+    const completion = await openai.chat.completions.create({
+      model: VISION_MODEL,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: VISION_PROMPT },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Which items are in this photo?' },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } }
+          ]
+        }
+      ]
+    });
+
+    const content = completion.choices[0]?.message?.content || '';
+    try {
+      res.json(JSON.parse(content));
+    } catch {
+      console.error('[vision] Model reply was not JSON:', content.slice(0, 200));
+      res.status(502).json({
+        error: 'Failed to parse AI response',
+        details: 'Invalid JSON format from AI'
+      });
+    }
+  } catch (error) {
+    console.error('Vision detect error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error.message
+    });
+  }
 });
 
 // POST /search-products - Scrape multiple supermarkets to check product availability
@@ -374,26 +573,84 @@ app.post('/search-products', async (req, res) => {
       return res.status(400).json({ error: 'Missing query' });
     }
 
-    console.log('[search-products] Calling scrapeAllStores...');
-    const results = await scrapeAllStores(query.trim());
-    console.log('[search-products] scrapeAllStores returned', results.length, 'results');
+    console.log('[search-products] Looking up scrape cache...');
+    const results = await scrapeCache.search(query.trim(), storeAdapters.getStores());
+    console.log('[search-products] Returned', results.length, 'results,', results.filter(r => r.cachedAt).length, 'from cache');
 
     return res.json({ results });
   } catch (err) {
+    if (err.code === 'SCRAPER_BUSY') {
+      console.warn('[search-products] Busy:', err.message);
+      res.set('Retry-After', '10');
+      return res.status(503).json({ error: 'Scraper busy', details: err.message });
+    }
     console.error('[search-products] Error:', err);
     return res.status(500).json({ error: 'Internal error', details: String(err) });
   }
 });
 
-// GET /stores - Get list of configured stores
+// GET /api/prices/history?product=milk&days=90 - Daily lowest scraped unit price per store
+app.get('/api/prices/history', async (req, res) => {
+  try {
+    const { product, days = '90' } = req.query;
+    if (!product || typeof product !== 'string' || !product.trim()) {
+      return res.status(400).json({ error: 'product is required' });
+    }
+    const dayCount = Number(days);
+    if (!Number.isInteger(dayCount) || dayCount <= 0 || dayCount > 730) {
+      return res.status(400).json({ error: 'days must be a whole number from 1 to 730' });
+    }
+
+    const series = await getPriceHistory(db, product.trim(), { days: dayCount });
+    res.json({ success: true, product: product.trim(), days: dayCount, series });
+  } catch (error) {
+    console.error('Price history error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error.message
+    });
+  }
+});
+
+// GET /api/compare?query=meiji%20milk - The same products side by side across stores, cheapest first
+app.get('/api/compare', async (req, res) => {
+  try {
+    const { query } = req.query;
+    if (!query || typeof query !== 'string' || !query.trim()) {
+      return res.status(400).json({ error: 'query is required' });
+    }
+
+    const results = await scrapeCache.search(query.trim(), storeAdapters.getStores());
+    const products = matchProductsAcrossStores(results);
+    res.json({
+      success: true,
+      query: query.trim(),
+      stores: results.map(({ storeCode, storeName, hasItem, error }) => ({
+        storeCode,
+        storeName,
+        hasItem,
+        ...(error && { error })
+      })),
+      products
+    });
+  } catch (error) {
+    if (error.code === 'SCRAPER_BUSY') {
+      console.warn('[compare] Busy:', error.message);
+      res.set('Retry-After', '10');
+      return res.status(503).json({ error: 'Scraper busy', details: error.message });
+    }
+    console.error('Price comparison error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error.message
+    });
+  }
+});
+
+// GET /stores - Get list of configured stores with each adapter's version and health
 app.get('/stores', (req, res) => {
-  res.json({
-    stores: STORES.map(store => ({
-      storeName: store.storeName,
-      storeCode: store.storeCode,
-      baseSearchUrl: store.baseSearchUrl
-    }))
-  });
+  const { adapters, errors } = storeAdapters.getStatus();
+  res.json({ stores: adapters, invalidAdapters: errors });
 });
 
 // POST /api/search-products - Proxy for n8n webhook to avoid CORS issues
@@ -481,8 +738,40 @@ app.use((error, req, res, next) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
 
+// Keep stored statuses current as items age; set STATUS_RECOMPUTE_INTERVAL_MINUTES=0 to disable
+const statusRecomputeMinutes = Number(process.env.STATUS_RECOMPUTE_INTERVAL_MINUTES ?? 60);
+let stopStatusRecompute = null;
+if (statusRecomputeMinutes > 0) {
+  stopStatusRecompute = scheduleStatusRecompute(db, statusRecomputeMinutes * 60 * 1000);
+  console.log(`Inventory status recompute scheduled every ${statusRecomputeMinutes} minutes`);
+}
+
+// Graceful shutdown: stop taking requests, let running scrapes finish, close the browsers
+const SHUTDOWN_TIMEOUT_MS = 15000;
+let shuttingDown = false;
+const shutdown = async (signal) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, shutting down...`);
+  // Exit anyway if something hangs
+  setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+
+  server.close();
+  stopStatusRecompute?.();
+  storeAdapters.close();
+  try {
+    await browserPool.shutdown({ timeoutMs: SHUTDOWN_TIMEOUT_MS - 5000 });
+    await scrapeCache.flush();
+  } catch (error) {
+    console.error('Error during shutdown:', error);
+  }
+  process.exit(0);
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 export default app;
\ No newline at end of file
@@ -1,38 +1,8 @@
 // Test just Sheng Siong store
-import { scrapeStore } from './scraper.js';
+import { scrapeStore, STORES } from './scraper.js';
 
-const SHENG_SIONG_CONFIG = {
-  storeName: "Sheng Siong",
-  storeCode: "shengsiong",
-  baseSearchUrl: "https://shengsiong.com.sg/search",
-  queryParam: "q",
-  queryFormat: "path",
-  selectors: {
-    productCard: 'a.product-preview',
-    productCardFallback: [
-      '.product-item',
-      'a[href*="/product/"]',
-      'article'
-    ],
-    noResults: '.no-results, .empty-state, [class*="no-result"]'
-  }
-};
-
-const COLD_STORAGE_CONFIG = {
-  storeName: "Cold Storage",
-  storeCode: "coldstorage",
-  baseSearchUrl: "https://coldstorage.com.sg/en/search",
-  queryParam: "keyword",
-  selectors: {
-    productCard: 'a.ware-wrapper',
-    productCardFallback: [
-      'a.router-link',
-      '[class*="product"]',
-      'article'
-    ],
-    noResults: '.no-results, .empty-state, [class*="no-result"]'
-  }
-};
+const SHENG_SIONG_CONFIG = STORES.find(store => store.storeCode === 'shengsiong');
+const COLD_STORAGE_CONFIG = STORES.find(store => store.storeCode === 'coldstorage');
 
 async function test() {
   console.log('\n==========================================');
@@ -0,0 +1,334 @@
+// Store adapters: one JSON or YAML file per store in server/stores/ describing
+// how to search it and read its product cards. Files are validated on load and
+// reloaded when they change, so a store can be added or fixed without a code
+// change or restart. Each adapter's recent scrapes are tracked as its health.
+
+import { existsSync, readdirSync, readFileSync, watch } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+export const ADAPTER_SCHEMA_VERSION = 1;
+const ADAPTER_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const RELOAD_DELAY_MS = 200;
+const PAGINATION_TYPES = ['none', 'param', 'nextLink'];
+const MAX_PAGES = 10;
+// Consecutive failed scrapes before an adapter is reported as failing rather than degraded
+const FAILING_AFTER = 3;
+
+// Phrases that mean the store found nothing, used when an adapter doesn't list its own
+export const DEFAULT_NO_RESULTS_TEXT = ['no result', 'not found', 'no product', 'no items', 'nothing found'];
+
+const TOP_LEVEL_KEYS = ['schemaVersion', 'storeCode', 'storeName', 'version', 'enabled', 'searchUrl', 'selectors', 'pagination', 'noResults'];
+const SELECTOR_KEYS = ['card', 'title', 'price', 'unit', 'image'];
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+
+const checkKeys = (value, allowed, path, errors) => {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) errors.push(`${path}${key} is not a known setting`);
+  }
+};
+
+/**
+ * Check a parsed adapter file and turn it into the store config the scraper uses.
+ * @param {Object} raw - Parsed JSON or YAML
+ * @returns {{ store: Object|null, errors: string[] }} The store config, or every problem found
+ */
+export function validateStoreAdapter(raw) {
+  const errors = [];
+  if (!isPlainObject(raw)) {
+    return { store: null, errors: ['Adapter must be an object'] };
+  }
+  checkKeys(raw, TOP_LEVEL_KEYS, '', errors);
+
+  if (raw.schemaVersion !== ADAPTER_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${ADAPTER_SCHEMA_VERSION}`);
+  }
+  if (typeof raw.storeCode !== 'string' || !/^[a-z0-9-]+$/.test(raw.storeCode)) {
+    errors.push('storeCode must be lowercase letters, digits and dashes');
+  }
+  if (!isNonEmptyString(raw.storeName)) errors.push('storeName is required');
+  if (!isNonEmptyString(raw.version) && typeof raw.version !== 'number') errors.push('version is required');
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') errors.push('enabled must be true or false');
+
+  if (typeof raw.searchUrl !== 'string' || !raw.searchUrl.includes('{query}')) {
+    errors.push('searchUrl must contain {query}');
+  } else {
+    try {
+      const url = new URL(raw.searchUrl.replace('{query}', 'test'));
+      if (!['http:', 'https:'].includes(url.protocol)) errors.push('searchUrl must be http or https');
+    } catch {
+      errors.push('searchUrl is not a valid URL');
+    }
+  }
+
+  const selectors = raw.selectors;
+  let cardSelectors = [];
+  if (!isPlainObject(selectors)) {
+    errors.push('selectors is required');
+  } else {
+    checkKeys(selectors, SELECTOR_KEYS, 'selectors.', errors);
+    cardSelectors = Array.isArray(selectors.card) ? selectors.card : [selectors.card];
+    if (cardSelectors.length === 0 || !cardSelectors.every(isNonEmptyString)) {
+      errors.push('selectors.card must be a selector or a list of selectors, most specific first');
+    }
+    // A card's name and price are read with the adapter's own selectors; pack size and
+    // image may be missing from a store's cards (the size is then parsed from the name)
+    for (const key of ['title', 'price']) {
+      if (!isNonEmptyString(selectors[key])) errors.push(`selectors.${key} is required`);
+    }
+    for (const key of ['unit', 'image']) {
+      if (selectors[key] !== undefined && !isNonEmptyString(selectors[key])) {
+        errors.push(`selectors.${key} must be a selector`);
+      }
+    }
+  }
+
+  const pagination = raw.pagination ?? { type: 'none' };
+  if (!isPlainObject(pagination) || !PAGINATION_TYPES.includes(pagination.type)) {
+    errors.push(`pagination.type must be one of ${PAGINATION_TYPES.join(', ')}`);
+  } else {
+    checkKeys(pagination, ['type', 'param', 'start', 'selector', 'maxPages'], 'pagination.', errors);
+    if (pagination.type === 'param' && !isNonEmptyString(pagination.param)) {
+      errors.push('pagination.param is required for param pagination');
+    }
+    if (pagination.start !== undefined && !Number.isInteger(pagination.start)) {
+      errors.push('pagination.start must be a whole number');
+    }
+    if (pagination.type === 'nextLink' && !isNonEmptyString(pagination.selector)) {
+      errors.push('pagination.selector is required for nextLink pagination');
+    }
+    if (pagination.maxPages !== undefined &&
+        (!Number.isInteger(pagination.maxPages) || pagination.maxPages < 1 || pagination.maxPages > MAX_PAGES)) {
+      errors.push(`pagination.maxPages must be between 1 and ${MAX_PAGES}`);
+    }
+  }
+
+  const noResults = raw.noResults ?? {};
+  if (!isPlainObject(noResults)) {
+    errors.push('noResults must be an object');
+  } else {
+    checkKeys(noResults, ['selector', 'text'], 'noResults.', errors);
+    if (noResults.selector !== undefined && !isNonEmptyString(noResults.selector)) {
+      errors.push('noResults.selector must be a selector');
+    }
+    if (noResults.text !== undefined && (!Array.isArray(noResults.text) || !noResults.text.every(isNonEmptyString))) {
+      errors.push('noResults.text must be a list of phrases');
+    }
+  }
+
+  if (errors.length > 0) return { store: null, errors };
+
+  return {
+    store: {
+      storeName: raw.storeName.trim(),
+      storeCode: raw.storeCode,
+      version: String(raw.version),
+      enabled: raw.enabled ?? true,
+      searchUrl: raw.searchUrl,
+      selectors: {
+        productCard: cardSelectors[0],
+        productCardFallback: cardSelectors.slice(1),
+        title: selectors.title,
+        price: selectors.price,
+        ...(selectors.unit && { unit: selectors.unit }),
+        ...(selectors.image && { image: selectors.image }),
+        ...(noResults.selector && { noResults: noResults.selector })
+      },
+      noResultsText: (noResults.text ?? DEFAULT_NO_RESULTS_TEXT).map(text => text.toLowerCase()),
+      pagination: {
+        type: pagination.type,
+        maxPages: pagination.type === 'none' ? 1 : pagination.maxPages ?? 2,
+        ...(pagination.param && { param: pagination.param, start: pagination.start ?? 1 }),
+        ...(pagination.selector && { selector: pagination.selector })
+      }
+    },
+    errors: []
+  };
+}
+
+const readAdapterFile = (filePath) => {
+  const text = readFileSync(filePath, 'utf8');
+  return extname(filePath) === '.json' ? JSON.parse(text) : parseYaml(text);
+};
+
+/**
+ * Load every adapter file in a directory once.
+ * Files that can't be parsed or fail validation are reported in `errors` and skipped.
+ * @param {string} dir - Directory of adapter files
+ * @returns {{ adapters: Array<{ file: string, store: Object }>, errors: Array<{ file: string, errors: string[] }> }}
+ */
+export function loadStoreAdapters(dir) {
+  const adapters = [];
+  const errors = [];
+  const files = existsSync(dir)
+    ? readdirSync(dir).filter(file => ADAPTER_EXTENSIONS.includes(extname(file))).sort()
+    : [];
+  const seenCodes = new Map();
+
+  for (const file of files) {
+    let raw;
+    try {
+      raw = readAdapterFile(join(dir, file));
+    } catch (error) {
+      errors.push({ file, errors: [`Could not parse: ${error.message}`] });
+      continue;
+    }
+    const { store, errors: problems } = validateStoreAdapter(raw);
+    if (!store) {
+      errors.push({ file, errors: problems });
+    } else if (seenCodes.has(store.storeCode)) {
+      errors.push({ file, errors: [`storeCode ${store.storeCode} is already used by ${seenCodes.get(store.storeCode)}`] });
+    } else {
+      seenCodes.set(store.storeCode, file);
+      adapters.push({ file, store });
+    }
+  }
+
+  return { adapters, errors };
+}
+
+const emptyHealth = () => ({
+  scrapes: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  lastSuccessAt: null,
+  lastFailureAt: null,
+  lastError: null
+});
+
+const healthStatus = (health) => {
+  if (health.scrapes === 0) return 'unknown';
+  if (health.consecutiveFailures === 0) return 'ok';
+  return health.consecutiveFailures >= FAILING_AFTER ? 'failing' : 'degraded';
+};
+
+/**
+ * Adapters from a directory, kept current as files are added, edited or removed.
+ * A file that becomes invalid keeps serving its last valid version until it's fixed.
+ * @param {Object} options
+ * @param {string} options.dir - Directory of adapter files
+ * @param {boolean} options.watch - Reload when the directory changes
+ */
+export function createStoreAdapterRegistry({ dir, watch: watchDir = true }) {
+  let adapters = [];
+  let loadErrors = [];
+  const health = new Map();
+  let watcher = null;
+  let reloadTimer = null;
+
+  const reload = () => {
+    const loaded = loadStoreAdapters(dir);
+    const previousByFile = new Map(adapters.map(adapter => [adapter.file, adapter]));
+    const next = [...loaded.adapters];
+
+    // Keep the last good version of a file that no longer validates
+    for (const { file } of loaded.errors) {
+      const previous = previousByFile.get(file);
+      if (previous && existsSync(join(dir, file)) && !next.some(a => a.store.storeCode === previous.store.storeCode)) {
+        next.push(previous);
+      }
+    }
+    next.sort((a, b) => a.file.localeCompare(b.file));
+
+    for (const { file, store } of next) {
+      const previous = adapters.find(a => a.store.storeCode === store.storeCode);
+      if (!previous) {
+        console.log(`[store-adapters] Loaded ${store.storeCode} v${store.version} from ${file}`);
+      } else if (previous.store.version !== store.version) {
+        console.log(`[store-adapters] Updated ${store.storeCode} v${previous.store.version} -> v${store.version}`);
+      }
+      // New selectors deserve a fresh record
+      if (!previous || previous.store.version !== store.version) {
+        health.set(store.storeCode, emptyHealth());
+      }
+    }
+    for (const { store } of adapters) {
+      if (!next.some(a => a.store.storeCode === store.storeCode)) {
+        console.log(`[store-adapters] Removed ${store.storeCode}`);
+        health.delete(store.storeCode);
+      }
+    }
+    for (const { file, errors } of loaded.errors) {
+      console.error(`[store-adapters] Invalid adapter ${file}: ${errors.join('; ')}`);
+    }
+
+    adapters = next;
+    loadErrors = loaded.errors;
+  };
+
+  reload();
+
+  if (watchDir && existsSync(dir)) {
+    try {
+      watcher = watch(dir, () => {
+        // Editors write files in several steps; reload once they're done
+        clearTimeout(reloadTimer);
+        reloadTimer = setTimeout(reload, RELOAD_DELAY_MS);
+      });
+      watcher.unref?.();
+    } catch (error) {
+      console.warn(`[store-adapters] Can't watch ${dir}, changes need a restart:`, error.message);
+    }
+  }
+
+  /**
+   * Update each store's health from a scrape's results. A scrape fails when it
+   * errors, or when no card selector matched and the page didn't say "no results".
+   */
+  const recordResults = (results) => {
+    const now = new Date().toISOString();
+    for (const result of results) {
+      const entry = health.get(result.storeCode);
+      if (!entry) continue;
+      entry.scrapes++;
+      const error = result.error ||
+        (result.cardsFound === 0 && !result.noResults ? 'No product cards matched the selectors' : null);
+      if (error) {
+        entry.failures++;
+        entry.consecutiveFailures++;
+        entry.lastFailureAt = now;
+        entry.lastError = error;
+      } else {
+        entry.consecutiveFailures = 0;
+        entry.lastSuccessAt = now;
+      }
+    }
+  };
+
+  const getStatus = () => ({
+    adapters: adapters.map(({ file, store }) => {
+      const entry = health.get(store.storeCode) ?? emptyHealth();
+      const loadError = loadErrors.find(e => e.file === file);
+      return {
+        storeCode: store.storeCode,
+        storeName: store.storeName,
+        version: store.version,
+        enabled: store.enabled,
+        file,
+        searchUrl: store.searchUrl,
+        health: {
+          status: healthStatus(entry),
+          ...entry,
+          // Set when the file on disk is broken and the previous version is still in use
+          ...(loadError && { loadError: loadError.errors.join('; ') })
+        }
+      };
+    }),
+    errors: loadErrors.filter(e => !adapters.some(a => a.file === e.file))
+  });
+
+  const close = () => {
+    clearTimeout(reloadTimer);
+    watcher?.close();
+  };
+
+  return {
+    getStores: () => adapters.map(a => a.store).filter(store => store.enabled),
+    getStatus,
+    recordResults,
+    reload,
+    close
+  };
+}
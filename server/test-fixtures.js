@@ -0,0 +1,285 @@
+// Offline tests for the store scrapers.
+// Each store has saved search pages in fixtures/stores/<storeCode>/ with the
+// products the scraper should read from them. Pages are served to the real
+// scrapeStore code through Puppeteer request interception, so no network is
+// needed and a selector regression shows up as a failed case. Without a Chrome
+// that Puppeteer can launch, those page cases are skipped and say so. The name
+// cleaning, matching, card parsing, price parsing and cross-store matching rules
+// are checked against fixtures/functions.json.
+//
+//   node server/test-fixtures.js                      Run every case
+//   node server/test-fixtures.js fairprice            Only one store's pages
+//   node server/test-fixtures.js --update             Save current results as the expected ones
+//   node server/test-fixtures.js --capture fairprice "milk"
+//                                                     Save a live search page as a new case
+
+import puppeteer from 'puppeteer';
+import { deepStrictEqual } from 'assert';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  PUPPETEER_LAUNCH_OPTIONS,
+  STORE_ADAPTERS_DIR,
+  buildSearchUrl,
+  cleanProductName,
+  matchesQuery,
+  parseProductCard,
+  scrapeStoreWithPool
+} from './scraper.js';
+import { parseProductPricing } from './priceParser.js';
+import { matchProductsAcrossStores } from './productMatching.js';
+import { loadStoreAdapters } from './storeAdapters.js';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const STORE_FIXTURES_DIR = join(FIXTURES_DIR, 'stores');
+// Served once a case runs out of saved pages, so pagination stops
+const EMPTY_PAGE = '<!DOCTYPE html><html><body><main></main></body></html>';
+
+const args = process.argv.slice(2);
+const update = args.includes('--update');
+const captureIndex = args.indexOf('--capture');
+const onlyStore = args.find(arg => !arg.startsWith('--'));
+
+const failures = [];
+let passed = 0;
+let skipped = 0;
+
+const check = (label, actual, expected) => {
+  try {
+    deepStrictEqual(actual, expected);
+    passed++;
+    console.log(`  ✓ ${label}`);
+  } catch (error) {
+    failures.push(label);
+    console.log(`  ✗ ${label}`);
+    console.log(`      expected: ${JSON.stringify(expected)}`);
+    console.log(`      actual:   ${JSON.stringify(actual)}`);
+  }
+};
+
+const readJson = (filePath) => JSON.parse(readFileSync(filePath, 'utf8'));
+const writeJson = (filePath, data) => writeFileSync(filePath, JSON.stringify(data, null, 2) + '\n');
+
+const slugify = (text) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * The parts of a scrape result a fixture pins down
+ */
+const summarizeResult = (result) => ({
+  hasItem: result.hasItem,
+  cardsFound: result.cardsFound,
+  ...(result.noResults && { noResults: true }),
+  ...(result.error && { error: result.error }),
+  products: result.products ?? []
+});
+
+/**
+ * A stand-in for the browser pool that hands out one fresh page per scrape.
+ * Every page load the scraper makes is answered with the next saved page;
+ * other requests (images, scripts) are blocked.
+ */
+const createFixturePool = (browser, htmlPages) => ({
+  withPage: async (task) => {
+    const page = await browser.newPage();
+    let served = 0;
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+        const body = htmlPages[served++] ?? EMPTY_PAGE;
+        request.respond({ status: 200, contentType: 'text/html; charset=utf-8', body });
+      } else {
+        request.abort();
+      }
+    });
+    try {
+      return await task(page);
+    } finally {
+      await page.close();
+    }
+  }
+});
+
+function runFunctionCases() {
+  const { cleaning, matching, cards, pricing, crossStore } = readJson(join(FIXTURES_DIR, 'functions.json'));
+
+  console.log('\n🧹 cleanProductName');
+  for (const { text, expected } of cleaning) {
+    check(JSON.stringify(text), cleanProductName(text), expected);
+  }
+
+  console.log('\n🔍 matchesQuery');
+  for (const { query, text, expected } of matching) {
+    check(`"${query}" ${expected ? 'matches' : 'does not match'} ${JSON.stringify(text)}`,
+      matchesQuery(cleanProductName(text), query), expected);
+  }
+
+  console.log('\n🏷️  parseProductCard');
+  for (const { text, expected } of cards) {
+    check(JSON.stringify(text), parseProductCard(text), expected);
+  }
+
+  console.log('\n💲 parseProductPricing');
+  for (const { priceText, sizeText, name, expected } of pricing) {
+    check(JSON.stringify([priceText, sizeText || name]), parseProductPricing({ priceText, sizeText, name }), expected);
+  }
+  // A second pass in the same process catches state (such as a global regex's lastIndex) carried between calls
+  check('every case parses the same a second time',
+    pricing.map(({ priceText, sizeText, name }) => parseProductPricing({ priceText, sizeText, name })),
+    pricing.map(({ expected }) => expected));
+
+  console.log('\n🔗 matchProductsAcrossStores');
+  for (const { description, listings, expected } of crossStore) {
+    const results = Object.values(listings.reduce((stores, { storeCode, name, priceText, sizeText }) => {
+      stores[storeCode] ??= { storeCode, storeName: storeCode, url: '', products: [] };
+      stores[storeCode].products.push({ name, pricing: parseProductPricing({ priceText, sizeText, name }) });
+      return stores;
+    }, {}));
+    // Compare the groups by their listings' names, ignoring order
+    const groups = matchProductsAcrossStores(results)
+      .map(group => group.offers.map(offer => offer.productName).sort())
+      .sort((a, b) => a[0].localeCompare(b[0]));
+    check(description, groups, expected);
+  }
+}
+
+const listStoreCodes = () => readdirSync(STORE_FIXTURES_DIR)
+  .filter(code => !onlyStore || code === onlyStore)
+  .sort();
+
+const listCaseFiles = (storeCode) => readdirSync(join(STORE_FIXTURES_DIR, storeCode))
+  .filter(file => file.endsWith('.json'))
+  .sort();
+
+async function runStoreCases(browser, stores) {
+  const storeCodes = listStoreCodes();
+
+  for (const storeCode of storeCodes) {
+    const store = stores.find(s => s.storeCode === storeCode);
+    console.log(`\n🏪 ${storeCode}`);
+    if (!store) {
+      failures.push(`${storeCode}: no adapter`);
+      console.log(`  ✗ No adapter in ${STORE_ADAPTERS_DIR} for these fixtures`);
+      continue;
+    }
+
+    const storeDir = join(STORE_FIXTURES_DIR, storeCode);
+    for (const caseFile of listCaseFiles(storeCode)) {
+      const casePath = join(storeDir, caseFile);
+      const fixture = readJson(casePath);
+      const htmlPages = fixture.pages.map(file => readFileSync(join(storeDir, file), 'utf8'));
+
+      // The scraper's own logging would drown out the report
+      const log = console.log;
+      console.log = () => {};
+      let result;
+      try {
+        result = await scrapeStoreWithPool(store, fixture.query, createFixturePool(browser, htmlPages));
+      } finally {
+        console.log = log;
+      }
+
+      const actual = summarizeResult(result);
+      if (update) {
+        writeJson(casePath, { ...fixture, expected: actual });
+        console.log(`  ✎ ${caseFile} updated`);
+      } else {
+        check(`${caseFile} (${fixture.description})`, actual, fixture.expected);
+      }
+    }
+  }
+}
+
+/**
+ * Search a store live and save the rendered page and the current result as a new case
+ */
+async function capture(browser, stores, storeCode, query) {
+  const store = stores.find(s => s.storeCode === storeCode);
+  if (!store) throw new Error(`No adapter for ${storeCode}`);
+
+  let html = null;
+  const capturePool = {
+    withPage: async (task) => {
+      const page = await browser.newPage();
+      try {
+        const result = await task(page);
+        html = await page.content();
+        return result;
+      } finally {
+        await page.close();
+      }
+    }
+  };
+  // One page only: later pages would replace the first in the snapshot
+  const result = await scrapeStoreWithPool({ ...store, pagination: { type: 'none', maxPages: 1 } }, query, capturePool);
+  if (!html) throw new Error(result.error || 'Nothing captured');
+
+  const name = slugify(query);
+  const storeDir = join(STORE_FIXTURES_DIR, storeCode);
+  mkdirSync(storeDir, { recursive: true });
+  writeFileSync(join(storeDir, `${name}.html`), html);
+  writeJson(join(storeDir, `${name}.json`), {
+    description: `Captured from ${buildSearchUrl(store, query)} on ${new Date().toISOString().slice(0, 10)}`,
+    query,
+    pages: [`${name}.html`],
+    expected: summarizeResult(result)
+  });
+  console.log(`📸 Saved ${join(storeDir, name)}.html and .json - check the expected products before committing`);
+}
+
+async function main() {
+  // Disabled adapters are tested too, so they can be fixed before being switched on
+  const { adapters, errors } = loadStoreAdapters(STORE_ADAPTERS_DIR);
+  for (const { file, errors: problems } of errors) {
+    failures.push(`${file}: invalid adapter`);
+    console.log(`✗ ${file}: ${problems.join('; ')}`);
+  }
+  const stores = adapters.map(adapter => adapter.store);
+
+  if (captureIndex === -1) {
+    runFunctionCases();
+  }
+
+  let browser;
+  try {
+    browser = await puppeteer.launch(PUPPETEER_LAUNCH_OPTIONS);
+  } catch (error) {
+    // Capturing and updating need the pages; a plain run can still report the rest
+    if (captureIndex !== -1 || update) {
+      failures.push('browser launch');
+      console.log(`\n✗ Could not launch Chrome: ${error.message}`);
+    } else if (existsSync(STORE_FIXTURES_DIR)) {
+      skipped = listStoreCodes().reduce((count, storeCode) => count + listCaseFiles(storeCode).length, 0);
+      console.log(`\n⏭  Skipping ${skipped} store page case(s): Chrome could not be launched`);
+      // Puppeteer's first line ends mid-sentence before a list of causes; keep the complete sentences
+      console.log(`   ${error.message.split('\n')[0].trim().replace(/\.\s+[^.]*$/, '.')}`);
+      console.log('   Run `npx puppeteer browsers install chrome` to include them.');
+    }
+  }
+
+  if (browser) {
+    try {
+      if (captureIndex !== -1) {
+        const [storeCode, query] = args.slice(captureIndex + 1);
+        if (!storeCode || !query) throw new Error('Usage: --capture <storeCode> "<query>"');
+        await capture(browser, stores, storeCode, query);
+        return;
+      }
+      if (existsSync(STORE_FIXTURES_DIR)) {
+        await runStoreCases(browser, stores);
+      }
+    } finally {
+      await browser.close();
+    }
+  }
+
+  console.log(`\n${failures.length === 0 ? '✅' : '❌'} ${passed} passed, ${failures.length} failed${skipped > 0 ? `, ${skipped} skipped` : ''}`);
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Fixture run failed:', error);
+  process.exitCode = 1;
+});
@@ -15,6 +15,8 @@ import Recipes from "./pages/Recipes";
 import Favourites from "./pages/Favourites";
 import ShoppingList from "./pages/ShoppingList";
 import StoreLocator from "./pages/StoreLocator";
+import Household from "./pages/Household";
+import Spending from "./pages/Spending";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -45,6 +47,8 @@ const App = () => (
               <Route path="/favourites" element={<Favourites />} />
               <Route path="/shopping-list" element={<ShoppingList />} />
               <Route path="/store-locator" element={<StoreLocator />} />
+              <Route path="/household" element={<Household />} />
+              <Route path="/spending" element={<Spending />} />
             </Route>
             
             <Route path="*" element={<NotFound />} />
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { getProductByBarcode } from '@/services/firebaseService';
+import { normalizeBarcode } from '@/lib/barcode';
+import { Product } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, ScanBarcode } from 'lucide-react';
+
+interface BarcodeLookupProps {
+  onFound: (product: Product) => void;
+  onNotFound: (barcode: string) => void;
+}
+
+const BarcodeLookup: React.FC<BarcodeLookupProps> = ({ onFound, onNotFound }) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [looking, setLooking] = useState(false);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const barcode = normalizeBarcode(code);
+    if (!barcode) {
+      toast({
+        title: 'Invalid barcode',
+        description: 'Enter the 8, 12 or 13 digits printed under the barcode.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setLooking(true);
+    try {
+      const product = await getProductByBarcode(barcode);
+      setCode('');
+      if (product) {
+        onFound(product);
+      } else {
+        toast({
+          title: 'Not in the catalog',
+          description: 'Add the details once and the barcode will be remembered.'
+        });
+        onNotFound(barcode);
+      }
+    } catch (error) {
+      console.error('Barcode lookup error:', error);
+      toast({
+        title: 'Lookup failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleLookup} className="flex gap-2">
+      <Input
+        inputMode="numeric"
+        placeholder="Barcode"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        aria-label="Barcode"
+      />
+      <Button type="submit" variant="outline" className="gap-2" disabled={looking || !code.trim()}>
+        {looking ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanBarcode className="h-4 w-4" />}
+        Look up
+      </Button>
+    </form>
+  );
+};
+
+export default BarcodeLookup;
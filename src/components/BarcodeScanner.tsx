@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrowserMultiFormatReader, IScannerControls } from '@zxing/browser';
+import { BarcodeFormat, DecodeHintType } from '@zxing/library';
+import { CameraOff, Loader2 } from 'lucide-react';
+
+interface BarcodeScannerProps {
+  active: boolean;
+  onDetected: (text: string) => void;
+}
+
+// Retail barcodes on packaging, plus QR codes that carry one
+const SCAN_FORMATS = [BarcodeFormat.EAN_13, BarcodeFormat.UPC_A, BarcodeFormat.QR_CODE];
+// The decoder reports a code on every frame it's visible; hold the product away for this long to count it again
+const RESCAN_COOLDOWN_MS = 2500;
+
+const describeCameraError = (error: unknown): string => {
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError') return 'Camera access was blocked. Allow it in your browser settings to scan.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera was found on this device.';
+  return 'The camera could not be started. You can still type barcodes below.';
+};
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ active, onDetected }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const lastScan = useRef<{ text: string; at: number } | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (!active || !videoRef.current) return;
+
+    const hints = new Map<DecodeHintType, unknown>([[DecodeHintType.POSSIBLE_FORMATS, SCAN_FORMATS]]);
+    const reader = new BrowserMultiFormatReader(hints);
+    let controls: IScannerControls | null = null;
+    let cancelled = false;
+
+    setStarting(true);
+    setCameraError(null);
+    reader
+      .decodeFromConstraints({ video: { facingMode: 'environment' } }, videoRef.current, (result) => {
+        if (!result) return;
+        const text = result.getText();
+        const now = Date.now();
+        const last = lastScan.current;
+        lastScan.current = { text, at: now };
+        if (last && last.text === text && now - last.at < RESCAN_COOLDOWN_MS) return;
+        onDetectedRef.current(text);
+      })
+      .then((started) => {
+        // The dialog may have closed while the camera was starting
+        if (cancelled) started.stop();
+        else controls = started;
+      })
+      .catch((error) => {
+        console.error('Camera error:', error);
+        if (!cancelled) setCameraError(describeCameraError(error));
+      })
+      .finally(() => {
+        if (!cancelled) setStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      controls?.stop();
+    };
+  }, [active]);
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-muted">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      {starting && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      )}
+      {cameraError && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-muted-foreground">
+          <CameraOff className="h-6 w-6" />
+          {cameraError}
+        </div>
+      )}
+      {!starting && !cameraError && (
+        <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-primary/70" />
+      )}
+    </div>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShoppingListItem, StoreProductWithStore } from '@/types';
+import { getIngredientPrices } from '@/services/firebaseService';
+import { planBasket } from '@/lib/basketOptimizer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, MapPin, Route, Store as StoreIcon } from 'lucide-react';
+
+interface BasketPlannerProps {
+  items: ShoppingListItem[];
+  area?: string;
+}
+
+const formatCurrency = (v: number) => new Intl.NumberFormat('en-SG', { style: 'currency', currency: 'SGD' }).format(v);
+
+const BasketPlanner: React.FC<BasketPlannerProps> = ({ items, area = 'Singapore' }) => {
+  const { toast } = useToast();
+  const [prices, setPrices] = useState<{ [ingredient: string]: StoreProductWithStore[] }>({});
+  const [loading, setLoading] = useState(false);
+  const [maxStores, setMaxStores] = useState('2');
+  const [maxExtraKm, setMaxExtraKm] = useState('any');
+  const [origin, setOrigin] = useState<{ lat: number; lng: number } | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  // Prices are reloaded when the ingredients to buy change, not on quantity edits
+  const ingredients = Array.from(new Set(
+    items.filter(item => !item.checked && !item.hasInInventory).map(item => item.ingredient)
+  )).sort();
+  const ingredientsKey = ingredients.join('\n');
+
+  useEffect(() => {
+    if (!ingredientsKey) {
+      setPrices({});
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    getIngredientPrices(ingredientsKey.split('\n'), area)
+      .then(result => {
+        if (!cancelled) setPrices(result);
+      })
+      .catch(error => console.error('Error loading store prices:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ingredientsKey, area]);
+
+  const plan = useMemo(() => planBasket(items, prices, {
+    maxStores: Number(maxStores),
+    maxExtraKm: maxExtraKm === 'any' ? null : Number(maxExtraKm),
+    origin
+  }), [items, prices, maxStores, maxExtraKm, origin]);
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: 'Location not available',
+        description: 'Your browser does not support geolocation.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setOrigin({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setLocating(false);
+      },
+      (error) => {
+        console.error('Geolocation error:', error);
+        toast({
+          title: 'Location error',
+          description: 'Could not get your location. Travel limits need it.',
+          variant: 'destructive',
+        });
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+    );
+  };
+
+  if (ingredients.length === 0) return null;
+
+  return (
+    <Card className="magnet-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Plan Your Shop
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The cheapest way to buy your list without visiting every store
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label>Stores to visit</Label>
+            <Select value={maxStores} onValueChange={setMaxStores}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 store</SelectItem>
+                <SelectItem value="2">Up to 2 stores</SelectItem>
+                <SelectItem value="3">Up to 3 stores</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Extra travel</Label>
+            <Select value={maxExtraKm} onValueChange={setMaxExtraKm} disabled={!origin}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any distance</SelectItem>
+                <SelectItem value="1">Up to 1 km extra</SelectItem>
+                <SelectItem value="3">Up to 3 km extra</SelectItem>
+                <SelectItem value="5">Up to 5 km extra</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            <Button variant="outline" className="w-full" onClick={handleUseLocation} disabled={locating}>
+              {locating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <MapPin className="h-4 w-4 mr-2" />}
+              {origin ? 'Update my location' : 'Use my location'}
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !plan ? (
+          <p className="text-sm text-muted-foreground">No store prices found for these items yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="text-sm">Total {formatCurrency(plan.total)}</Badge>
+              {plan.savings > 0 ? (
+                <Badge className="bg-green-100 text-green-800">Save {formatCurrency(plan.savings)} vs average prices</Badge>
+              ) : plan.savings < 0 && (
+                <Badge variant="secondary">{formatCurrency(-plan.savings)} above average prices</Badge>
+              )}
+              {plan.travelKm !== null && (
+                <Badge variant="outline">
+                  {plan.travelKm} km round trip{plan.extraKm ? ` (+${plan.extraKm} km)` : ''}
+                </Badge>
+              )}
+            </div>
+            {plan.unavailable.length === 0 && plan.total > plan.cheapestPossibleTotal && (
+              <p className="text-xs text-muted-foreground">
+                Visiting every store would cost {formatCurrency(plan.cheapestPossibleTotal)} for the same items.
+              </p>
+            )}
+
+            {plan.stops.map(stop => (
+              <div key={stop.store.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold flex items-center gap-2">
+                    <StoreIcon className="h-4 w-4" />
+                    {stop.store.name}
+                    {stop.distanceKm !== null && (
+                      <span className="text-xs font-normal text-muted-foreground">{stop.distanceKm} km away</span>
+                    )}
+                  </p>
+                  <span className="text-sm font-semibold">{formatCurrency(stop.subtotal)}</span>
+                </div>
+                <ul className="space-y-1">
+                  {stop.lines.map(line => (
+                    <li key={line.itemId ?? line.ingredient} className="flex items-center justify-between text-sm">
+                      <span>
+                        {line.quantity > 1 && `${line.quantity} × `}{line.product.productName}
+                        <span className="text-muted-foreground"> for {line.ingredient}</span>
+                      </span>
+                      <span>{formatCurrency(line.lineTotal)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            {plan.unavailable.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Not sold at these stores: {plan.unavailable.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BasketPlanner;
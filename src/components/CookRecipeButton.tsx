@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getInventory } from '@/services/firebaseService';
+import { applyCookPlan, COOK_UNDO_WINDOW_MS, planCookDeductions, undoCook } from '@/services/cookingService';
+import { Ingredient, InventoryItem } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToastAction } from '@/components/ui/toast';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CookingPot, Loader2 } from 'lucide-react';
+
+interface CookRecipeButtonProps {
+  recipe: {
+    id?: string;
+    name: string;
+    ingredients?: (string | Ingredient)[];
+    servings?: number;
+  };
+  onCooked?: () => void;
+}
+
+const CookRecipeButton: React.FC<CookRecipeButtonProps> = ({ recipe, onCooked }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [multiplier, setMultiplier] = useState(1);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    setLoading(true);
+    getInventory(user.uid)
+      .then(setInventory)
+      .catch(error => {
+        console.error('Error loading inventory:', error);
+        toast({ title: 'Error', description: 'Failed to load inventory.', variant: 'destructive' });
+      })
+      .finally(() => setLoading(false));
+  }, [isOpen, user, toast]);
+
+  const plan = planCookDeductions(recipe.ingredients || [], multiplier, inventory);
+
+  const handleUndo = async (historyId: string) => {
+    try {
+      await undoCook(historyId);
+      toast({ title: 'Undone', description: 'Your inventory has been restored.' });
+      onCooked?.();
+    } catch (error) {
+      toast({
+        title: 'Undo failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!user) return;
+    setApplying(true);
+    try {
+      const historyId = await applyCookPlan(user.uid, {
+        id: recipe.id,
+        name: recipe.name,
+        ingredients: recipe.ingredients || []
+      }, multiplier, plan);
+
+      toast({
+        title: 'Marked as cooked',
+        description: `${plan.deductions.length} inventory item${plan.deductions.length !== 1 ? 's' : ''} updated.`,
+        duration: COOK_UNDO_WINDOW_MS,
+        action: (
+          <ToastAction altText="Undo" onClick={() => handleUndo(historyId)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+      setIsOpen(false);
+      onCooked?.();
+    } catch (error) {
+      console.error('Error applying cook:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update inventory.',
+        variant: 'destructive',
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="gap-2"
+        onClick={(e) => {
+          e.stopPropagation();
+          setMultiplier(1);
+          setIsOpen(true);
+        }}
+      >
+        <CookingPot className="h-4 w-4" />
+        Mark as cooked
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="bg-card sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Cooked {recipe.name}?</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="servingsMultiplier">Servings multiplier</Label>
+              <Input
+                id="servingsMultiplier"
+                type="number"
+                min="0.25"
+                step="0.25"
+                value={multiplier}
+                onChange={(e) => setMultiplier(Math.max(0.25, Number(e.target.value) || 1))}
+              />
+              {recipe.servings && (
+                <p className="text-xs text-muted-foreground">
+                  Recipe serves {recipe.servings}; you cooked for {Math.round(recipe.servings * multiplier * 100) / 100}
+                </p>
+              )}
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <h4 className="font-semibold text-sm">Inventory changes</h4>
+                {plan.deductions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing in your inventory will change.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {plan.deductions.map(deduction => (
+                      <li key={deduction.inventoryItemId} className="flex justify-between text-sm">
+                        <span>{deduction.name}</span>
+                        <span className="text-muted-foreground">
+                          {deduction.quantityBefore} → <span className="font-medium text-foreground">{deduction.quantityAfter}</span> {deduction.unit}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {plan.skippedIngredients.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Not deducted (no amount given or not in inventory): {plan.skippedIngredients.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={handleConfirm} disabled={applying || loading}>
+                {applying ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Confirm'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CookRecipeButton;
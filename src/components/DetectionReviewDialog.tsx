@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { saveDetectionReview } from '@/services/detectionReviewService';
+import { getDetectionFields, isLowConfidence } from '@/lib/detectionReview';
+import { cn } from '@/lib/utils';
+import { DetectionFields, ImageDetection, InventoryItem, QuantityUnit, StorageLocation } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, PackagePlus } from 'lucide-react';
+
+interface DetectionReviewDialogProps {
+  detection: ImageDetection | null;
+  inventory: InventoryItem[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+interface ReviewRow {
+  item: InventoryItem;
+  fields: Omit<DetectionFields, 'expiryDate'> & { expiryDate: Date };
+  included: boolean;
+}
+
+const UNITS: QuantityUnit[] = ['pcs', 'kg', 'g', 'L', 'ml', 'pack'];
+const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const toRow = (item: InventoryItem): ReviewRow => {
+  const fields = getDetectionFields(item);
+  const expiryDate = fields.expiryDate instanceof Timestamp ? fields.expiryDate.toDate() : fields.expiryDate;
+  return { item, fields: { ...fields, expiryDate }, included: true };
+};
+
+const DetectionReviewDialog: React.FC<DetectionReviewDialogProps> = ({ detection, inventory, onOpenChange, onSaved }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (detection) setRows(detection.items.map(toRow));
+  }, [detection]);
+
+  const updateFields = (index: number, changes: Partial<ReviewRow['fields']>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, fields: { ...row.fields, ...changes } } : row));
+  };
+
+  const setIncluded = (index: number, included: boolean) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, included } : row));
+  };
+
+  const selected = rows.filter(row => row.included);
+  const lowConfidenceCount = rows.filter(row => isLowConfidence(row.item.aiConfidence)).length;
+  const invalid = selected.some(row => !row.fields.name.trim() || row.fields.quantity <= 0);
+
+  const handleSave = async () => {
+    if (!user || !detection || invalid) return;
+    setSaving(true);
+    try {
+      const { added, merged } = await saveDetectionReview(
+        user.uid,
+        detection,
+        rows.map(row => ({ item: row.item, corrected: row.included ? row.fields : null })),
+        inventory
+      );
+      toast({
+        title: 'Items added!',
+        description: `${added} new item${added !== 1 ? 's' : ''} and ${merged} restock${merged !== 1 ? 's' : ''} added to your inventory.`
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Detection review error:', error);
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!detection} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review detected items</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Fix anything the photo got wrong and untick items you don't want to add.
+          {lowConfidenceCount > 0 && ` ${lowConfidenceCount} highlighted item${lowConfidenceCount !== 1 ? 's' : ''} may be wrong.`}
+        </p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Item</TableHead>
+              <TableHead>Quantity</TableHead>
+              <TableHead>Storage</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Confidence</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => {
+              const lowConfidence = isLowConfidence(row.item.aiConfidence);
+              const units = UNITS.includes(row.fields.quantityUnit) ? UNITS : [...UNITS, row.fields.quantityUnit];
+              return (
+                <TableRow
+                  key={index}
+                  className={cn(
+                    lowConfidence && 'bg-expiring/10 hover:bg-expiring/15',
+                    !row.included && 'opacity-50'
+                  )}
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={row.included}
+                      onCheckedChange={(checked) => setIncluded(index, checked === true)}
+                      aria-label={`Add ${row.fields.name || 'item'}`}
+                    />
+                  </TableCell>
+                  <TableCell className="min-w-[10rem]">
+                    <Input
+                      className="h-8 text-sm"
+                      value={row.fields.name}
+                      disabled={!row.included}
+                      onChange={(e) => updateFields(index, { name: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        className="h-8 w-20 text-sm"
+                        value={row.fields.quantity}
+                        disabled={!row.included}
+                        onChange={(e) => updateFields(index, { quantity: Number(e.target.value) || 0 })}
+                      />
+                      <Select
+                        value={row.fields.quantityUnit}
+                        disabled={!row.included}
+                        onValueChange={(value) => updateFields(index, { quantityUnit: value as QuantityUnit })}
+                      >
+                        <SelectTrigger className="h-8 w-20 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {units.map(unit => (
+                            <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.fields.storage}
+                      disabled={!row.included}
+                      onValueChange={(value) => updateFields(index, { storage: value as StorageLocation })}
+                    >
+                      <SelectTrigger className="h-8 w-28 text-sm capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STORAGE_LOCATIONS.map(location => (
+                          <SelectItem key={location} value={location} className="capitalize">
+                            {location}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      className="h-8 w-36 text-sm"
+                      value={toDateInput(row.fields.expiryDate)}
+                      disabled={!row.included}
+                      onChange={(e) => {
+                        if (e.target.value) updateFields(index, { expiryDate: new Date(e.target.value) });
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {typeof row.item.aiConfidence === 'number' ? (
+                      <Badge
+                        variant="secondary"
+                        className={cn('gap-1', lowConfidence && 'bg-expiring/20 text-expiring')}
+                      >
+                        {lowConfidence && <AlertTriangle className="h-3 w-3" />}
+                        {Math.round(row.item.aiConfidence * 100)}%
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">n/a</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="flex gap-3 pt-4">
+          <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="flex-1 gap-2" disabled={saving || invalid || selected.length === 0} onClick={handleSave}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <PackagePlus className="h-4 w-4" />}
+            Add to inventory {selected.length > 0 && `(${selected.length})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DetectionReviewDialog;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { saveExpirySettings } from '@/services/firebaseService';
+import { ExpirySettings, ExpiryThresholds, StorageLocation } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Loader2, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+
+interface ExpirySettingsDialogProps {
+  settings: ExpirySettings;
+  onSaved: (settings: ExpirySettings) => void;
+}
+
+interface CategoryRow extends ExpiryThresholds {
+  category: string;
+}
+
+const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const ThresholdInputs: React.FC<{
+  value: ExpiryThresholds;
+  onChange: (value: ExpiryThresholds) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex gap-2">
+    <Input
+      type="number"
+      min={0}
+      className="w-20"
+      title="Use Now within (days)"
+      value={value.almostExpiredDays}
+      onChange={(e) => onChange({ ...value, almostExpiredDays: Number(e.target.value) })}
+    />
+    <Input
+      type="number"
+      min={0}
+      className="w-20"
+      title="Expiring within (days)"
+      value={value.expiringSoonDays}
+      onChange={(e) => onChange({ ...value, expiringSoonDays: Number(e.target.value) })}
+    />
+  </div>
+);
+
+const ExpirySettingsDialog: React.FC<ExpirySettingsDialogProps> = ({ settings, onSaved }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [defaults, setDefaults] = useState<ExpiryThresholds>(settings.defaults);
+  const [storage, setStorage] = useState<ExpirySettings['storage']>(settings.storage);
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDefaults(settings.defaults);
+    setStorage(settings.storage);
+    setCategories(Object.entries(settings.categories).map(([category, thresholds]) => ({ category, ...thresholds })));
+  }, [isOpen, settings]);
+
+  const isValid = (value: ExpiryThresholds) =>
+    value.almostExpiredDays >= 0 && value.expiringSoonDays >= value.almostExpiredDays;
+
+  const handleSave = async () => {
+    if (!user) return;
+    const rows = categories.filter(row => row.category.trim());
+    if (![defaults, ...Object.values(storage), ...rows].every(isValid)) {
+      toast({
+        title: 'Check your thresholds',
+        description: '"Expiring" must be at least as many days as "Use Now".',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const next: ExpirySettings = {
+      defaults,
+      storage,
+      categories: Object.fromEntries(rows.map(({ category, expiringSoonDays, almostExpiredDays }) => [
+        category.toLowerCase().trim(),
+        { expiringSoonDays, almostExpiredDays }
+      ])),
+    };
+
+    setSaving(true);
+    try {
+      await saveExpirySettings(user.uid, next);
+      onSaved(next);
+      setIsOpen(false);
+      toast({ title: 'Expiry rules saved' });
+    } catch (error) {
+      console.error('Error saving expiry settings:', error);
+      toast({ title: 'Error', description: 'Failed to save expiry rules.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Expiry Rules
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="bg-card sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Expiry Rules</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Days before the expiry date an item shows as "Use Now" and "Expiring".
+          Category rules win over storage rules, which win over the defaults.
+          Everyone in your household shares these rules.
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label>Default</Label>
+            <ThresholdInputs value={defaults} onChange={setDefaults} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>By storage</Label>
+            {STORAGE_LOCATIONS.map((location) => (
+              <div key={location} className="flex items-center justify-between">
+                <span className="text-sm capitalize">{location}</span>
+                {storage[location] ? (
+                  <div className="flex items-center gap-1">
+                    <ThresholdInputs
+                      value={storage[location]}
+                      onChange={(value) => setStorage({ ...storage, [location]: value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        const { [location]: _removed, ...rest } = storage;
+                        setStorage(rest);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setStorage({ ...storage, [location]: { ...defaults } })}
+                  >
+                    Override
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>By category</Label>
+            {categories.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder="e.g. fish"
+                  value={row.category}
+                  onChange={(e) => setCategories(categories.map((r, i) => i === index ? { ...r, category: e.target.value } : r))}
+                />
+                <ThresholdInputs
+                  value={row}
+                  onChange={(value) => setCategories(categories.map((r, i) => i === index ? { ...r, ...value } : r))}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setCategories(categories.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setCategories([...categories, { category: '', ...defaults }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add category rule
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button variant="outline" className="flex-1" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button className="flex-1" disabled={saving} onClick={handleSave}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExpirySettingsDialog;
@@ -5,15 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Upload, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ImageDetection } from '@/types';
 
 interface InventoryImageUploadProps {
-  onUploadStart: () => void;
-  onUploadComplete: (success: boolean, errorMessage?: string) => void;
+  onDetected: (detection: ImageDetection) => void;
 }
 
 const InventoryImageUpload: React.FC<InventoryImageUploadProps> = ({
-  onUploadStart,
-  onUploadComplete,
+  onDetected,
 }) => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -77,22 +76,14 @@ const InventoryImageUpload: React.FC<InventoryImageUploadProps> = ({
 
     // Upload
     setIsLoading(true);
-    onUploadStart();
 
     try {
-      const { addInventoryViaImage } = await import('@/services/inventoryImageService');
+      const { detectInventoryInImage } = await import('@/services/inventoryImageService');
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      await addInventoryViaImage(user.uid, file);
-      
-      toast({
-        title: 'Processing image...',
-        description: 'Your inventory is being updated.',
-      });
-
-      onUploadComplete(true);
+      onDetected(await detectInventoryInImage(user.uid, file));
     } catch (error) {
       console.error('Image upload error:', error);
       toast({
@@ -100,7 +91,6 @@ const InventoryImageUpload: React.FC<InventoryImageUploadProps> = ({
         description: error instanceof Error ? error.message : 'Failed to process image.',
         variant: 'destructive',
       });
-      onUploadComplete(false, error instanceof Error ? error.message : 'Upload failed');
     } finally {
       setIsLoading(false);
       setPreview(null);
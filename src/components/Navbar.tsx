@@ -17,11 +17,14 @@ import {
   Heart, 
   ShoppingCart,
   MapPin,
+  Wallet,
   User,
+  Users,
   LogOut,
   Menu
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import SyncStatus from '@/components/SyncStatus';
 
 const navItems = [
   { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
@@ -30,6 +33,7 @@ const navItems = [
   { path: '/shopping-list', label: 'Shopping', icon: ShoppingCart },
   { path: '/favourites', label: 'Favorite', icon: Heart },
   { path: '/store-locator', label: 'Stores', icon: MapPin },
+  { path: '/spending', label: 'Spending', icon: Wallet },
 ];
 
 const Navbar: React.FC = () => {
@@ -86,6 +90,7 @@ const Navbar: React.FC = () => {
 
           {/* User Menu */}
           <div className="flex items-center gap-2">
+            <SyncStatus />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="flex items-center gap-2">
@@ -103,6 +108,10 @@ const Navbar: React.FC = () => {
                   <p className="text-xs text-muted-foreground">{user?.email}</p>
                 </div>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => navigate('/household')}>
+                  <Users className="mr-2 h-4 w-4" />
+                  Household
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleLogout} className="text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
                   Logout
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { ProductComparison } from '@/types';
+import { formatUnitPrice } from '@/lib/unitPricing';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Scale } from 'lucide-react';
+
+interface PriceComparisonTableProps {
+  query: string;
+  maxProducts?: number;
+}
+
+interface ComparedStore {
+  storeCode: string;
+  storeName: string;
+  hasItem: boolean;
+}
+
+const PriceComparisonTable: React.FC<PriceComparisonTableProps> = ({ query, maxProducts = 8 }) => {
+  const [products, setProducts] = useState<ProductComparison[]>([]);
+  const [stores, setStores] = useState<ComparedStore[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    const scraperBaseUrl = (import.meta.env.VITE_SCRAPER_URL || '').replace(/\/$/, '');
+
+    setLoading(true);
+    setError(null);
+    fetch(`${scraperBaseUrl}/api/compare?${new URLSearchParams({ query })}`)
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || `Price comparison failed: ${response.status}`);
+        if (!cancelled) {
+          setProducts(Array.isArray(data.products) ? data.products : []);
+          setStores(Array.isArray(data.stores) ? data.stores : []);
+        }
+      })
+      .catch(err => {
+        console.error('Price comparison error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not compare prices');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  // Only stores that matched something get a column
+  const columns = stores.filter(store => products.some(product =>
+    product.offers.some(offer => offer.storeCode === store.storeCode)
+  ));
+  const shown = products.slice(0, maxProducts);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="flex items-center gap-2 font-semibold text-sm">
+        <Scale className="h-4 w-4" />
+        Compare prices for "{query}"
+      </h3>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No priced products to compare.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              {columns.map(store => (
+                <TableHead key={store.storeCode} className="text-right">{store.storeName}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map(product => (
+              <TableRow key={product.id}>
+                <TableCell>
+                  <p className="font-medium">{product.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {product.size ?? 'Size not shown'}
+                    {product.storeCount > 1 && product.saving > 0 && ` • save $${product.saving.toFixed(2)}`}
+                  </p>
+                </TableCell>
+                {columns.map(store => {
+                  const offer = product.offers.find(o => o.storeCode === store.storeCode);
+                  if (!offer) {
+                    return <TableCell key={store.storeCode} className="text-right text-muted-foreground">—</TableCell>;
+                  }
+                  const cheapest = product.storeCount > 1 && offer.storeCode === product.cheapestStoreCode;
+                  return (
+                    <TableCell key={store.storeCode} className={cn('text-right', cheapest && 'text-fresh font-semibold')}>
+                      <p>${offer.effectivePrice.toFixed(2)}</p>
+                      {offer.unitPrice && (
+                        <p className="text-xs text-muted-foreground">{formatUnitPrice(offer.unitPrice)}</p>
+                      )}
+                      {offer.promo && <Badge variant="outline" className="mt-1">{offer.promo.text}</Badge>}
+                      {offer.wasPrice && (
+                        <p className="text-xs text-muted-foreground line-through">${offer.wasPrice.toFixed(2)}</p>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default PriceComparisonTable;
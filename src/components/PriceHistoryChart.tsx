@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { PriceHistorySeries } from '@/types';
+import { summarizePriceMoves, toPriceChartRows } from '@/lib/priceHistory';
+import { formatUnitPrice } from '@/lib/unitPricing';
+import { cn } from '@/lib/utils';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { LineChart as LineChartIcon, Loader2 } from 'lucide-react';
+
+interface PriceHistoryChartProps {
+  product: string;
+  days?: number;
+}
+
+const STORE_COLORS: Record<string, string> = {
+  fairprice: 'hsl(var(--fridge))',
+  shengsiong: 'hsl(var(--expired))',
+  coldstorage: 'hsl(var(--fresh))',
+};
+const FALLBACK_COLORS = ['hsl(var(--pantry))', 'hsl(var(--primary))', 'hsl(var(--freezer))'];
+
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ product, days = 90 }) => {
+  const [series, setSeries] = useState<PriceHistorySeries[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!product) return;
+    let cancelled = false;
+    const scraperBaseUrl = (import.meta.env.VITE_SCRAPER_URL || '').replace(/\/$/, '');
+    const params = new URLSearchParams({ product, days: String(days) });
+
+    setLoading(true);
+    setError(null);
+    fetch(`${scraperBaseUrl}/api/prices/history?${params}`)
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || `Price history failed: ${response.status}`);
+        if (!cancelled) setSeries(Array.isArray(data.series) ? data.series : []);
+      })
+      .catch(err => {
+        console.error('Price history error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load price history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [product, days]);
+
+  const rows = toPriceChartRows(series);
+  const moves = summarizePriceMoves(series);
+  const per = series[0]?.per ?? null;
+  const formatPrice = (amount: number) => (per ? formatUnitPrice({ amount, per }) : `$${amount.toFixed(2)}`);
+  const config: ChartConfig = Object.fromEntries(series.map((store, index) => [
+    store.storeCode,
+    { label: store.storeName, color: STORE_COLORS[store.storeCode] ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length] }
+  ]));
+
+  return (
+    <div className="space-y-3">
+      <h3 className="flex items-center gap-2 font-semibold text-sm">
+        <LineChartIcon className="h-4 w-4" />
+        Price history for "{product}" (last {days} days{per ? `, ${per === 'each' ? 'per item' : `per ${per}`}` : ''})
+      </h3>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No prices recorded yet. Each search adds today's prices to the history.
+        </p>
+      ) : (
+        <>
+          <ChartContainer config={config} className="h-56 w-full">
+            <LineChart data={rows}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {series.map(store => (
+                <Line
+                  key={store.storeCode}
+                  dataKey={store.storeCode}
+                  stroke={`var(--color-${store.storeCode})`}
+                  strokeWidth={2}
+                  dot
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {moves.map(move => (
+              <span key={move.storeCode}>
+                {move.storeName}: {formatPrice(move.latest)}{' '}
+                {move.change !== 0 && (
+                  <span className={cn(move.change > 0 ? 'text-expired' : 'text-fresh')}>
+                    ({move.change > 0 ? '+' : '−'}${Math.abs(move.change).toFixed(2)})
+                  </span>
+                )}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
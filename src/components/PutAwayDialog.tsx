@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getProducts } from '@/services/firebaseService';
+import { putAwayShoppingItems } from '@/services/shoppingListService';
+import { getMergeQuantity, planPutAway, PutAwayDraft } from '@/lib/putAway';
+import { InventoryItem, Product, ShoppingListItem, StorageLocation } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, PackageCheck } from 'lucide-react';
+
+interface PutAwayDialogProps {
+  open: boolean;
+  householdId: string | null;
+  items: ShoppingListItem[];
+  inventory: InventoryItem[];
+  onOpenChange: (open: boolean) => void;
+  onPutAway: () => void;
+}
+
+interface PutAwayRow extends PutAwayDraft {
+  included: boolean;
+}
+
+const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const PutAwayDialog: React.FC<PutAwayDialogProps> = ({ open, householdId, items, inventory, onOpenChange, onPutAway }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<PutAwayRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [store, setStore] = useState('');
+  const sourceRef = useRef({ items, inventory });
+
+  sourceRef.current = { items, inventory };
+
+  // Plan once per opening so edits aren't overwritten by list updates from other devices;
+  // the list and inventory are read through a ref so their updates don't re-plan
+  useEffect(() => {
+    if (!open || !user) return;
+    setLoading(true);
+    getProducts(user.uid)
+      .catch((error) => {
+        console.error('Error loading products:', error);
+        return [] as Product[];
+      })
+      .then((products: Product[]) => {
+        const { items: listItems, inventory: currentInventory } = sourceRef.current;
+        setRows(planPutAway(listItems, products, currentInventory).map(draft => ({ ...draft, included: true })));
+      })
+      .finally(() => setLoading(false));
+  }, [open, user]);
+
+  const updateRow = (index: number, changes: Partial<PutAwayRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const selected = rows.filter(row => row.included && row.quantity > 0);
+
+  // The row a purchase would be added to, if it still goes there after the user's edits
+  const getMergeTarget = (row: PutAwayRow) => {
+    const target = row.mergeIntoId ? inventory.find(item => item.id === row.mergeIntoId) : undefined;
+    return target && getMergeQuantity(row, target) !== null ? target : null;
+  };
+
+  const handlePutAway = async () => {
+    if (!user || !householdId || selected.length === 0) return;
+    setSaving(true);
+    try {
+      const drafts = selected.map(({ included: _included, ...draft }) => draft);
+      const { created, merged } = await putAwayShoppingItems(user.uid, householdId, drafts, store.trim() || undefined);
+      toast({
+        title: 'Put away',
+        description: `${created} new item${created !== 1 ? 's' : ''} and ${merged} restock${merged !== 1 ? 's' : ''} added to your inventory.`
+      });
+      onOpenChange(false);
+      onPutAway();
+    } catch (error) {
+      console.error('Put away error:', error);
+      toast({
+        title: 'Put away failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Put away</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Check where each item goes and when it expires. Items you already have are added as a new batch,
+          unless you store them somewhere else, which keeps them as a separate item.
+          Add what you paid to track your spending.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="putAwayStore">Store</Label>
+          <Input
+            id="putAwayStore"
+            placeholder="e.g. FairPrice"
+            value={store}
+            onChange={(e) => setStore(e.target.value)}
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rows.map((row, index) => (
+              <div
+                key={row.shoppingItemId}
+                className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3"
+              >
+                <Checkbox
+                  checked={row.included}
+                  onCheckedChange={(checked) => updateRow(index, { included: checked === true })}
+                />
+                <div className="min-w-[8rem] flex-1">
+                  <p className="font-medium">{row.name}</p>
+                  {getMergeTarget(row) ? (
+                    <Badge variant="secondary" className="text-xs">Adds to existing</Badge>
+                  ) : row.mergeIntoId ? (
+                    <Badge variant="outline" className="text-xs">Separate item in {row.storage}</Badge>
+                  ) : (
+                    row.category && <p className="text-xs text-muted-foreground">{row.category}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="h-8 w-20 text-sm"
+                    value={row.quantity}
+                    onChange={(e) => updateRow(index, { quantity: Number(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm text-muted-foreground">{row.quantityUnit}</span>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="$ paid"
+                  className="h-8 w-24 text-sm"
+                  value={row.price ?? ''}
+                  onChange={(e) => updateRow(index, { price: e.target.value === '' ? undefined : Number(e.target.value) || 0 })}
+                />
+                <Select
+                  value={row.storage}
+                  onValueChange={(value) => updateRow(index, { storage: value as StorageLocation })}
+                >
+                  <SelectTrigger className="h-8 w-28 text-sm capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STORAGE_LOCATIONS.map(location => (
+                      <SelectItem key={location} value={location} className="capitalize">
+                        {location}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="date"
+                  className="h-8 w-36 text-sm"
+                  value={toDateInput(row.expiryDate)}
+                  onChange={(e) => {
+                    if (e.target.value) updateRow(index, { expiryDate: new Date(e.target.value) });
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-4">
+          <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="flex-1 gap-2" disabled={saving || loading || selected.length === 0} onClick={handlePutAway}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <PackageCheck className="h-4 w-4" />}
+            Put away {selected.length > 0 && `(${selected.length})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PutAwayDialog;
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { importReceipt, recognizeReceiptText, ReceiptImportRow } from '@/services/receiptService';
+import { parseReceipt, RECEIPT_STORE_NAMES } from '@/lib/receiptParser';
+import { getProductDefaults, matchProduct } from '@/lib/putAway';
+import { InventoryItem, Product, ReceiptStore, StorageLocation } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Camera, Loader2, PackagePlus, ScrollText } from 'lucide-react';
+
+interface ReceiptImportDialogProps {
+  open: boolean;
+  products: Product[];
+  inventory: InventoryItem[];
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+interface ReviewRow extends ReceiptImportRow {
+  raw: string;
+  matchedProduct: string | null;
+  included: boolean;
+}
+
+type StoreChoice = ReceiptStore | 'other';
+
+const STORE_CHOICES: { value: StoreChoice; label: string }[] = [
+  ...(Object.entries(RECEIPT_STORE_NAMES) as [ReceiptStore, string][]).map(([value, label]) => ({ value, label })),
+  { value: 'other', label: 'Other' },
+];
+const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+const formatPrice = (value: number) => `$${value.toFixed(2)}`;
+
+const ReceiptImportDialog: React.FC<ReceiptImportDialogProps> = ({ open, products, inventory, onOpenChange, onImported }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [text, setText] = useState('');
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [store, setStore] = useState<StoreChoice>('other');
+  const [purchasedAt, setPurchasedAt] = useState(toDateInput(new Date()));
+  const [printedTotal, setPrintedTotal] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setText('');
+    setRows(null);
+    setOcrProgress(null);
+  }, [open]);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setOcrProgress(0);
+    try {
+      setText(await recognizeReceiptText(file, setOcrProgress));
+    } catch (error) {
+      console.error('Receipt OCR error:', error);
+      toast({
+        title: 'Could not read the photo',
+        description: error instanceof Error ? error.message : 'Try a sharper photo, or paste the text instead.',
+        variant: 'destructive'
+      });
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+
+  const handleParse = () => {
+    const receipt = parseReceipt(text);
+    if (receipt.lines.length === 0) {
+      toast({
+        title: 'No items found',
+        description: 'Check that the text has one item and price per line.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setStore(receipt.store ?? 'other');
+    setPurchasedAt(toDateInput(receipt.purchasedAt ?? new Date()));
+    setPrintedTotal(receipt.total);
+    setRows(receipt.lines.map(line => {
+      const product = matchProduct(line.name, products);
+      const defaults = getProductDefaults(product ?? { name: line.name, category: '' });
+      return {
+        raw: line.raw,
+        matchedProduct: product?.name ?? null,
+        included: true,
+        name: product?.name ?? line.name,
+        category: product?.category || 'Uncategorized',
+        productId: product?.id,
+        quantity: line.quantity,
+        quantityUnit: line.quantityUnit,
+        price: line.price,
+        storage: defaults.storage,
+        expiryDate: defaults.expiryDate
+      };
+    }));
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev && prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const selected = (rows ?? []).filter(row => row.included);
+  const selectedTotal = selected.reduce((sum, row) => sum + row.price, 0);
+  const invalid = selected.some(row => !row.name.trim() || row.quantity <= 0);
+
+  const handleImport = async () => {
+    if (!user || invalid || selected.length === 0) return;
+    setSaving(true);
+    try {
+      const storeName = STORE_CHOICES.find(choice => choice.value === store)!.label;
+      const items = selected.map(({ raw: _raw, matchedProduct: _matched, included: _included, ...row }) => row);
+      const { added, merged } = await importReceipt(
+        user.uid,
+        { store: storeName, purchasedAt: new Date(purchasedAt) },
+        items,
+        inventory
+      );
+      toast({
+        title: 'Receipt imported',
+        description: `${added} new item${added !== 1 ? 's' : ''} and ${merged} restock${merged !== 1 ? 's' : ''} added to your inventory.`
+      });
+      onOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Receipt import error:', error);
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a receipt</DialogTitle>
+        </DialogHeader>
+
+        {!rows ? (
+          <div className="space-y-4">
+            <Tabs defaultValue="photo">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="photo">Photo</TabsTrigger>
+                <TabsTrigger value="text">Paste text</TabsTrigger>
+              </TabsList>
+              <TabsContent value="photo" className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Take a straight, well-lit photo of the whole receipt. The text is read on this device and shown below so you can fix it.
+                </p>
+                <Button asChild variant="outline" className="w-full gap-2" disabled={ocrProgress !== null}>
+                  <label>
+                    <Camera className="h-4 w-4" />
+                    Choose receipt photo
+                    <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhoto} />
+                  </label>
+                </Button>
+                {ocrProgress !== null && (
+                  <div className="space-y-1">
+                    <Progress value={ocrProgress * 100} />
+                    <p className="text-xs text-muted-foreground">Reading receipt…</p>
+                  </div>
+                )}
+              </TabsContent>
+              <TabsContent value="text">
+                <p className="text-sm text-muted-foreground">
+                  Paste the receipt text from an e-receipt or email, one item per line.
+                </p>
+              </TabsContent>
+            </Tabs>
+
+            <Textarea
+              rows={12}
+              className="font-mono text-xs"
+              placeholder={'FP FRSH MLK 1L            3.25\nMEIJI YGT 4X135G\n 2 @ 3.95                 7.90\nTOTAL                    11.15'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button className="flex-1 gap-2" disabled={!text.trim() || ocrProgress !== null} onClick={handleParse}>
+                <ScrollText className="h-4 w-4" />
+                Read items
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Store</Label>
+                <Select value={store} onValueChange={(value) => setStore(value as StoreChoice)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STORE_CHOICES.map(choice => (
+                      <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchasedAt">Date</Label>
+                <Input
+                  id="purchasedAt"
+                  type="date"
+                  value={purchasedAt}
+                  onChange={(e) => e.target.value && setPurchasedAt(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Item</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Storage</TableHead>
+                  <TableHead>Expires</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={index} className={row.included ? undefined : 'opacity-50'}>
+                    <TableCell>
+                      <Checkbox
+                        checked={row.included}
+                        onCheckedChange={(checked) => updateRow(index, { included: checked === true })}
+                        aria-label={`Import ${row.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="min-w-[12rem] space-y-1">
+                      <Input
+                        className="h-8 text-sm"
+                        value={row.name}
+                        disabled={!row.included}
+                        onChange={(e) => updateRow(index, { name: e.target.value })}
+                      />
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-mono text-[10px] text-muted-foreground">{row.raw.split('\n')[0]}</span>
+                        {row.matchedProduct && <Badge variant="secondary" className="shrink-0 text-xs">Known product</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="h-8 w-20 text-sm"
+                          value={row.quantity}
+                          disabled={!row.included}
+                          onChange={(e) => updateRow(index, { quantity: Number(e.target.value) || 0 })}
+                        />
+                        <span className="text-sm text-muted-foreground">{row.quantityUnit}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="h-8 w-20 text-sm"
+                        value={row.price}
+                        disabled={!row.included}
+                        onChange={(e) => updateRow(index, { price: Number(e.target.value) || 0 })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={row.storage}
+                        disabled={!row.included}
+                        onValueChange={(value) => updateRow(index, { storage: value as StorageLocation })}
+                      >
+                        <SelectTrigger className="h-8 w-28 text-sm capitalize">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STORAGE_LOCATIONS.map(location => (
+                            <SelectItem key={location} value={location} className="capitalize">
+                              {location}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        className="h-8 w-36 text-sm"
+                        value={toDateInput(row.expiryDate)}
+                        disabled={!row.included}
+                        onChange={(e) => {
+                          if (e.target.value) updateRow(index, { expiryDate: new Date(e.target.value) });
+                        }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <p className="text-sm text-muted-foreground text-right">
+              Selected {formatPrice(selectedTotal)}
+              {printedTotal !== null && ` of ${formatPrice(printedTotal)} on the receipt`}
+            </p>
+
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => setRows(null)}>
+                Back
+              </Button>
+              <Button className="flex-1 gap-2" disabled={saving || invalid || selected.length === 0} onClick={handleImport}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <PackagePlus className="h-4 w-4" />}
+                Add to inventory {selected.length > 0 && `(${selected.length})`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptImportDialog;
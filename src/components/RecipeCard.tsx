@@ -9,6 +9,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Clock, Users, Heart, ChefHat } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import CookRecipeButton from '@/components/CookRecipeButton';
 
 interface RecipeCardProps {
   recipe: AIGeneratedRecipe;
@@ -185,6 +186,10 @@ const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, onFavouriteChange, isSa
             </ol>
           </div>
 
+          <div className="flex justify-end">
+            <CookRecipeButton recipe={recipe} />
+          </div>
+
         </div>
       </DialogContent>
     </Dialog>
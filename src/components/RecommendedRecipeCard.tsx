@@ -5,6 +5,8 @@ import { RecipeWithScore } from '@/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Heart } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatQuantity } from '@/lib/units';
+import CookRecipeButton from '@/components/CookRecipeButton';
 
 interface RecommendedRecipeCardProps {
   recipe: RecipeWithScore;
@@ -115,6 +117,20 @@ const RecommendedRecipeCard: React.FC<RecommendedRecipeCardProps> = ({
             </ul>
           </div>
 
+          {/* Partially covered ingredients */}
+          {recipe.shortfalls && recipe.shortfalls.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2">Not enough in stock:</h4>
+              <ul className="space-y-1">
+                {recipe.shortfalls.map((shortfall, index) => (
+                  <li key={index} className="text-sm text-expiring">
+                    • {shortfall.ingredient}: need {formatQuantity(shortfall.shortfall)} more (have {formatQuantity(shortfall.available)})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Instructions */}
           {recipe.instructions && recipe.instructions.length > 0 && (
             <div>
@@ -133,6 +149,10 @@ const RecommendedRecipeCard: React.FC<RecommendedRecipeCardProps> = ({
             </div>
           )}
 
+          <div className="flex justify-end">
+            <CookRecipeButton recipe={recipe} />
+          </div>
+
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { removeInventoryItem } from '@/services/wasteLogService';
+import { InventoryItem, RemovalReason } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+
+interface RemoveItemDialogProps {
+  item: InventoryItem | null;
+  defaultReason?: RemovalReason;
+  onOpenChange: (open: boolean) => void;
+  onRemoved: () => void;
+}
+
+const REASONS: { value: RemovalReason; label: string; description: string }[] = [
+  { value: 'consumed', label: 'Used it up', description: 'Eaten or cooked' },
+  { value: 'expired', label: 'Expired / thrown out', description: 'Counts towards your food waste' },
+  { value: 'givenAway', label: 'Given away', description: 'Shared with someone else' },
+];
+
+const RemoveItemDialog: React.FC<RemoveItemDialogProps> = ({ item, defaultReason = 'consumed', onOpenChange, onRemoved }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<RemovalReason>('consumed');
+  const [estimatedValue, setEstimatedValue] = useState('');
+  const [removing, setRemoving] = useState(false);
+
+  useEffect(() => {
+    if (!item) return;
+    setReason(defaultReason);
+    setEstimatedValue('');
+  }, [item, defaultReason]);
+
+  const handleRemove = async () => {
+    if (!item || !user) return;
+    setRemoving(true);
+    try {
+      const value = estimatedValue.trim() ? parseFloat(estimatedValue) : null;
+      await removeInventoryItem(user.uid, item, reason, value !== null && !isNaN(value) ? value : null);
+      toast({
+        title: 'Removed',
+        description: `${item.name} has been removed from your inventory.`
+      });
+      onOpenChange(false);
+      onRemoved();
+    } catch (error) {
+      console.error('Remove error:', error);
+      toast({
+        title: 'Remove failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Remove {item?.name}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          {item?.quantity} {item?.quantityUnit} · What happened to it?
+        </p>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as RemovalReason)}>
+          {REASONS.map((option) => (
+            <Label
+              key={option.value}
+              htmlFor={`reason-${option.value}`}
+              className="flex cursor-pointer items-start gap-3 rounded-lg border border-border p-3"
+            >
+              <RadioGroupItem id={`reason-${option.value}`} value={option.value} className="mt-0.5" />
+              <span>
+                <span className="block font-medium">{option.label}</span>
+                <span className="block text-xs font-normal text-muted-foreground">{option.description}</span>
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="estimatedValue">Estimated value (SGD, optional)</Label>
+          <Input
+            id="estimatedValue"
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="e.g. 3.50"
+            value={estimatedValue}
+            onChange={(e) => setEstimatedValue(e.target.value)}
+          />
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" className="flex-1" disabled={removing} onClick={handleRemove}>
+            {removing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Remove'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RemoveItemDialog;
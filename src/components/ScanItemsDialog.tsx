@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addInventoryItem,
+  addInventoryLot,
+  createProduct,
+  getProductByBarcode
+} from '@/services/firebaseService';
+import { extractBarcode } from '@/lib/barcode';
+import { findInventoryMatch, getProductDefaults } from '@/lib/putAway';
+import { convertQuantity, normalizeUnit } from '@/lib/units';
+import { InventoryItem, QuantityUnit, StorageLocation } from '@/types';
+import BarcodeScanner from '@/components/BarcodeScanner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, PackagePlus, X } from 'lucide-react';
+
+interface ScanItemsDialogProps {
+  open: boolean;
+  inventory: InventoryItem[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// One scanned barcode waiting in the review list; scanning it again adds another pack
+interface ScannedRow {
+  barcode: string;
+  status: 'looking' | 'found' | 'unknown';
+  productId?: string;
+  name: string;
+  category: string;
+  packQuantity: number;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  storage: StorageLocation;
+  expiryDate: Date;
+}
+
+const STORAGE_LOCATIONS: StorageLocation[] = ['fridge', 'freezer', 'pantry'];
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const ScanItemsDialog: React.FC<ScanItemsDialogProps> = ({ open, inventory, onOpenChange, onSaved }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ScannedRow[]>([]);
+  const [typedCode, setTypedCode] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Barcodes already in the list, read synchronously from the camera callback
+  const listed = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!open) return;
+    setRows([]);
+    listed.current.clear();
+  }, [open]);
+
+  const removeRow = (barcode: string) => {
+    listed.current.delete(barcode);
+    setRows(prev => prev.filter(row => row.barcode !== barcode));
+  };
+
+  const updateRow = (barcode: string, changes: Partial<ScannedRow>) => {
+    setRows(prev => prev.map(row => row.barcode === barcode ? { ...row, ...changes } : row));
+  };
+
+  const lookUp = async (barcode: string) => {
+    try {
+      const product = await getProductByBarcode(barcode);
+      if (product) {
+        const defaults = getProductDefaults(product);
+        // Keep count of packs scanned again while the lookup was in flight
+        setRows(prev => prev.map(row => row.barcode === barcode ? {
+          ...row,
+          ...defaults,
+          status: 'found',
+          productId: product.id,
+          name: product.name,
+          category: product.category || '',
+          packQuantity: defaults.quantity,
+          quantity: defaults.quantity * Math.max(1, Math.round(row.quantity / row.packQuantity))
+        } : row));
+      } else {
+        updateRow(barcode, { status: 'unknown' });
+      }
+    } catch (error) {
+      console.error('Barcode lookup error:', error);
+      updateRow(barcode, { status: 'unknown' });
+    }
+  };
+
+  const handleCode = (text: string) => {
+    const barcode = extractBarcode(text);
+    if (!barcode) {
+      toast({
+        title: 'Not a product barcode',
+        description: 'That code doesn\'t contain an EAN or UPC number.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (listed.current.has(barcode)) {
+      setRows(prev => prev.map(row =>
+        row.barcode === barcode ? { ...row, quantity: row.quantity + row.packQuantity } : row
+      ));
+      return;
+    }
+    listed.current.add(barcode);
+    const defaults = getProductDefaults({ name: '', category: '' });
+    setRows(prev => [{ barcode, status: 'looking', name: '', category: '', packQuantity: 1, ...defaults }, ...prev]);
+    lookUp(barcode);
+  };
+
+  const handleTypedCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typedCode.trim()) return;
+    handleCode(typedCode);
+    setTypedCode('');
+  };
+
+  const ready = rows.filter(row => row.quantity > 0);
+  const canSave = ready.length > 0 && rows.every(row => row.status !== 'looking' && row.name.trim());
+
+  const handleSave = async () => {
+    if (!user || !canSave) return;
+    setSaving(true);
+    let saved = 0;
+    try {
+      for (const row of ready) {
+        const name = row.name.trim();
+        // Remember unknown barcodes so the next scan finds them
+        const productId = row.productId ?? await createProduct({
+          name,
+          category: row.category,
+          barcode: row.barcode,
+          source: 'manual',
+          createdBy: user.uid
+        });
+        const expiryDate = Timestamp.fromDate(row.expiryDate);
+        const existing = findInventoryMatch(name, productId, row.quantityUnit, inventory);
+
+        if (existing) {
+          const unit = normalizeUnit(existing.quantityUnit) ?? 'pcs';
+          await addInventoryLot(existing.id!, {
+            quantity: convertQuantity(row.quantity, row.quantityUnit, unit, existing.name) ?? row.quantity,
+            expiryDate
+          });
+        } else {
+          await addInventoryItem({
+            userId: user.uid,
+            productId,
+            name,
+            category: row.category,
+            quantity: row.quantity,
+            quantityUnit: row.quantityUnit,
+            expiryDate,
+            storage: row.storage,
+            reorderThreshold: 2,
+            reorderThresholdUnit: row.quantityUnit,
+            source: 'manual'
+          });
+        }
+        saved++;
+        removeRow(row.barcode);
+      }
+      toast({
+        title: 'Items added!',
+        description: `${saved} scanned item${saved !== 1 ? 's' : ''} added to your inventory.`
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Scan save error:', error);
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+      if (saved > 0) onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scan items</DialogTitle>
+        </DialogHeader>
+
+        <BarcodeScanner active={open && !saving} onDetected={handleCode} />
+
+        <form onSubmit={handleTypedCode} className="flex gap-2">
+          <Input
+            inputMode="numeric"
+            placeholder="Or type a barcode"
+            value={typedCode}
+            onChange={(e) => setTypedCode(e.target.value)}
+            aria-label="Barcode"
+          />
+          <Button type="submit" variant="outline" disabled={!typedCode.trim()}>
+            Add
+          </Button>
+        </form>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Point the camera at a barcode. Each item you scan is added to the list below for review.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map(row => (
+              <div
+                key={row.barcode}
+                className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3"
+              >
+                <div className="min-w-[10rem] flex-1 space-y-1">
+                  {row.status === 'looking' ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Looking up {row.barcode}
+                    </div>
+                  ) : (
+                    <>
+                      <Input
+                        className="h-8 text-sm"
+                        placeholder="Item name"
+                        value={row.name}
+                        onChange={(e) => updateRow(row.barcode, { name: e.target.value })}
+                      />
+                      {row.status === 'unknown' ? (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            className="h-7 text-xs"
+                            placeholder="Category"
+                            value={row.category}
+                            onChange={(e) => updateRow(row.barcode, { category: e.target.value })}
+                          />
+                          <Badge variant="secondary" className="shrink-0 text-xs">New product</Badge>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">{row.category} · {row.barcode}</p>
+                      )}
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="h-8 w-20 text-sm"
+                    value={row.quantity}
+                    onChange={(e) => updateRow(row.barcode, { quantity: Number(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm text-muted-foreground">{row.quantityUnit}</span>
+                </div>
+                <Select
+                  value={row.storage}
+                  onValueChange={(value) => updateRow(row.barcode, { storage: value as StorageLocation })}
+                >
+                  <SelectTrigger className="h-8 w-28 text-sm capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STORAGE_LOCATIONS.map(location => (
+                      <SelectItem key={location} value={location} className="capitalize">
+                        {location}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="date"
+                  className="h-8 w-36 text-sm"
+                  value={toDateInput(row.expiryDate)}
+                  onChange={(e) => {
+                    if (e.target.value) updateRow(row.barcode, { expiryDate: new Date(e.target.value) });
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label={`Remove ${row.name || row.barcode}`}
+                  onClick={() => removeRow(row.barcode)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-4">
+          <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="flex-1 gap-2" disabled={saving || !canSave} onClick={handleSave}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <PackagePlus className="h-4 w-4" />}
+            Add to inventory {ready.length > 0 && `(${ready.length})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScanItemsDialog;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { usePendingWrites } from '@/hooks/usePendingWrites';
+import { discardFailedWrite, retryFailedWrite } from '@/services/syncQueue';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AlertTriangle, CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { PendingWrite } from '@/types';
+
+// e.g. "inventory.update" -> "Inventory update"
+const describeWrite = (write: PendingWrite) => {
+  const [collection, action] = write.kind.split('.');
+  const name = typeof write.data?.name === 'string' ? `: ${write.data.name}` : '';
+  return `${collection.charAt(0).toUpperCase()}${collection.slice(1)} ${action}${name}`;
+};
+
+// Navbar badge: shows when we're offline, still have changes to send, or a change
+// was rejected, and nothing otherwise. Rejected changes can be retried or discarded.
+const SyncStatus: React.FC = () => {
+  const { pendingWrites, online } = usePendingWrites();
+  const failed = pendingWrites.filter(write => write.failedAt !== undefined);
+  const count = pendingWrites.length - failed.length;
+
+  if (failed.length > 0) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button type="button">
+            <Badge variant="destructive" className="gap-1 whitespace-nowrap">
+              <AlertTriangle className="h-3 w-3" />
+              {failed.length} not saved
+            </Badge>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64 bg-popover">
+          {failed.map((write, index) => (
+            <React.Fragment key={write.id}>
+              {index > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuLabel className="space-y-0.5">
+                <p className="text-sm font-medium">{describeWrite(write)}</p>
+                {write.error && <p className="text-xs font-normal text-muted-foreground">{write.error}</p>}
+              </DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => { retryFailedWrite(write.id); }}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Retry
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => discardFailedWrite(write.id)} className="text-destructive">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Discard
+              </DropdownMenuItem>
+            </React.Fragment>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  if (online && count === 0) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 whitespace-nowrap"
+      title={count > 0 ? `${count} change${count !== 1 ? 's' : ''} will sync when you're back online` : undefined}
+    >
+      {online ? <RefreshCw className="h-3 w-3 animate-spin" /> : <CloudOff className="h-3 w-3" />}
+      {online ? `Syncing ${count}` : count > 0 ? `Offline · ${count} pending` : 'Offline'}
+    </Badge>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { WasteLogEntry } from '@/types';
+import { summarizeWaste, summarizeWasteByWeek } from '@/lib/wasteStats';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Trash2 } from 'lucide-react';
+
+interface WasteChartProps {
+  entries: WasteLogEntry[];
+  weeks?: number;
+}
+
+const PALETTE = [
+  'hsl(var(--expired))',
+  'hsl(var(--expiring))',
+  'hsl(var(--fridge))',
+  'hsl(var(--fresh))',
+  'hsl(var(--pantry))',
+  'hsl(var(--primary))',
+  'hsl(var(--freezer))',
+];
+
+const WasteChart: React.FC<WasteChartProps> = ({ entries, weeks = 8 }) => {
+  const { rows, categories } = summarizeWasteByWeek(entries, weeks);
+  const totals = summarizeWaste(entries);
+
+  // Category names can hold spaces and symbols, so chart series use generated keys
+  const seriesKeys = categories.map((_, index) => `category${index}`);
+  const config: ChartConfig = Object.fromEntries(categories.map((category, index) => [
+    seriesKeys[index],
+    { label: category, color: PALETTE[index % PALETTE.length] }
+  ]));
+  const data = rows.map(row => ({
+    week: row.week,
+    ...Object.fromEntries(categories.map((category, index) => [seriesKeys[index], row[category]]))
+  }));
+
+  return (
+    <Card className="magnet-card overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-expired/10 to-primary/10">
+        <CardTitle className="flex items-center gap-2 font-display">
+          <Trash2 className="h-5 w-5 text-expired" />
+          Food Waste
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {totals.wasted} of {totals.removed} removed items were thrown out
+          {totals.wastedValue > 0 && ` · about $${totals.wastedValue.toFixed(2)} wasted`}
+        </p>
+      </CardHeader>
+      <CardContent className="p-4">
+        {categories.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">
+            Nothing thrown out in the last {weeks} weeks. Keep it up!
+          </p>
+        ) : (
+          <ChartContainer config={config} className="h-64 w-full">
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {seriesKeys.map((key) => (
+                <Bar key={key} dataKey={key} stackId="waste" fill={`var(--color-${key})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WasteChart;
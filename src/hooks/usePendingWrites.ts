@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { getPendingWrites, subscribeToPendingWrites } from '@/services/syncQueue';
+import { PendingWrite } from '@/types';
+
+/**
+ * Writes still waiting to reach Firestore, and whether the browser thinks it
+ * has a connection, for pending-sync indicators.
+ */
+export const usePendingWrites = (): { pendingWrites: PendingWrite[]; online: boolean } => {
+  const [pendingWrites, setPendingWrites] = useState<PendingWrite[]>(getPendingWrites());
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => subscribeToPendingWrites(setPendingWrites), []);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return { pendingWrites, online };
+};
@@ -0,0 +1,16 @@
+import { normalizeBarcode } from '@/lib/gtin';
+
+export { isValidGtin, normalizeBarcode } from '@/lib/gtin';
+
+/**
+ * Pull a product barcode out of whatever a scanner decoded. EAN/UPC symbols
+ * decode to the digits themselves; QR codes often wrap them in a URL such as
+ * https://world.openfoodfacts.org/product/5000112637922.
+ */
+export const extractBarcode = (text: string): string | null => {
+  for (const digits of text.match(/\d{8,14}/g) ?? []) {
+    const code = normalizeBarcode(digits);
+    if (code) return code;
+  }
+  return null;
+};
@@ -0,0 +1,167 @@
+import {
+  BasketConstraints,
+  BasketLine,
+  BasketPlan,
+  ShoppingListItem,
+  Store,
+  StoreProductWithStore
+} from '@/types';
+import { calculateDistance } from '@/lib/distance';
+
+// Store combinations are tried exhaustively, so both are kept small
+const MAX_CANDIDATE_STORES = 12;
+const MAX_STOPS = 4;
+
+interface Point {
+  lat: number;
+  lng: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+const roundKm = (value: number) => Math.round(value * 10) / 10;
+const toPoint = (store: Store): Point => ({ lat: store.latitude, lng: store.longitude });
+const distanceBetween = (a: Point, b: Point) => calculateDistance(a.lat, a.lng, b.lat, b.lng);
+
+const combinations = <T>(values: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  return values.flatMap((value, index) =>
+    combinations(values.slice(index + 1), size - 1).map(rest => [value, ...rest])
+  );
+};
+
+const permutations = <T>(values: T[]): T[][] =>
+  values.length <= 1
+    ? [values]
+    : values.flatMap((value, index) =>
+      permutations([...values.slice(0, index), ...values.slice(index + 1)]).map(rest => [value, ...rest])
+    );
+
+/**
+ * Shortest round trip from `origin` through every store, in km. With at most
+ * MAX_STOPS stores every visiting order can be tried.
+ */
+const roundTripKm = (origin: Point, stores: Store[]): number => {
+  if (stores.length === 0) return 0;
+  return Math.min(...permutations(stores).map(order => {
+    const points = [origin, ...order.map(toPoint), origin];
+    return points.slice(1).reduce((total, point, index) => total + distanceBetween(points[index], point), 0);
+  }));
+};
+
+/**
+ * The cheapest way to buy the list's outstanding items from at most
+ * `maxStores` stores, and within `maxExtraKm` of extra travel when an origin
+ * is given. Each item goes to the cheapest chosen store that sells it.
+ * Plans that cover more items win, then the cheaper, then the shorter trip.
+ * Returns null when no store sells any of the items.
+ */
+export const planBasket = (
+  items: ShoppingListItem[],
+  prices: { [ingredient: string]: StoreProductWithStore[] },
+  { maxStores, maxExtraKm = null, origin = null }: BasketConstraints
+): BasketPlan | null => {
+  const toBuy = items.filter(item => !item.checked && !item.hasInInventory);
+
+  // Each item's cheapest product at every store that sells it
+  const offers = toBuy.map(item => {
+    const byStore = new Map<string, StoreProductWithStore>();
+    for (const product of prices[item.ingredient] ?? []) {
+      const current = byStore.get(product.storeId);
+      if (!current || product.price < current.price) byStore.set(product.storeId, product);
+    }
+    const storePrices = Array.from(byStore.values()).map(product => product.price);
+    const averagePrice = storePrices.length > 0 ? storePrices.reduce((sum, price) => sum + price, 0) / storePrices.length : 0;
+    return { item, byStore, averagePrice };
+  });
+
+  const stores = new Map<string, Store>();
+  const coverage = new Map<string, number>();
+  for (const { byStore } of offers) {
+    for (const [storeId, product] of byStore) {
+      stores.set(storeId, product.store);
+      coverage.set(storeId, (coverage.get(storeId) ?? 0) + 1);
+    }
+  }
+  if (stores.size === 0) return null;
+
+  // Stores selling the most items are the likeliest to be in a good plan
+  const candidateIds = Array.from(stores.keys())
+    .sort((a, b) => coverage.get(b)! - coverage.get(a)!)
+    .slice(0, MAX_CANDIDATE_STORES);
+  const distances = new Map(candidateIds.map(id => [id, origin ? distanceBetween(origin, toPoint(stores.get(id)!)) : null]));
+  const baselineKm = origin ? 2 * Math.min(...candidateIds.map(id => distances.get(id)!)) : null;
+
+  let best: { storeIds: string[]; lines: BasketLine[]; unavailable: string[]; total: number; travelKm: number | null } | null = null;
+  const stopLimit = Math.max(1, Math.min(maxStores, MAX_STOPS, candidateIds.length));
+
+  for (let size = 1; size <= stopLimit; size++) {
+    for (const storeIds of combinations(candidateIds, size)) {
+      const lines: BasketLine[] = [];
+      const unavailable: string[] = [];
+      for (const { item, byStore, averagePrice } of offers) {
+        const cheapest = storeIds
+          .map(id => byStore.get(id))
+          .filter((product): product is StoreProductWithStore => Boolean(product))
+          .sort((a, b) => a.price - b.price)[0];
+        if (!cheapest) {
+          unavailable.push(item.ingredient);
+          continue;
+        }
+        const quantity = item.quantity || 1;
+        lines.push({
+          ...(item.id && { itemId: item.id }),
+          ingredient: item.ingredient,
+          quantity,
+          product: cheapest,
+          lineTotal: cheapest.price * quantity,
+          averagePrice
+        });
+      }
+
+      // A store nothing is bought at isn't visited; the smaller combination covers it
+      if (storeIds.some(id => !lines.some(line => line.product.storeId === id))) continue;
+
+      const travelKm = origin ? roundTripKm(origin, storeIds.map(id => stores.get(id)!)) : null;
+      if (travelKm !== null && baselineKm !== null && maxExtraKm !== null && travelKm - baselineKm > maxExtraKm) continue;
+
+      const total = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+      const better = !best ||
+        lines.length > best.lines.length ||
+        (lines.length === best.lines.length && (
+          roundMoney(total) < roundMoney(best.total) ||
+          (roundMoney(total) === roundMoney(best.total) && (travelKm ?? 0) < (best.travelKm ?? 0))
+        ));
+      if (better) best = { storeIds, lines, unavailable, total, travelKm };
+    }
+  }
+
+  // The nearest store alone always fits the travel limit, so a plan is always found
+  if (!best) return null;
+
+  const stops = best.storeIds
+    .map(id => {
+      const lines = best!.lines.filter(line => line.product.storeId === id);
+      return {
+        store: stores.get(id)!,
+        distanceKm: distances.get(id) === null ? null : roundKm(distances.get(id)!),
+        lines: lines.map(line => ({ ...line, lineTotal: roundMoney(line.lineTotal), averagePrice: roundMoney(line.averagePrice) })),
+        subtotal: roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0))
+      };
+    })
+    .sort((a, b) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0) || b.lines.length - a.lines.length);
+
+  const cheapestPossibleTotal = offers.reduce((sum, { item, byStore }) => {
+    const storePrices = Array.from(byStore.values()).map(product => product.price);
+    return storePrices.length > 0 ? sum + Math.min(...storePrices) * (item.quantity || 1) : sum;
+  }, 0);
+
+  return {
+    stops,
+    unavailable: best.unavailable,
+    total: roundMoney(best.total),
+    savings: roundMoney(best.lines.reduce((sum, line) => sum + (line.averagePrice - line.product.price) * line.quantity, 0)),
+    cheapestPossibleTotal: roundMoney(cheapestPossibleTotal),
+    travelKm: best.travelKm === null ? null : roundKm(best.travelKm),
+    extraKm: best.travelKm === null || baselineKm === null ? null : roundKm(Math.max(0, best.travelKm - baselineKm))
+  };
+};
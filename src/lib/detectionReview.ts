@@ -0,0 +1,44 @@
+import { DetectionCorrection, DetectionFields, InventoryItem } from '@/types';
+import { Timestamp } from 'firebase/firestore';
+
+// Below this the detection is flagged for a closer look in the review table
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** True when the provider said how sure it was and it wasn't very sure. */
+export const isLowConfidence = (confidence: number | null | undefined): boolean =>
+  typeof confidence === 'number' && confidence < LOW_CONFIDENCE_THRESHOLD;
+
+const toDay = (date: Timestamp | Date): string =>
+  (date instanceof Timestamp ? date.toDate() : date).toISOString().split('T')[0];
+
+/** The reviewable fields of a detected inventory item. */
+export const getDetectionFields = (item: InventoryItem): DetectionFields => ({
+  name: item.name,
+  quantity: item.quantity,
+  quantityUnit: item.quantityUnit,
+  storage: item.storage,
+  expiryDate: item.expiryDate
+});
+
+/** Which fields the user changed; names ignore case and spacing, dates compare by day. */
+export const getChangedFields = (detected: DetectionFields, corrected: DetectionFields): (keyof DetectionFields)[] => {
+  const changed: (keyof DetectionFields)[] = [];
+  if (detected.name.trim().toLowerCase() !== corrected.name.trim().toLowerCase()) changed.push('name');
+  if (detected.quantity !== corrected.quantity) changed.push('quantity');
+  if (detected.quantityUnit !== corrected.quantityUnit) changed.push('quantityUnit');
+  if (detected.storage !== corrected.storage) changed.push('storage');
+  if (toDay(detected.expiryDate) !== toDay(corrected.expiryDate)) changed.push('expiryDate');
+  return changed;
+};
+
+/** Record one reviewed row: what was detected, and what (if anything) was kept. */
+export const buildCorrection = (item: InventoryItem, corrected: DetectionFields | null): DetectionCorrection => {
+  const detected = getDetectionFields(item);
+  return {
+    detected,
+    confidence: item.aiConfidence ?? null,
+    kept: corrected !== null,
+    corrected,
+    changedFields: corrected ? getChangedFields(detected, corrected) : []
+  };
+};
@@ -0,0 +1,11 @@
+import { ExpirySettings, ExpiryThresholds, InventoryItem, InventoryStatus } from '@/types';
+
+export declare const DAY_MS: number;
+export declare const DEFAULT_EXPIRY_SETTINGS: ExpirySettings;
+export declare const mergeExpirySettings: (stored?: Partial<ExpirySettings> | null) => ExpirySettings;
+export declare const resolveExpiryThresholds: (
+  item: Partial<Pick<InventoryItem, 'category' | 'storage'>>,
+  settings?: ExpirySettings
+) => ExpiryThresholds;
+export declare const daysUntil: (expiry: Date, now?: Date) => number;
+export declare const getStatusForDays: (daysUntilExpiry: number, thresholds: ExpiryThresholds) => InventoryStatus;
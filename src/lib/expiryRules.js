@@ -0,0 +1,69 @@
+// Expiry status rules shared by the app and the server's recompute job
+// (server/inventoryStatus.js), so a stored status always matches what the app shows.
+// Plain JS so Node can import it without a build step; types are in expiryRules.d.ts.
+
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const DEFAULT_EXPIRY_SETTINGS = {
+  defaults: { expiringSoonDays: 5, almostExpiredDays: 2 },
+  categories: {
+    fish: { expiringSoonDays: 2, almostExpiredDays: 1 },
+    seafood: { expiringSoonDays: 2, almostExpiredDays: 1 },
+    meat: { expiringSoonDays: 3, almostExpiredDays: 1 },
+    poultry: { expiringSoonDays: 3, almostExpiredDays: 1 },
+    bakery: { expiringSoonDays: 3, almostExpiredDays: 1 },
+    canned: { expiringSoonDays: 30, almostExpiredDays: 14 },
+  },
+  storage: {
+    freezer: { expiringSoonDays: 14, almostExpiredDays: 7 },
+  },
+};
+
+/**
+ * Fill in anything missing from stored settings with the defaults.
+ * Stored category keys are lowercased so lookups are case-insensitive.
+ */
+export const mergeExpirySettings = (stored) => {
+  const categories = {};
+  for (const [key, thresholds] of Object.entries(stored?.categories ?? DEFAULT_EXPIRY_SETTINGS.categories)) {
+    categories[key.toLowerCase().trim()] = thresholds;
+  }
+  return {
+    defaults: { ...DEFAULT_EXPIRY_SETTINGS.defaults, ...stored?.defaults },
+    categories,
+    storage: { ...(stored?.storage ?? DEFAULT_EXPIRY_SETTINGS.storage) },
+  };
+};
+
+/**
+ * The thresholds that apply to an item: the longest category keyword contained in
+ * its category ("Canned Fish" matches "canned" before "fish"), then its storage
+ * location, then the user's defaults.
+ */
+export const resolveExpiryThresholds = (item, settings = DEFAULT_EXPIRY_SETTINGS) => {
+  const category = (item.category || '').toLowerCase();
+  let best = null;
+  let bestLength = 0;
+  if (category) {
+    for (const [keyword, thresholds] of Object.entries(settings.categories)) {
+      if (keyword && category.includes(keyword) && keyword.length > bestLength) {
+        best = thresholds;
+        bestLength = keyword.length;
+      }
+    }
+  }
+  if (best) return best;
+  return (item.storage && settings.storage[item.storage]) || settings.defaults;
+};
+
+/**
+ * Whole days from `now` until `expiry`; negative once it has passed. Today counts as 0.
+ */
+export const daysUntil = (expiry, now = new Date()) => Math.ceil((expiry.getTime() - now.getTime()) / DAY_MS);
+
+export const getStatusForDays = (daysUntilExpiry, thresholds) => {
+  if (daysUntilExpiry < 0) return 'expired';
+  if (daysUntilExpiry <= thresholds.almostExpiredDays) return 'almostExpired';
+  if (daysUntilExpiry <= thresholds.expiringSoonDays) return 'expiringSoon';
+  return 'fresh';
+};
@@ -0,0 +1,34 @@
+import { Timestamp } from 'firebase/firestore';
+import { ExpirySettings, InventoryItem, InventoryLot, InventoryStatus } from '@/types';
+import { summarizeLots } from '@/lib/lots';
+import { DEFAULT_EXPIRY_SETTINGS, daysUntil, getStatusForDays, resolveExpiryThresholds } from '@/lib/expiryRules';
+
+// The rules themselves live in expiryRules.js, which the server's recompute job shares
+export { DEFAULT_EXPIRY_SETTINGS, getStatusForDays, mergeExpirySettings, resolveExpiryThresholds } from '@/lib/expiryRules';
+
+/**
+ * Whole days until a date; negative once it has passed. Today counts as 0.
+ */
+export const getDaysUntilExpiry = (expiryDate: Timestamp | Date, now: Date = new Date()): number => {
+  const expiry = expiryDate instanceof Timestamp ? expiryDate.toDate() : new Date(expiryDate);
+  return daysUntil(expiry, now);
+};
+
+/**
+ * Status of an inventory item from its earliest non-empty lot (or its expiry date on
+ * legacy rows) under the given settings.
+ */
+export const getItemStatus = (
+  item: Partial<Pick<InventoryItem, 'category' | 'storage' | 'lots'>> & { expiryDate?: Timestamp | Date | null },
+  settings: ExpirySettings = DEFAULT_EXPIRY_SETTINGS,
+  now: Date = new Date()
+): InventoryStatus => {
+  const fromLots = item.lots && item.lots.length > 0 ? summarizeLots(item.lots as InventoryLot[]).expiryDate : null;
+  const expiry = fromLots ?? item.expiryDate;
+  if (!expiry) return 'fresh';
+  return getStatusForDays(getDaysUntilExpiry(expiry, now), resolveExpiryThresholds(item, settings));
+};
+
+// Statuses that mean "use this soon" rather than "already gone"
+export const isExpiringStatus = (status: InventoryStatus): boolean =>
+  status === 'expiringSoon' || status === 'almostExpired';
@@ -1,6 +1,11 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import {
+  connectFirestoreEmulator,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager
+} from 'firebase/firestore';
 import { getFunctions } from 'firebase/functions';
 
 // Your web app's Firebase configuration
@@ -18,7 +23,18 @@ const app = initializeApp(firebaseConfig);
 
 // Initialize Firebase Authentication and Firestore
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+// Cache documents and queued writes in IndexedDB so the app keeps working without a
+// connection (e.g. in a supermarket basement). Several open tabs share the one cache.
+export const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+});
 export const functions = getFunctions(app);
 
+// Point Firestore at the local emulator, e.g. VITE_FIRESTORE_EMULATOR_HOST=localhost:8081
+const emulatorHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port) || 8081);
+}
+
 export default app;
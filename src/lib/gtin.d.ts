@@ -0,0 +1,2 @@
+export declare const isValidGtin: (code: string) => boolean;
+export declare const normalizeBarcode: (raw: string) => string | null;
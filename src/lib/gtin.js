@@ -0,0 +1,28 @@
+// Barcode rules shared by the app and the Open Food Facts importer
+// (scripts/importOpenFoodFacts.js), so imported products are stored under the
+// same code a scan looks up. Plain JS so Node can import it without a build step;
+// types are in gtin.d.ts.
+
+/**
+ * Check the GS1 check digit of an EAN-8, UPC-A, EAN-13 or GTIN-14 code.
+ */
+export const isValidGtin = (code) => {
+  if (!/^\d{8}$|^\d{12,14}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const check = digits.pop();
+  // Weights alternate 3,1,3,... starting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+/**
+ * Canonical form used for Product.barcode: digits only, with UPC-A codes
+ * widened to EAN-13 so a scan of either form finds the same product.
+ * Returns null when the code isn't a valid retail barcode.
+ */
+export const normalizeBarcode = (raw) => {
+  let code = String(raw ?? '').replace(/\D/g, '');
+  if (code.length === 12) code = `0${code}`;
+  if (code.length === 14 && code.startsWith('0')) code = code.slice(1);
+  return isValidGtin(code) ? code : null;
+};
@@ -0,0 +1,106 @@
+import { Timestamp } from 'firebase/firestore';
+import { InventoryItem, InventoryLot } from '@/types';
+
+type LotSource = Pick<InventoryItem, 'quantity' | 'expiryDate' | 'lots' | 'batchId'>;
+
+const toMillis = (date: Timestamp | Date): number =>
+  date instanceof Timestamp ? date.toMillis() : new Date(date).getTime();
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export const createBatchId = (): string => crypto.randomUUID();
+
+export const sortLotsByExpiry = (lots: InventoryLot[]): InventoryLot[] =>
+  [...lots].sort((a, b) => toMillis(a.expiryDate) - toMillis(b.expiryDate));
+
+/**
+ * The lots of an item, earliest expiry first. Legacy rows without lots are
+ * treated as a single lot holding the whole quantity.
+ */
+export const getItemLots = (item: LotSource): InventoryLot[] => {
+  if (item.lots && item.lots.length > 0) {
+    return sortLotsByExpiry(item.lots);
+  }
+  return [{
+    batchId: item.batchId || 'initial',
+    quantity: item.quantity,
+    expiryDate: item.expiryDate
+  }];
+};
+
+/**
+ * Total quantity and earliest expiry across lots that still hold something.
+ * expiryDate is null when every lot is used up.
+ */
+export const summarizeLots = (lots: InventoryLot[]): { quantity: number; expiryDate: Timestamp | Date | null } => {
+  const active = sortLotsByExpiry(lots.filter(lot => lot.quantity > 0));
+  return {
+    quantity: round(active.reduce((sum, lot) => sum + lot.quantity, 0)),
+    expiryDate: active.length > 0 ? active[0].expiryDate : null
+  };
+};
+
+export const getEarliestExpiry = (item: LotSource): Timestamp | Date =>
+  summarizeLots(getItemLots(item)).expiryDate ?? item.expiryDate;
+
+/**
+ * Take `amount` from the lots, first-expired-first-out.
+ * Emptied lots are dropped; `consumed` records what came out of each lot.
+ */
+export const consumeFromLots = (
+  lots: InventoryLot[],
+  amount: number
+): { lots: InventoryLot[]; consumed: InventoryLot[] } => {
+  let needed = amount;
+  const remaining: InventoryLot[] = [];
+  const consumed: InventoryLot[] = [];
+
+  for (const lot of sortLotsByExpiry(lots)) {
+    if (needed <= 0 || lot.quantity <= 0) {
+      if (lot.quantity > 0) remaining.push(lot);
+      continue;
+    }
+    const taken = Math.min(lot.quantity, needed);
+    needed = round(needed - taken);
+    consumed.push({ ...lot, quantity: round(taken) });
+    if (lot.quantity - taken > 0) {
+      remaining.push({ ...lot, quantity: round(lot.quantity - taken) });
+    }
+  }
+
+  return { lots: remaining, consumed };
+};
+
+/**
+ * Put previously consumed quantities back into their lots,
+ * re-creating lots that were emptied.
+ */
+export const restoreLots = (lots: InventoryLot[], consumed: InventoryLot[]): InventoryLot[] => {
+  const byBatch = new Map(lots.map(lot => [lot.batchId, { ...lot }]));
+  for (const lot of consumed) {
+    const existing = byBatch.get(lot.batchId);
+    if (existing) {
+      existing.quantity = round(existing.quantity + lot.quantity);
+    } else {
+      byBatch.set(lot.batchId, { ...lot });
+    }
+  }
+  return sortLotsByExpiry(Array.from(byBatch.values()));
+};
+
+/**
+ * Grow or shrink an item's lots to a new total. Shrinking consumes FEFO;
+ * growing tops up the lot that expires last.
+ */
+export const adjustLotsToQuantity = (lots: InventoryLot[], quantity: number): InventoryLot[] => {
+  const current = summarizeLots(lots).quantity;
+  if (quantity < current) {
+    return consumeFromLots(lots, current - quantity).lots;
+  }
+  if (quantity > current && lots.length > 0) {
+    const sorted = sortLotsByExpiry(lots);
+    const last = sorted[sorted.length - 1];
+    return [...sorted.slice(0, -1), { ...last, quantity: round(last.quantity + quantity - current) }];
+  }
+  return lots;
+};
@@ -0,0 +1,44 @@
+import { PriceHistorySeries } from '@/types';
+
+export interface PriceChartRow {
+  date: string;  // e.g. "18 Oct"
+  [storeCode: string]: number | string;
+}
+
+/**
+ * One row per day that any store was priced, oldest first, with each store's
+ * price under its storeCode. Days a store wasn't scraped are left out of its
+ * row so the chart joins its line across the gap.
+ */
+export const toPriceChartRows = (series: PriceHistorySeries[]): PriceChartRow[] => {
+  const days = new Map<string, PriceChartRow>();
+  for (const { storeCode, points } of series) {
+    for (const point of points) {
+      const row = days.get(point.date) ?? {
+        date: new Date(`${point.date}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+      };
+      row[storeCode] = point.price;
+      days.set(point.date, row);
+    }
+  }
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, row]) => row);
+};
+
+/**
+ * Each store's latest price and how it compares with its first price in the series.
+ */
+export const summarizePriceMoves = (series: PriceHistorySeries[]) =>
+  series
+    .filter(store => store.points.length > 0)
+    .map(store => {
+      const first = store.points[0];
+      const latest = store.points[store.points.length - 1];
+      return {
+        storeCode: store.storeCode,
+        storeName: store.storeName,
+        latest: latest.price,
+        change: Math.round((latest.price - first.price) * 100) / 100
+      };
+    });
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { getMergeQuantity } from './putAway';
+import { InventoryItem } from '@/types';
+
+const rice: InventoryItem = {
+  userId: 'alice',
+  name: 'Rice',
+  category: 'Grains',
+  quantity: 1,
+  quantityUnit: 'kg',
+  storage: 'pantry',
+  expiryDate: Timestamp.now(),
+  reorderThreshold: 1,
+  isLowStock: false,
+  status: 'fresh',
+  source: 'manual',
+};
+
+describe('getMergeQuantity', () => {
+  it('converts the purchase to the row\'s unit', () => {
+    expect(getMergeQuantity({ quantity: 500, quantityUnit: 'g', storage: 'pantry' }, rice)).toBe(0.5);
+  });
+
+  it('keeps a purchase in a unit the row cannot take separate', () => {
+    expect(getMergeQuantity({ quantity: 2, quantityUnit: 'pcs', storage: 'pantry' }, rice)).toBeNull();
+  });
+
+  it('keeps a purchase stored somewhere else separate', () => {
+    expect(getMergeQuantity({ quantity: 500, quantityUnit: 'g', storage: 'freezer' }, rice)).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { InventoryItem, Product, QuantityUnit, ShoppingListItem, StorageLocation } from '@/types';
+import { convertQuantity, normalizeUnit } from '@/lib/units';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Anything frozen keeps for about three months
+const FREEZER_SHELF_LIFE_DAYS = 90;
+
+// One checked shopping item on its way into the inventory, as shown in the Put away dialog
+export interface PutAwayDraft {
+  shoppingItemId: string;
+  name: string;
+  category: string;
+  productId?: string;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  storage: StorageLocation;
+  expiryDate: Date;
+  mergeIntoId?: string;  // Existing inventory row the purchase becomes a new lot on
+  price?: number;  // What was paid, if the shopper entered it
+}
+
+interface StorageRule {
+  keywords: string[];
+  storage: StorageLocation;
+  shelfLifeDays: number;
+}
+
+// Checked against the category first, then the name; the longest keyword wins
+const STORAGE_RULES: StorageRule[] = [
+  { keywords: ['frozen', 'ice cream'], storage: 'freezer', shelfLifeDays: FREEZER_SHELF_LIFE_DAYS },
+  { keywords: ['fish', 'seafood', 'prawn', 'shrimp', 'salmon'], storage: 'fridge', shelfLifeDays: 2 },
+  { keywords: ['meat', 'poultry', 'chicken', 'beef', 'pork', 'mutton', 'mince'], storage: 'fridge', shelfLifeDays: 3 },
+  { keywords: ['dairy', 'milk', 'yogurt', 'yoghurt', 'cheese', 'butter', 'cream', 'tofu'], storage: 'fridge', shelfLifeDays: 7 },
+  { keywords: ['egg'], storage: 'fridge', shelfLifeDays: 21 },
+  { keywords: ['vegetable', 'produce', 'salad', 'herb', 'greens'], storage: 'fridge', shelfLifeDays: 5 },
+  { keywords: ['fruit', 'apple', 'banana', 'orange'], storage: 'pantry', shelfLifeDays: 7 },
+  { keywords: ['bakery', 'bread', 'bun'], storage: 'pantry', shelfLifeDays: 4 },
+  { keywords: ['canned', 'tin', 'grain', 'rice', 'pasta', 'noodle', 'flour', 'sauce', 'condiment', 'spice', 'snack'], storage: 'pantry', shelfLifeDays: 180 },
+];
+
+const DEFAULT_RULE: Omit<StorageRule, 'keywords'> = { storage: 'pantry', shelfLifeDays: 14 };
+
+const findRule = (text: string): StorageRule | null => {
+  const lower = text.toLowerCase();
+  let best: StorageRule | null = null;
+  let bestLength = 0;
+  for (const rule of STORAGE_RULES) {
+    for (const keyword of rule.keywords) {
+      if (lower.includes(keyword) && keyword.length > bestLength) {
+        best = rule;
+        bestLength = keyword.length;
+      }
+    }
+  }
+  return best;
+};
+
+/** Where an item usually lives and how long it keeps there, from its category or name. */
+export const suggestStorage = (category: string, name: string): Omit<StorageRule, 'keywords'> => {
+  const rule = (category && findRule(category)) || findRule(name);
+  return rule ? { storage: rule.storage, shelfLifeDays: rule.shelfLifeDays } : DEFAULT_RULE;
+};
+
+// What a new inventory row for a catalog product starts as in the Add Item form
+export interface ProductDefaults {
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  storage: StorageLocation;
+  expiryDate: Date;
+}
+
+/**
+ * Prefill a purchase of a known product: one pack, or the pack size when the
+ * catalog knows it, kept where its category suggests until its shelf life runs out.
+ */
+export const getProductDefaults = (product: Product, now = new Date()): ProductDefaults => {
+  const suggestion = suggestStorage(product.category, product.name);
+  const packageUnit = product.packageSize ? normalizeUnit(product.packageSize.unit) : null;
+  const shelfLifeDays = product.defaultShelfLifeDays ?? suggestion.shelfLifeDays;
+  return {
+    quantity: packageUnit ? product.packageSize!.amount : 1,
+    quantityUnit: packageUnit ?? 'pcs',
+    storage: suggestion.storage,
+    expiryDate: new Date(now.getTime() + shelfLifeDays * DAY_MS)
+  };
+};
+
+/** The product template for a shopping item: exact name first, then the closest partial match. */
+export const matchProduct = (ingredient: string, products: Product[]): Product | null => {
+  const lower = ingredient.toLowerCase().trim();
+  const exact = products.find(product => product.name.toLowerCase().trim() === lower);
+  if (exact) return exact;
+  const partial = products
+    .filter(product => {
+      const name = product.name.toLowerCase().trim();
+      return name && (lower.includes(name) || name.includes(lower));
+    })
+    .sort((a, b) => b.name.length - a.name.length);
+  return partial[0] ?? null;
+};
+
+/** The inventory row a new purchase should be merged into, if its unit can be converted. */
+export const findInventoryMatch = (
+  name: string,
+  productId: string | undefined,
+  quantityUnit: QuantityUnit,
+  inventory: InventoryItem[]
+): InventoryItem | null => {
+  const lower = name.toLowerCase().trim();
+  const match = inventory.find(item =>
+    (productId && item.productId === productId) || item.name.toLowerCase().trim() === lower
+  );
+  if (!match) return null;
+  const unit = normalizeUnit(match.quantityUnit) ?? 'pcs';
+  return convertQuantity(1, quantityUnit, unit, match.name) === null ? null : match;
+};
+
+/**
+ * A purchase's quantity in an existing row's unit, or null when it needs a row of
+ * its own: the units don't convert, or it is kept somewhere other than that row.
+ */
+export const getMergeQuantity = (
+  draft: Pick<PutAwayDraft, 'quantity' | 'quantityUnit' | 'storage'>,
+  item: InventoryItem
+): number | null => {
+  if (item.storage && item.storage !== draft.storage) return null;
+  const unit = normalizeUnit(item.quantityUnit) ?? 'pcs';
+  return convertQuantity(draft.quantity, draft.quantityUnit, unit, item.name);
+};
+
+/**
+ * Suggest how each checked shopping item should be put away. Known products
+ * supply the category and shelf life; existing inventory rows supply the
+ * storage location, otherwise it is guessed from the category or name.
+ */
+export const planPutAway = (
+  items: ShoppingListItem[],
+  products: Product[],
+  inventory: InventoryItem[],
+  now = new Date()
+): PutAwayDraft[] =>
+  items.filter(item => item.id).map(item => {
+    const product = matchProduct(item.ingredient, products);
+    const name = product?.name ?? item.ingredient;
+    const category = product?.category ?? '';
+    // Buy exactly the shortfall when the recipes said how much, otherwise count packs
+    const quantity = item.shortfall ? item.shortfall.amount : item.quantity || 1;
+    const quantityUnit = item.shortfall ? item.shortfall.unit : 'pcs';
+    const existing = findInventoryMatch(name, product?.id, quantityUnit, inventory);
+    const suggestion = suggestStorage(category || existing?.category || '', name);
+    const storage = existing?.storage ?? suggestion.storage;
+    const shelfLifeDays = product?.defaultShelfLifeDays ??
+      (storage === 'freezer' ? FREEZER_SHELF_LIFE_DAYS : suggestion.shelfLifeDays);
+
+    return {
+      shoppingItemId: item.id!,
+      name: existing?.name ?? name,
+      category: category || existing?.category || '',
+      productId: product?.id ?? existing?.productId,
+      quantity: Math.round(quantity * 1000) / 1000,
+      quantityUnit,
+      storage,
+      expiryDate: new Date(now.getTime() + shelfLifeDays * DAY_MS),
+      mergeIntoId: existing?.id
+    };
+  });
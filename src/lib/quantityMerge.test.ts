@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { mergeQuantityEdit } from './quantityMerge';
+
+describe('mergeQuantityEdit', () => {
+  it('counts both edits made from the same starting amount, in either order', () => {
+    expect(mergeQuantityEdit(5, 4, mergeQuantityEdit(5, 3, 5))).toBe(2);
+    expect(mergeQuantityEdit(5, 3, mergeQuantityEdit(5, 4, 5))).toBe(2);
+  });
+
+  it('applies an edit on top of an increase made elsewhere', () => {
+    expect(mergeQuantityEdit(5, 3, 10)).toBe(8);
+  });
+
+  it('clamps the result at zero', () => {
+    expect(mergeQuantityEdit(5, 1, 2)).toBe(0);
+  });
+
+  it('rounds away floating point noise', () => {
+    expect(mergeQuantityEdit(1, 0.9, 0.3)).toBe(0.2);
+  });
+});
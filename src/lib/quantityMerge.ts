@@ -0,0 +1,13 @@
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Merge a queued quantity edit into the value now on the server.
+ *
+ * An edit is replayed as the change the user made (target - base) rather than
+ * the absolute value, so two devices that each take something from the same
+ * starting amount both count: 5 -> 3 on one phone and 5 -> 4 on another ends
+ * at 2 whichever syncs first. The result is clamped at zero, which is the only
+ * case where the order the edits arrive in makes a difference.
+ */
+export const mergeQuantityEdit = (base: number, target: number, current: number): number =>
+  round(Math.max(0, current + (target - base)));
@@ -0,0 +1,194 @@
+import { ParsedReceipt, Quantity, QuantityUnit, ReceiptLine, ReceiptStore } from '@/types';
+
+export const RECEIPT_STORE_NAMES: Record<ReceiptStore, string> = {
+  fairprice: 'FairPrice',
+  shengsiong: 'Sheng Siong',
+  coldstorage: 'Cold Storage',
+};
+
+const STORE_PATTERNS: [ReceiptStore, RegExp][] = [
+  ['fairprice', /FAIR\s*PRICE|NTUC/i],
+  ['shengsiong', /SHENG\s*SIONG/i],
+  ['coldstorage', /COLD\s*STORAGE|CS\s*FRESH/i],
+];
+
+// House-brand prefixes the chains print in front of item names
+const BRAND_PREFIXES = ['FP', 'FPF', 'SS', 'CS'];
+
+// Receipt printers squeeze names into ~20 characters; these are the usual short forms
+const ABBREVIATIONS: Record<string, string> = {
+  ASST: 'Assorted', BAN: 'Banana', BF: 'Beef', BISC: 'Biscuit', BNLS: 'Boneless', BRD: 'Bread',
+  BROC: 'Broccoli', BRST: 'Breast', BTL: 'Bottle', BTR: 'Butter', BUTR: 'Butter', CAB: 'Cabbage',
+  CHK: 'Chicken', CHKN: 'Chicken', CKN: 'Chicken', CHOC: 'Chocolate', CHS: 'Cheese', CRM: 'Cream',
+  CRT: 'Carrot', DRMSTK: 'Drumstick', FF: 'Fat Free', FLR: 'Flour', FRH: 'Fresh', FRSH: 'Fresh',
+  FRZ: 'Frozen', FSH: 'Fish', FZN: 'Frozen', GRLC: 'Garlic', GRN: 'Green', JCE: 'Juice', JUC: 'Juice',
+  LF: 'Low Fat', LGE: 'Large', LRG: 'Large', LTTC: 'Lettuce', MED: 'Medium', MINC: 'Minced',
+  MLK: 'Milk', MNC: 'Minced', MSHRM: 'Mushroom', MUSH: 'Mushroom', NDL: 'Noodle', NDLS: 'Noodles',
+  ONN: 'Onion', ORG: 'Organic', ORGN: 'Organic', PKT: 'Pack', POT: 'Potato', PRK: 'Pork',
+  PRWN: 'Prawn', RCE: 'Rice', SCE: 'Sauce', SGR: 'Sugar', SKNLS: 'Skinless', SLMN: 'Salmon',
+  SML: 'Small', SPIN: 'Spinach', STRW: 'Strawberry', THGH: 'Thigh', TMT: 'Tomato', VEG: 'Vegetable',
+  VEGE: 'Vegetable', WHL: 'Whole', WHLML: 'Wholemeal', WHT: 'White', WTR: 'Water', YGT: 'Yogurt',
+  YOG: 'Yogurt',
+};
+
+const SIZE_UNITS: Record<string, QuantityUnit> = {
+  G: 'g', GM: 'g', GR: 'g', KG: 'kg', ML: 'ml', L: 'L', LT: 'L', LTR: 'L', S: 'pcs', PC: 'pcs', PCS: 'pcs',
+};
+
+// "1L", "400G", "10S" (ten eggs), "6X330ML"
+const SIZE_TOKEN = /^(?:(\d+)X)?(\d+(?:\.\d+)?)(G|GM|GR|KG|ML|L|LT|LTR|S|PC|PCS)$/;
+
+const PRICE = String.raw`\$?(\d{1,4}\.\d{2})`;
+// Item name, then the line price with an optional trailing minus and tax/promo marker
+const PRICED_LINE = new RegExp(String.raw`^(.*?[A-Za-z].*?)\s+(-)?${PRICE}(-)?\s*[A-Z*#]?$`);
+// "2 @ 1.60   3.20" or "2 X 1.60" under the item name
+const COUNT_LINE = new RegExp(String.raw`^(\d+)\s*[@xX×]\s*${PRICE}(?:\s*(?:EA|EACH))?(?:\s+${PRICE})?\s*[A-Z*#]?$`, 'i');
+// "0.452 KG @ 12.90/KG   5.83" for weighed produce and meat
+const WEIGHT_LINE = new RegExp(String.raw`^(\d+(?:\.\d+)?)\s*(KG|G)\s*[@xX×]\s*${PRICE}\s*(?:\/\s*KG)?(?:\s+${PRICE})?\s*[A-Z*#]?$`, 'i');
+// A discount printed on its own line, e.g. "1.00-"
+const BARE_DISCOUNT = new RegExp(String.raw`^(?:-${PRICE}|${PRICE}-)$`);
+const TOTAL_LINE = /^(?:GRAND\s+)?TOTAL\b(?!\s*SAVING).*?(\d{1,5}\.\d{2})/i;
+const DISCOUNT_WORDS = /\b(DISC|DISCOUNT|LESS|PROMO|SAVE|OFFER)\b/i;
+const SKIP_WORDS = /\b(SUB\s*-?\s*TOTAL|GST|CHANGE|CASH|NETS|VISA|MASTERCARD|AMEX|PAYNOW|ROUNDING|TENDER|BALANCE|CARD|LINKPOINTS|POINTS|SAVINGS|RECEIPT|INVOICE|TEL|FAX|UEN|REG\s*NO|CASHIER|COUNTER|TERMINAL|ITEMS?\s*\(?S?\)?\s*:)/i;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const detectReceiptStore = (text: string): ReceiptStore | null =>
+  STORE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+
+/** The purchase date printed on a receipt; Singapore receipts put the day first. */
+export const parseReceiptDate = (text: string): Date | null => {
+  const iso = text.match(/\b(20\d{2})-(\d{2})-(\d{2})\b/);
+  const dayFirst = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : dayFirst
+      ? [Number(dayFirst[3]) + (dayFirst[3].length === 2 ? 2000 : 0), Number(dayFirst[2]), Number(dayFirst[1])]
+      : [0, 0, 0];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+};
+
+/**
+ * Turn a receipt's shorthand item name into something readable, and pull out
+ * the pack size: "FP FRSH MLK 1L" -> "Fresh Milk", 1 L.
+ */
+export const normalizeReceiptName = (text: string): { name: string; packSize: Quantity | null } => {
+  const tokens = text
+    .toUpperCase()
+    .replace(/(\d)\s+(G|GM|KG|ML|L|LTR)\b/g, '$1$2')
+    .split(/[\s/]+/)
+    .filter(Boolean);
+  // Leading PLU or barcode numbers aren't part of the name
+  while (tokens.length > 1 && /^\d{4,}$/.test(tokens[0])) tokens.shift();
+  if (tokens.length > 1 && BRAND_PREFIXES.includes(tokens[0])) tokens.shift();
+
+  let packSize: Quantity | null = null;
+  const words: string[] = [];
+  for (const token of tokens) {
+    const size = token.match(SIZE_TOKEN);
+    if (size && !packSize) {
+      const count = size[1] ? Number(size[1]) : 1;
+      packSize = { amount: count * Number(size[2]), unit: SIZE_UNITS[size[3]] };
+      continue;
+    }
+    const word = token.replace(/[^A-Z0-9&'-]/g, '');
+    if (!word) continue;
+    words.push(ABBREVIATIONS[word] ?? word.charAt(0) + word.slice(1).toLowerCase());
+  }
+  return { name: words.join(' '), packSize };
+};
+
+const toReceiptLine = (raw: string, text: string, count: number, price: number): ReceiptLine => {
+  const { name, packSize } = normalizeReceiptName(text);
+  return {
+    raw,
+    name,
+    quantity: packSize ? round(count * packSize.amount) : count,
+    quantityUnit: packSize?.unit ?? 'pcs',
+    price: round(price),
+  };
+};
+
+/**
+ * Read the purchased lines off a FairPrice, Sheng Siong or Cold Storage receipt
+ * (or anything laid out like one). Quantity lines apply to the item above them,
+ * discount lines come off the item above them, and nothing after TOTAL is read.
+ */
+export const parseReceipt = (text: string): ParsedReceipt => {
+  const lines: ReceiptLine[] = [];
+  let total: number | null = null;
+  let pendingName: string | null = null;  // A name whose price is on the next line
+  let lastLineIndex = -1;  // Which text line produced the newest item
+
+  const rawLines = text.split(/\r?\n/);
+  for (let index = 0; index < rawLines.length; index++) {
+    const raw = rawLines[index];
+    const line = raw.replace(/\s+/g, ' ').trim();
+    if (!line) continue;
+
+    const totalMatch = line.match(TOTAL_LINE);
+    if (totalMatch) {
+      total = Number(totalMatch[1]);
+      break;
+    }
+    if (SKIP_WORDS.test(line)) {
+      pendingName = null;
+      continue;
+    }
+
+    const previous = lines[lines.length - 1];
+    const count = line.match(COUNT_LINE);
+    const weight = count ? null : line.match(WEIGHT_LINE);
+    if (count || weight) {
+      const amount = Number((count ?? weight)![1]);
+      const unitPrice = Number((count ?? weight)![count ? 2 : 3]);
+      const linePrice = Number((count ?? weight)![count ? 3 : 4] ?? 0) || amount * unitPrice;
+      const unit: QuantityUnit = weight ? (weight[2].toUpperCase() === 'KG' ? 'kg' : 'g') : 'pcs';
+      if (pendingName) {
+        const item = toReceiptLine(`${pendingName}\n${raw}`, pendingName, count ? amount : 1, linePrice);
+        lines.push(weight ? { ...item, quantity: amount, quantityUnit: unit } : item);
+        lastLineIndex = index;
+        pendingName = null;
+      } else if (previous && lastLineIndex === index - 1) {
+        // The item line showed the total; this line says how many made it up
+        previous.raw = `${previous.raw}\n${raw}`;
+        previous.quantity = weight ? amount : round(amount * previous.quantity);
+        previous.quantityUnit = weight ? unit : previous.quantityUnit;
+        previous.price = round(linePrice);
+        lastLineIndex = index;
+      }
+      continue;
+    }
+
+    const bareDiscount = line.match(BARE_DISCOUNT);
+    if (bareDiscount) {
+      if (previous) previous.price = Math.max(0, round(previous.price - Number(bareDiscount[1] ?? bareDiscount[2])));
+      continue;
+    }
+
+    const priced = line.match(PRICED_LINE);
+    if (priced) {
+      const [, label, leadingMinus, amount, trailingMinus] = priced;
+      if (leadingMinus || trailingMinus || DISCOUNT_WORDS.test(label)) {
+        if (previous) previous.price = Math.max(0, round(previous.price - Number(amount)));
+        continue;
+      }
+      lines.push(toReceiptLine(raw.trim(), label, 1, Number(amount)));
+      lastLineIndex = index;
+      pendingName = null;
+      continue;
+    }
+
+    // Names with no price are either header text or an item priced on the next line
+    pendingName = /[A-Za-z]{2}/.test(line) ? line : null;
+  }
+
+  return {
+    store: detectReceiptStore(text),
+    purchasedAt: parseReceiptDate(text),
+    lines: lines.filter(line => line.name),
+    total,
+  };
+};
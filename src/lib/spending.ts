@@ -0,0 +1,134 @@
+import { Purchase, QuantityUnit, UnitDimension } from '@/types';
+import { convertQuantity, getUnitDimension, normalizeUnit } from '@/lib/units';
+
+export interface SpendingMonthRow {
+  month: string;  // e.g. "Oct 26"
+  total: number;
+}
+
+export interface CategorySpend {
+  category: string;
+  total: number;
+}
+
+export interface TrackedProduct {
+  key: string;
+  name: string;
+  purchases: number;
+}
+
+export interface UnitPricePoint {
+  date: string;  // e.g. "18 Oct"
+  unitPrice: number;
+  store: string;
+}
+
+// Unit prices are quoted per kilo, per litre or per piece whatever size was bought
+const PRICE_UNITS: Record<UnitDimension, QuantityUnit> = {
+  mass: 'kg',
+  volume: 'L',
+  count: 'pcs',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const getMonthStart = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/**
+ * Purchases of one product share a key: its catalog id when known, otherwise its name.
+ */
+export const getPurchaseKey = (purchase: Purchase): string =>
+  purchase.productId ?? purchase.name.toLowerCase().trim();
+
+/**
+ * What one kilo, litre or piece cost in a purchase, or null if the quantity is unusable.
+ */
+export const getUnitPrice = (purchase: Purchase): { price: number; unit: QuantityUnit } | null => {
+  const unit = normalizeUnit(purchase.quantityUnit);
+  if (!unit || purchase.quantity <= 0) return null;
+  const priceUnit = PRICE_UNITS[getUnitDimension(unit)];
+  const amount = convertQuantity(purchase.quantity, unit, priceUnit);
+  return amount ? { price: purchase.price / amount, unit: priceUnit } : null;
+};
+
+/**
+ * Total spent per calendar month over the last `months` months, oldest first.
+ * Months with no purchases are kept so the axis has no gaps.
+ */
+export const summarizeSpendingByMonth = (
+  purchases: Purchase[],
+  months = 6,
+  now: Date = new Date()
+): SpendingMonthRow[] => {
+  const monthStarts = Array.from({ length: months }, (_, i) =>
+    new Date(now.getFullYear(), now.getMonth() - (months - 1 - i), 1)
+  );
+  const totals = new Map<number, number>();
+  for (const purchase of purchases) {
+    const month = getMonthStart(purchase.purchasedAt.toDate()).getTime();
+    totals.set(month, (totals.get(month) ?? 0) + purchase.price);
+  }
+
+  return monthStarts.map(start => ({
+    month: start.toLocaleDateString('en-GB', { month: 'short', year: '2-digit' }),
+    total: round(totals.get(start.getTime()) ?? 0)
+  }));
+};
+
+/**
+ * Total spent per category since `since`, biggest first.
+ */
+export const summarizeSpendingByCategory = (purchases: Purchase[], since: Date): CategorySpend[] => {
+  const totals = new Map<string, number>();
+  for (const purchase of purchases) {
+    if (purchase.purchasedAt.toDate() < since) continue;
+    const category = purchase.category || 'Uncategorized';
+    totals.set(category, (totals.get(category) ?? 0) + purchase.price);
+  }
+  return Array.from(totals, ([category, total]) => ({ category, total: round(total) }))
+    .sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Products that have been bought, most often bought first, named as last bought.
+ * Expects purchases newest first, as getPurchases returns them.
+ */
+export const getTrackedProducts = (purchases: Purchase[]): TrackedProduct[] => {
+  const products = new Map<string, TrackedProduct>();
+  for (const purchase of purchases) {
+    const key = getPurchaseKey(purchase);
+    const product = products.get(key) ?? { key, name: purchase.name, purchases: 0 };
+    product.purchases++;
+    products.set(key, product);
+  }
+  return Array.from(products.values())
+    .sort((a, b) => b.purchases - a.purchases || a.name.localeCompare(b.name));
+};
+
+/**
+ * Price per kilo, litre or piece of one product over time, oldest first. Purchases
+ * measured differently from the latest one (a pack vs. a weight) are left out.
+ */
+export const getUnitPriceTrend = (
+  purchases: Purchase[],
+  key: string
+): { unit: QuantityUnit | null; points: UnitPricePoint[] } => {
+  const matching = purchases
+    .filter(purchase => getPurchaseKey(purchase) === key)
+    .sort((a, b) => a.purchasedAt.toMillis() - b.purchasedAt.toMillis());
+  const priced = matching
+    .map(purchase => ({ purchase, unitPrice: getUnitPrice(purchase) }))
+    .filter(entry => entry.unitPrice !== null);
+  const unit = priced.length > 0 ? priced[priced.length - 1].unitPrice!.unit : null;
+
+  return {
+    unit,
+    points: priced
+      .filter(entry => entry.unitPrice!.unit === unit)
+      .map(({ purchase, unitPrice }) => ({
+        date: purchase.purchasedAt.toDate().toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+        unitPrice: round(unitPrice!.price),
+        store: purchase.store ?? 'Unknown store'
+      }))
+  };
+};
@@ -0,0 +1,77 @@
+import { ScrapedProduct, UnitPrice } from '@/types';
+
+export interface BestValue {
+  product: ScrapedProduct;
+  price: number;  // What one pack costs, counting multi-buy offers
+  unitPrice: UnitPrice | null;  // Null when the store is ranked on sticker price
+}
+
+interface StoreWithProducts {
+  hasItem: boolean;
+  products?: ScrapedProduct[];
+}
+
+const packPrice = (product: ScrapedProduct) => product.pricing?.effectivePrice ?? product.price;
+
+/**
+ * e.g. "$3.20 / L", "$0.45 / 100g", "$0.38 each"
+ */
+export const formatUnitPrice = ({ amount, per }: UnitPrice): string =>
+  per === 'each' ? `$${amount.toFixed(2)} each` : `$${amount.toFixed(2)} / ${per}`;
+
+/**
+ * The unit most products are priced in, so only like units are compared
+ * (a per-litre price never competes with a per-100 g one). Null when no
+ * product has a pack size.
+ */
+export const comparisonUnit = (products: ScrapedProduct[]): UnitPrice['per'] | null => {
+  const counts = new Map<UnitPrice['per'], number>();
+  for (const product of products) {
+    const per = product.pricing?.unitPrice?.per;
+    if (per) counts.set(per, (counts.get(per) ?? 0) + 1);
+  }
+  let best: UnitPrice['per'] | null = null;
+  for (const [per, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = per;
+  }
+  return best;
+};
+
+/**
+ * A store's best buy: the lowest unit price in `per`, or the lowest pack price
+ * when none of its products can be priced in that unit.
+ */
+export const findBestValue = (products: ScrapedProduct[], per: UnitPrice['per'] | null): BestValue | null => {
+  if (products.length === 0) return null;
+
+  const comparable = products.filter(product => per && product.pricing?.unitPrice?.per === per);
+  if (comparable.length > 0) {
+    const product = comparable.reduce((best, current) =>
+      current.pricing!.unitPrice!.amount < best.pricing!.unitPrice!.amount ? current : best
+    );
+    return { product, price: packPrice(product), unitPrice: product.pricing!.unitPrice };
+  }
+
+  const product = products.reduce((best, current) => (packPrice(current) < packPrice(best) ? current : best));
+  return { product, price: packPrice(product), unitPrice: null };
+};
+
+/**
+ * Stores ordered by true value: stores with a unit price in the shared unit
+ * first (cheapest first), then stores only comparable on pack price, then
+ * stores without the item. The order is otherwise left as the server sent it.
+ */
+export const rankStoresByValue = <T extends StoreWithProducts>(stores: T[]): Array<T & { bestValue: BestValue | null }> => {
+  const per = comparisonUnit(stores.flatMap(store => (store.hasItem ? store.products ?? [] : [])));
+  const tier = (bestValue: BestValue | null) => (bestValue === null ? 2 : bestValue.unitPrice ? 0 : 1);
+
+  return stores
+    .map(store => ({ ...store, bestValue: store.hasItem ? findBestValue(store.products ?? [], per) : null }))
+    .sort((a, b) => {
+      const byTier = tier(a.bestValue) - tier(b.bestValue);
+      if (byTier !== 0 || a.bestValue === null || b.bestValue === null) return byTier;
+      return a.bestValue.unitPrice && b.bestValue.unitPrice
+        ? a.bestValue.unitPrice.amount - b.bestValue.unitPrice.amount
+        : a.bestValue.price - b.bestValue.price;
+    });
+};
@@ -0,0 +1,271 @@
+import { Quantity, QuantityUnit, UnitDimension } from '@/types';
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  // Multiplier to the base unit of the dimension (g, ml or pcs)
+  toBase: number;
+}
+
+const UNIT_DEFINITIONS: Record<QuantityUnit, UnitDefinition> = {
+  mg: { dimension: 'mass', toBase: 0.001 },
+  g: { dimension: 'mass', toBase: 1 },
+  kg: { dimension: 'mass', toBase: 1000 },
+  oz: { dimension: 'mass', toBase: 28.3495 },
+  lb: { dimension: 'mass', toBase: 453.592 },
+  ml: { dimension: 'volume', toBase: 1 },
+  L: { dimension: 'volume', toBase: 1000 },
+  tsp: { dimension: 'volume', toBase: 5 },
+  tbsp: { dimension: 'volume', toBase: 15 },
+  cup: { dimension: 'volume', toBase: 240 },
+  pcs: { dimension: 'count', toBase: 1 },
+  dozen: { dimension: 'count', toBase: 12 },
+  // A pack is counted as a single piece unless we know better
+  pack: { dimension: 'count', toBase: 1 },
+};
+
+const BASE_UNITS: Record<UnitDimension, QuantityUnit> = {
+  mass: 'g',
+  volume: 'ml',
+  count: 'pcs',
+};
+
+// Free-text spellings seen in the Inventory form, AI webhook and recipe data
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  g: 'g', gm: 'g', gms: 'g', gram: 'g', grams: 'g', gr: 'g',
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  ml: 'ml', millilitre: 'ml', millilitres: 'ml', milliliter: 'ml', milliliters: 'ml',
+  l: 'L', litre: 'L', litres: 'L', liter: 'L', liters: 'L', ltr: 'L',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tbs: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cup: 'cup', cups: 'cup',
+  pc: 'pcs', pcs: 'pcs', piece: 'pcs', pieces: 'pcs', each: 'pcs', ea: 'pcs',
+  whole: 'pcs', unit: 'pcs', units: 'pcs', x: 'pcs',
+  clove: 'pcs', cloves: 'pcs', slice: 'pcs', slices: 'pcs',
+  dozen: 'dozen', doz: 'dozen',
+  pack: 'pack', packs: 'pack', packet: 'pack', packets: 'pack', pkt: 'pack',
+  box: 'pack', boxes: 'pack', bag: 'pack', bags: 'pack', can: 'pack', cans: 'pack',
+  bottle: 'pack', bottles: 'pack', jar: 'pack', jars: 'pack',
+};
+
+export interface IngredientProfile {
+  keywords: string[];
+  // Grams per millilitre, for mass <-> volume conversion
+  densityGPerMl?: number;
+  // Typical weight of a single piece, for count <-> mass conversion
+  pieceWeightG?: number;
+}
+
+// Approximate figures; good enough to tell "1 egg" from "a dozen eggs"
+export const INGREDIENT_PROFILES: IngredientProfile[] = [
+  { keywords: ['egg'], pieceWeightG: 50 },
+  { keywords: ['eggplant', 'brinjal'], pieceWeightG: 250 },
+  { keywords: ['milk'], densityGPerMl: 1.03 },
+  { keywords: ['water', 'stock', 'broth'], densityGPerMl: 1 },
+  { keywords: ['cream', 'yogurt', 'yoghurt'], densityGPerMl: 1.01 },
+  { keywords: ['oil'], densityGPerMl: 0.92 },
+  { keywords: ['butter'], densityGPerMl: 0.91 },
+  { keywords: ['soy sauce'], densityGPerMl: 1.2 },
+  { keywords: ['honey'], densityGPerMl: 1.42 },
+  { keywords: ['rice'], densityGPerMl: 0.85 },
+  { keywords: ['flour'], densityGPerMl: 0.53 },
+  { keywords: ['sugar'], densityGPerMl: 0.85 },
+  { keywords: ['salt'], densityGPerMl: 1.2 },
+  { keywords: ['oats'], densityGPerMl: 0.41 },
+  { keywords: ['garlic'], pieceWeightG: 5 },
+  { keywords: ['onion'], pieceWeightG: 150 },
+  { keywords: ['tomato'], pieceWeightG: 120 },
+  { keywords: ['potato'], pieceWeightG: 170 },
+  { keywords: ['carrot'], pieceWeightG: 60 },
+  { keywords: ['broccoli'], pieceWeightG: 300 },
+  { keywords: ['apple'], pieceWeightG: 180 },
+  { keywords: ['pineapple'], pieceWeightG: 1000 },
+  { keywords: ['banana'], pieceWeightG: 120 },
+  { keywords: ['lemon', 'lime'], pieceWeightG: 60 },
+  { keywords: ['bread'], pieceWeightG: 30 },
+  { keywords: ['chicken breast'], pieceWeightG: 200 },
+];
+
+/**
+ * Map a free-text unit ("grams", "Litre", "pc") onto a known unit.
+ * Returns null for anything we don't recognise.
+ */
+export const normalizeUnit = (raw: string | undefined | null): QuantityUnit | null => {
+  if (raw === undefined || raw === null) return null;
+  const key = raw.trim().toLowerCase().replace(/\.$/, '');
+  if (!key) return 'pcs';
+  if (key === 'l') return 'L';
+  return UNIT_ALIASES[key] ?? null;
+};
+
+export const getUnitDimension = (unit: QuantityUnit): UnitDimension => UNIT_DEFINITIONS[unit].dimension;
+
+/**
+ * Find the conversion profile for an ingredient by keyword.
+ * Longer keywords win so "soy sauce" is not mistaken for something else.
+ */
+export const getIngredientProfile = (name: string | undefined): IngredientProfile | null => {
+  if (!name) return null;
+  const lower = name.toLowerCase();
+  let best: IngredientProfile | null = null;
+  let bestLength = 0;
+  for (const profile of INGREDIENT_PROFILES) {
+    for (const keyword of profile.keywords) {
+      if (lower.includes(keyword) && keyword.length > bestLength) {
+        best = profile;
+        bestLength = keyword.length;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Parse a recipe or form amount: 2, "2", "1.5", "1/2", "1 1/2", "½", "2-3" (upper bound).
+ * Returns null when no number can be read.
+ */
+export const parseAmount = (value: string | number | undefined | null): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (!value) return null;
+
+  const fractions: Record<string, string> = { '½': ' 1/2', '⅓': ' 1/3', '⅔': ' 2/3', '¼': ' 1/4', '¾': ' 3/4' };
+  let text = value.trim();
+  for (const [glyph, replacement] of Object.entries(fractions)) {
+    text = text.split(glyph).join(replacement);
+  }
+
+  // Ranges like "2-3" or "2 to 3": plan for the larger amount
+  const range = text.split(/\s*(?:-|–|\bto\b)\s*/);
+  if (range.length > 1 && range[range.length - 1]) {
+    text = range[range.length - 1];
+  }
+
+  let total = 0;
+  let found = false;
+  for (const part of text.trim().split(/\s+/)) {
+    const fraction = part.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      const denominator = Number(fraction[2]);
+      if (denominator === 0) return null;
+      total += Number(fraction[1]) / denominator;
+      found = true;
+      continue;
+    }
+    const number = parseFloat(part);
+    if (isNaN(number)) break;
+    total += number;
+    found = true;
+  }
+
+  return found ? total : null;
+};
+
+const toGrams = (amount: number, unit: QuantityUnit, profile: IngredientProfile | null): number | null => {
+  const def = UNIT_DEFINITIONS[unit];
+  const base = amount * def.toBase;
+  if (def.dimension === 'mass') return base;
+  if (def.dimension === 'volume') return profile?.densityGPerMl ? base * profile.densityGPerMl : null;
+  return profile?.pieceWeightG ? base * profile.pieceWeightG : null;
+};
+
+const fromGrams = (grams: number, unit: QuantityUnit, profile: IngredientProfile | null): number | null => {
+  const def = UNIT_DEFINITIONS[unit];
+  if (def.dimension === 'mass') return grams / def.toBase;
+  if (def.dimension === 'volume') return profile?.densityGPerMl ? grams / profile.densityGPerMl / def.toBase : null;
+  return profile?.pieceWeightG ? grams / profile.pieceWeightG / def.toBase : null;
+};
+
+/**
+ * Convert an amount between units. Crossing dimensions (mass, volume, count)
+ * uses the ingredient's density or piece weight; returns null when that is unknown.
+ */
+export const convertQuantity = (
+  amount: number,
+  from: QuantityUnit,
+  to: QuantityUnit,
+  ingredientName?: string
+): number | null => {
+  if (from === to) return amount;
+  const fromDef = UNIT_DEFINITIONS[from];
+  const toDef = UNIT_DEFINITIONS[to];
+  if (fromDef.dimension === toDef.dimension) {
+    return (amount * fromDef.toBase) / toDef.toBase;
+  }
+
+  const profile = getIngredientProfile(ingredientName);
+  const grams = toGrams(amount, from, profile);
+  return grams === null ? null : fromGrams(grams, to, profile);
+};
+
+/**
+ * Express a quantity in a canonical unit for its ingredient so that two
+ * quantities of the same ingredient can be compared or summed.
+ * Grams when the ingredient can be weighed, otherwise the dimension's base unit.
+ */
+export const toCanonicalQuantity = (amount: number, unit: QuantityUnit, ingredientName?: string): Quantity => {
+  const grams = toGrams(amount, unit, getIngredientProfile(ingredientName));
+  if (grams !== null) return { amount: grams, unit: 'g' };
+  const def = UNIT_DEFINITIONS[unit];
+  return { amount: amount * def.toBase, unit: BASE_UNITS[def.dimension] };
+};
+
+/**
+ * Normalise a stored or free-text quantity/unit pair. Unknown units fall back
+ * to pieces so legacy rows still count as "some" stock.
+ */
+export const toQuantity = (amount: string | number | undefined, unit: string | undefined): Quantity | null => {
+  const parsed = parseAmount(amount);
+  if (parsed === null) return null;
+  return { amount: parsed, unit: normalizeUnit(unit) ?? 'pcs' };
+};
+
+/**
+ * Compare two quantities of the same ingredient.
+ * Returns negative/zero/positive like a sort comparator, or null if they can't be compared.
+ */
+export const compareQuantities = (a: Quantity, b: Quantity, ingredientName?: string): number | null => {
+  const converted = convertQuantity(b.amount, b.unit, a.unit, ingredientName);
+  if (converted === null) return null;
+  const diff = a.amount - converted;
+  // Absorb floating point noise from the conversions
+  return Math.abs(diff) < 1e-9 ? 0 : diff;
+};
+
+/**
+ * Sum quantities of one ingredient into its canonical unit.
+ * Quantities that can't be converted into the first one's unit are skipped.
+ */
+export const sumQuantities = (quantities: Quantity[], ingredientName?: string): Quantity | null => {
+  let total: Quantity | null = null;
+  for (const quantity of quantities) {
+    const canonical = toCanonicalQuantity(quantity.amount, quantity.unit, ingredientName);
+    if (!total) {
+      total = canonical;
+      continue;
+    }
+    const converted = convertQuantity(canonical.amount, canonical.unit, total.unit, ingredientName);
+    if (converted !== null) {
+      total = { amount: total.amount + converted, unit: total.unit };
+    }
+  }
+  return total;
+};
+
+/**
+ * Human-friendly rendering, scaling base units up where it reads better
+ * (1500 g -> "1.5 kg", 2000 ml -> "2 L").
+ */
+export const formatQuantity = (quantity: Quantity): string => {
+  let { amount, unit } = quantity;
+  if (unit === 'g' && amount >= 1000) {
+    amount = amount / 1000;
+    unit = 'kg';
+  } else if (unit === 'ml' && amount >= 1000) {
+    amount = amount / 1000;
+    unit = 'L';
+  }
+  const rounded = Math.round(amount * 100) / 100;
+  return `${rounded} ${unit}`;
+};
@@ -0,0 +1,76 @@
+import { WasteLogEntry } from '@/types';
+
+export interface WasteWeekRow {
+  week: string;  // Label for the Monday the week starts on, e.g. "13 Oct"
+  [category: string]: number | string;
+}
+
+/**
+ * Midnight on the Monday of the week containing `date`.
+ */
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  // getDay() is 0 on Sunday; shift so Monday is the first day
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+/**
+ * Count of wasted (expired/discarded) items per week and category over the last
+ * `weeks` weeks, oldest first, ready for a stacked bar chart. Weeks with no waste
+ * are kept so the axis has no gaps.
+ */
+export const summarizeWasteByWeek = (
+  entries: WasteLogEntry[],
+  weeks = 8,
+  now: Date = new Date()
+): { rows: WasteWeekRow[]; categories: string[] } => {
+  // Step back by calendar days rather than fixed milliseconds so DST shifts can't skew weeks
+  const weekStarts = Array.from({ length: weeks }, (_, i) => {
+    const start = getWeekStart(now);
+    start.setDate(start.getDate() - (weeks - 1 - i) * 7);
+    return start;
+  });
+  const firstWeek = weekStarts[0].getTime();
+  const counts = new Map<number, Map<string, number>>();
+  const categories = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.reason !== 'expired') continue;
+    const week = getWeekStart(entry.removedAt.toDate()).getTime();
+    if (week < firstWeek) continue;
+    const category = entry.category || 'Uncategorized';
+    categories.add(category);
+    const byCategory = counts.get(week) ?? new Map<string, number>();
+    byCategory.set(category, (byCategory.get(category) ?? 0) + 1);
+    counts.set(week, byCategory);
+  }
+
+  const sortedCategories = Array.from(categories).sort();
+  const rows: WasteWeekRow[] = [];
+  for (const weekStart of weekStarts) {
+    const row: WasteWeekRow = {
+      week: weekStart.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+    };
+    const byCategory = counts.get(weekStart.getTime());
+    for (const category of sortedCategories) {
+      row[category] = byCategory?.get(category) ?? 0;
+    }
+    rows.push(row);
+  }
+
+  return { rows, categories: sortedCategories };
+};
+
+/**
+ * Totals across the log: how many removals were waste and what that waste was worth.
+ */
+export const summarizeWaste = (entries: WasteLogEntry[]): { removed: number; wasted: number; wastedValue: number } => {
+  const wasted = entries.filter(entry => entry.reason === 'expired');
+  return {
+    removed: entries.length,
+    wasted: wasted.length,
+    wastedValue: Math.round(wasted.reduce((sum, entry) => sum + (entry.estimatedValue ?? 0), 0) * 100) / 100
+  };
+};
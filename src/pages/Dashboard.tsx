@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
-import { getInventory, seedSampleData } from '@/services/firebaseService';
-import { InventoryItem } from '@/types';
+import { getExpirySettings, getInventory, seedSampleData } from '@/services/firebaseService';
+import { getWasteLog } from '@/services/wasteLogService';
+import { InventoryItem, WasteLogEntry } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -20,14 +21,20 @@ import {
   Sparkles
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getEarliestExpiry, getItemLots } from '@/lib/lots';
+import { getItemStatus, isExpiringStatus } from '@/lib/expiryStatus';
+import WasteChart from '@/components/WasteChart';
 import { Timestamp } from 'firebase/firestore';
 
+// How often the Dashboard asks the server to refresh stored statuses
+const STATUS_RECOMPUTE_INTERVAL_MS = 60 * 60 * 1000;
 
 const Dashboard: React.FC = () => {
   const { user, userData } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [wasteLog, setWasteLog] = useState<WasteLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [seeding, setSeeding] = useState(false);
 
@@ -35,11 +42,40 @@ const Dashboard: React.FC = () => {
     loadInventory();
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    getWasteLog(user.uid)
+      .then(setWasteLog)
+      .catch(error => console.error('Error loading waste log:', error));
+  }, [user]);
+
+  // Ask the server to refresh stored statuses too, for views that read them as-is.
+  // The server's scheduled job covers everyone else, so once an hour per browser is plenty.
+  const requestStatusRecompute = async () => {
+    if (!user) return;
+    const storageKey = `statusRecomputeAt:${user.uid}`;
+    const lastRequested = Number(localStorage.getItem(storageKey) || 0);
+    if (Date.now() - lastRequested < STATUS_RECOMPUTE_INTERVAL_MS) return;
+    localStorage.setItem(storageKey, String(Date.now()));
+    try {
+      const idToken = await user.getIdToken();
+      await fetch('/api/inventory/recompute', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${idToken}` }
+      });
+    } catch (error) {
+      console.warn('Status recompute request failed:', error);
+    }
+  };
+
   const loadInventory = async () => {
     if (!user) return;
     try {
-      const items = await getInventory(user.uid);
-      setInventory(items);
+      requestStatusRecompute();
+
+      const [items, settings] = await Promise.all([getInventory(user.uid), getExpirySettings(user.uid)]);
+      // Stored statuses can be stale; recompute them under the user's current rules
+      setInventory(items.map(item => ({ ...item, status: getItemStatus(item, settings) })));
     } catch (error) {
       console.error('Error loading inventory:', error);
     } finally {
@@ -69,9 +105,12 @@ const Dashboard: React.FC = () => {
   };
 
   const totalItems = inventory.length;
-  const expiringItems = inventory.filter(i => i.status === 'expiringSoon' || i.status === 'almostExpired');
+  const expiringItems = inventory.filter(i => isExpiringStatus(i.status));
   const lowStockItems = inventory.filter(i => i.isLowStock);
-  const useSoonItems = inventory.filter(i => i.status === 'almostExpired');
+  // Already expired items are listed first so they get dealt with
+  const useSoonItems = inventory
+    .filter(i => i.status === 'almostExpired' || i.status === 'expired')
+    .sort((a, b) => Number(b.status === 'expired') - Number(a.status === 'expired'));
 
   const formatDate = (date: Date | Timestamp) => {
     const d = date instanceof Timestamp ? date.toDate() : date;
@@ -98,6 +137,7 @@ const Dashboard: React.FC = () => {
       case 'fresh': return 'status-fresh';
       case 'expiringSoon': return 'status-expiring';
       case 'almostExpired': return 'status-expired';
+      case 'expired': return 'bg-destructive text-destructive-foreground';
       default: return '';
     }
   };
@@ -202,11 +242,12 @@ const Dashboard: React.FC = () => {
                         <p className="font-medium text-foreground">{item.name}</p>
                         <p className="text-sm text-muted-foreground">
                           {item.quantity} {item.quantityUnit}
+                          {getItemLots(item).length > 1 && ` · ${getItemLots(item).length} batches`}
                         </p>
                       </div>
                     </div>
                     <Badge className={cn('text-xs', getStatusColor(item.status))}>
-                      {formatDate(item.expiryDate)}
+                      {formatDate(getEarliestExpiry(item))}
                     </Badge>
                   </div>
                 ))}
@@ -282,6 +323,9 @@ const Dashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Waste Report */}
+      <WasteChart entries={wasteLog} />
+
       {/* Quick Actions */}
       <Card className="magnet-card">
         <CardHeader>
@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getActiveHouseholdId,
+  getHousehold,
+  getHouseholdRole,
+  joinHousehold,
+  leaveHousehold,
+  regenerateInviteCode,
+  removeHouseholdMember,
+  renameHousehold
+} from '@/services/householdService';
+import { Household as HouseholdData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Copy, Home, Loader2, LogOut, RefreshCw, UserMinus, Users } from 'lucide-react';
+
+const Household: React.FC = () => {
+  const { user, userData } = useAuth();
+  const { toast } = useToast();
+  const [household, setHousehold] = useState<HouseholdData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [name, setName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [bringItems, setBringItems] = useState(true);
+
+  const userName = userData?.name || user?.displayName || user?.email || 'Member';
+  const role = household && user ? getHouseholdRole(household, user.uid) : null;
+
+  const loadHousehold = useCallback(async () => {
+    if (!user) return;
+    try {
+      const householdId = await getActiveHouseholdId(user.uid);
+      const result = await getHousehold(householdId);
+      setHousehold(result);
+      setName(result?.name || '');
+    } catch (error) {
+      console.error('Error loading household:', error);
+      toast({ title: 'Error', description: 'Failed to load your household.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadHousehold();
+  }, [loadHousehold]);
+
+  // Run a household action, report failures and reload afterwards
+  const runAction = async (action: () => Promise<void>, successTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: successTitle });
+      await loadHousehold();
+    } catch (error) {
+      toast({
+        title: 'Something went wrong',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyCode = async () => {
+    if (!household) return;
+    await navigator.clipboard.writeText(household.inviteCode);
+    toast({ title: 'Invite code copied' });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-bold">Household</h1>
+        <p className="text-muted-foreground">Share your inventory, recipes and shopping lists with flatmates</p>
+      </div>
+
+      {household && (
+        <Card className="magnet-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 font-display">
+              <Home className="h-5 w-5 text-primary" />
+              {household.name}
+              {role && <Badge variant="outline" className="capitalize">{role}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {role === 'owner' && (
+              <div className="flex gap-2">
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Household name" />
+                <Button
+                  variant="outline"
+                  disabled={busy || !name.trim() || name.trim() === household.name}
+                  onClick={() => runAction(() => renameHousehold(household.id!, name), 'Household renamed')}
+                >
+                  Rename
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Members
+              </Label>
+              {household.memberIds.map((memberId) => (
+                <div key={memberId} className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{household.memberNames[memberId] || 'Member'}</span>
+                    {memberId === user?.uid && <span className="text-xs text-muted-foreground">(you)</span>}
+                    <Badge variant="secondary" className="capitalize">
+                      {getHouseholdRole(household, memberId)}
+                    </Badge>
+                  </div>
+                  {role === 'owner' && memberId !== household.ownerId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      disabled={busy}
+                      onClick={() => runAction(() => removeHouseholdMember(household, memberId), 'Member removed')}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Invite code</Label>
+              <div className="flex items-center gap-2">
+                <code className="rounded-lg bg-muted px-4 py-2 font-mono text-lg tracking-widest">
+                  {household.inviteCode}
+                </code>
+                <Button variant="outline" size="icon" onClick={handleCopyCode}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {role === 'owner' && (
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    disabled={busy}
+                    onClick={() => runAction(async () => { await regenerateInviteCode(household); }, 'New invite code created')}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    New code
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Anyone with this code can join and edit your household's inventory.
+              </p>
+            </div>
+
+            {role === 'member' && (
+              <Button
+                variant="outline"
+                className="gap-2 text-destructive hover:text-destructive"
+                disabled={busy}
+                onClick={() => {
+                  if (!confirm('Leave this household? Items you added will stay with it.')) return;
+                  runAction(async () => { await leaveHousehold(user!.uid, userName); }, 'You left the household');
+                }}
+              >
+                <LogOut className="h-4 w-4" />
+                Leave household
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="magnet-card">
+        <CardHeader>
+          <CardTitle className="font-display">Join another household</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="Invite code"
+              className="font-mono tracking-widest"
+              maxLength={6}
+            />
+            <Button
+              disabled={busy || joinCode.trim().length === 0}
+              onClick={() => runAction(async () => {
+                await joinHousehold(user!.uid, userName, joinCode, bringItems);
+                setJoinCode('');
+              }, 'Joined household')}
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Join'}
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="bringItems"
+              checked={bringItems}
+              onCheckedChange={(checked) => setBringItems(checked === true)}
+            />
+            <Label htmlFor="bringItems" className="text-sm font-normal">
+              Bring the items and recipes I added with me
+            </Label>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Household;
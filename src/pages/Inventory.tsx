@@ -3,12 +3,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import {
   getInventory,
   addInventoryItem,
+  addInventoryLot,
   updateInventoryItem,
-  deleteInventoryItem,
   getProducts,
-  createProduct
+  createProduct,
+  getExpirySettings
 } from '@/services/firebaseService';
-import { InventoryItem, Product } from '@/types';
+import { getActiveHouseholdId } from '@/services/householdService';
+import { recordPurchases } from '@/services/purchaseService';
+import { ExpirySettings, ImageDetection, InventoryItem, InventoryStatus, Product, QuantityUnit } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -17,6 +20,8 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { usePendingWrites } from '@/hooks/usePendingWrites';
+import { getPendingDocIds } from '@/services/syncQueue';
 import { Timestamp } from 'firebase/firestore';
 import {
   Plus,
@@ -27,10 +32,23 @@ import {
   Snowflake,
   Archive,
   Package,
-  Search
+  Search,
+  CloudOff,
+  ScanLine,
+  ReceiptText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { convertQuantity, normalizeUnit } from '@/lib/units';
+import { getItemLots } from '@/lib/lots';
+import { DEFAULT_EXPIRY_SETTINGS, getItemStatus } from '@/lib/expiryStatus';
+import { getProductDefaults } from '@/lib/putAway';
 import InventoryImageUpload from '@/components/InventoryImageUpload';
+import ExpirySettingsDialog from '@/components/ExpirySettingsDialog';
+import RemoveItemDialog from '@/components/RemoveItemDialog';
+import BarcodeLookup from '@/components/BarcodeLookup';
+import ScanItemsDialog from '@/components/ScanItemsDialog';
+import DetectionReviewDialog from '@/components/DetectionReviewDialog';
+import ReceiptImportDialog from '@/components/ReceiptImportDialog';
 
 const Inventory: React.FC = () => {
   const { user } = useAuth();
@@ -39,27 +57,37 @@ const Inventory: React.FC = () => {
   // ------------------------- STATE -------------------------
   const [products, setProducts] = useState<Product[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [expirySettings, setExpirySettings] = useState<ExpirySettings>(DEFAULT_EXPIRY_SETTINGS);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'fridge' | 'freezer' | 'pantry'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedProductId, setSelectedProductId] = useState<string | 'new' | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [isProductSelectOpen, setIsProductSelectOpen] = useState(false);
+  const [isScanOpen, setIsScanOpen] = useState(false);
+  const [isReceiptOpen, setIsReceiptOpen] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [removingItem, setRemovingItem] = useState<InventoryItem | null>(null);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const { pendingWrites } = usePendingWrites();
+  const pendingIds = getPendingDocIds('inventory', pendingWrites);
+  const allSynced = pendingIds.size === 0;
   const [formData, setFormData] = useState({
     name: '',
     brand: '',
     category: '',
     quantity: 1,
-    quantityUnit: 'pcs',
+    quantityUnit: 'pcs' as QuantityUnit,
     expiryDate: new Date().toISOString().split('T')[0],
     storage: 'fridge' as 'fridge' | 'freezer' | 'pantry',
     reorderThreshold: 2,
     defaultShelfLifeDays: undefined as number | undefined,
+    barcode: '',
+    price: '',
+    store: '',
   });
-  const [previousInventoryCount, setPreviousInventoryCount] = useState(0);
+  const [detection, setDetection] = useState<ImageDetection | null>(null);
 
   // ------------------------- MEMO: PRODUCT FILTER -------------------------
   const userProducts = products.filter(
@@ -76,7 +104,10 @@ const Inventory: React.FC = () => {
       expiryDate: new Date().toISOString().split('T')[0],
       storage: 'fridge',
       reorderThreshold: 2,
-      defaultShelfLifeDays: undefined
+      defaultShelfLifeDays: undefined,
+      barcode: '',
+      price: '',
+      store: ''
     });
     setEditingItem(null);
     setSelectedProductId(null);
@@ -91,6 +122,15 @@ const Inventory: React.FC = () => {
     if (user) loadProducts();
   }, [user]);
 
+  // Once queued edits have synced, reload to pick up how they merged with other devices
+  useEffect(() => {
+    if (user && allSynced && !loading) loadInventory();
+  }, [allSynced]);
+
+  useEffect(() => {
+    if (user) getExpirySettings(user.uid).then(setExpirySettings);
+  }, [user]);
+
   const loadInventory = async () => {
     try {
       const items = await getInventory(user!.uid);
@@ -122,17 +162,23 @@ const Inventory: React.FC = () => {
       const expiryDate = item.expiryDate instanceof Timestamp
         ? item.expiryDate.toDate()
         : item.expiryDate;
+      const unit = normalizeUnit(item.quantityUnit) ?? 'pcs';
+      const threshold = item.reorderThreshold ?? 2;
+      const thresholdUnit = normalizeUnit(item.reorderThresholdUnit) ?? unit;
 
       setFormData({
         name: item.name,
         brand: '',
         category: item.category,
         quantity: item.quantity,
-        quantityUnit: item.quantityUnit,
+        quantityUnit: unit,
         expiryDate: expiryDate.toISOString().split('T')[0],
         storage: item.storage,
-        reorderThreshold: item.reorderThreshold ?? 2,
-        defaultShelfLifeDays: undefined
+        reorderThreshold: convertQuantity(threshold, thresholdUnit, unit, item.name) ?? threshold,
+        defaultShelfLifeDays: undefined,
+        barcode: '',
+        price: '',
+        store: ''
       });
 
       setSelectedProductId(item.productId || null);
@@ -146,6 +192,39 @@ const Inventory: React.FC = () => {
     setIsProductSelectOpen(true);
   };
 
+  // Start the Add Item form from a catalog product, picked from the list or by barcode
+  const handleSelectProduct = (prod: Product) => {
+    const defaults = getProductDefaults(prod);
+    setIsProductSelectOpen(false);
+    setSelectedProduct(prod);
+    setSelectedProductId(prod.id);
+    setFormData({
+      name: prod.name,
+      brand: prod.brand || '',
+      category: prod.category || '',
+      quantity: defaults.quantity,
+      quantityUnit: defaults.quantityUnit,
+      expiryDate: defaults.expiryDate.toISOString().split('T')[0],
+      storage: defaults.storage,
+      reorderThreshold: 2,
+      defaultShelfLifeDays: prod.defaultShelfLifeDays,
+      barcode: prod.barcode || '',
+      price: '',
+      store: ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  // Unknown barcode: create the product so the next scan finds it
+  const handleUnknownBarcode = (barcode: string) => {
+    setIsProductSelectOpen(false);
+    resetForm();
+    setFormData(prev => ({ ...prev, barcode }));
+    setSelectedProduct(null);
+    setSelectedProductId('new');
+    setIsDialogOpen(true);
+  };
+
   // ------------------------- SAVE ITEM -------------------------
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -197,6 +276,7 @@ const Inventory: React.FC = () => {
           name: formData.name,
           brand: formData.brand,
           category: formData.category,
+          barcode: formData.barcode || undefined,
           defaultShelfLifeDays: formData.defaultShelfLifeDays,
           source: 'manual',
           createdBy: user.uid
@@ -216,7 +296,8 @@ const Inventory: React.FC = () => {
         quantityUnit: formData.quantityUnit,
         expiryDate: Timestamp.fromDate(new Date(formData.expiryDate)),
         storage: formData.storage,
-        reorderThreshold: formData.reorderThreshold ?? 2
+        reorderThreshold: formData.reorderThreshold ?? 2,
+        reorderThresholdUnit: formData.quantityUnit
       };
 
       if (editingItem) {
@@ -226,11 +307,51 @@ const Inventory: React.FC = () => {
           description: 'Your inventory has been updated successfully.'
         });
       } else {
-        await addInventoryItem(itemData);
-        toast({ 
-          title: 'Item added!',
-          description: 'New item added to your inventory.'
-        });
+        // Another purchase of something already on the shelf becomes a new lot on that row
+        const existing = inventory.find(item =>
+          (productId && item.productId === productId) ||
+          item.name.toLowerCase().trim() === formData.name.toLowerCase().trim()
+        );
+        const lotQuantity = existing
+          ? convertQuantity(formData.quantity, formData.quantityUnit, normalizeUnit(existing.quantityUnit) ?? 'pcs', existing.name)
+          : null;
+
+        let inventoryItemId: string;
+        if (existing && lotQuantity !== null) {
+          await addInventoryLot(existing.id!, {
+            quantity: lotQuantity,
+            expiryDate: itemData.expiryDate
+          });
+          inventoryItemId = existing.id!;
+          toast({
+            title: 'Batch added!',
+            description: `Added a new batch to your existing ${existing.name}.`
+          });
+        } else {
+          inventoryItemId = await addInventoryItem(itemData);
+          toast({ 
+            title: 'Item added!',
+            description: 'New item added to your inventory.'
+          });
+        }
+
+        const price = parseFloat(formData.price);
+        if (isFinite(price) && price >= 0) {
+          recordPurchases([{
+            userId: user.uid,
+            householdId: existing?.householdId ?? await getActiveHouseholdId(user.uid),
+            inventoryItemId,
+            ...(productId ? { productId } : {}),
+            name: formData.name,
+            category: formData.category || 'Uncategorized',
+            quantity: formData.quantity,
+            quantityUnit: formData.quantityUnit,
+            price: Math.round(price * 100) / 100,
+            ...(formData.store.trim() ? { store: formData.store.trim() } : {}),
+            source: 'manual',
+            purchasedAt: Timestamp.now()
+          }]);
+        }
       }
 
       await loadInventory();
@@ -250,23 +371,9 @@ const Inventory: React.FC = () => {
   };
 
   // ------------------------- DELETE -------------------------
-  const handleDelete = async (id: string) => {
-    if (!confirm('Delete this item?')) return;
-    try {
-      await deleteInventoryItem(id);
-      await loadInventory();
-      toast({ 
-        title: 'Deleted',
-        description: 'Item has been removed from your inventory.'
-      });
-    } catch (error: any) {
-      console.error('Delete error:', error);
-      toast({
-        title: 'Delete failed',
-        description: error?.message || 'Please try again.',
-        variant: 'destructive'
-      });
-    }
+  // Removal goes through RemoveItemDialog so the reason is recorded in the waste log
+  const handleDelete = (item: InventoryItem) => {
+    setRemovingItem(item);
   };
 
   // -------------------- FILTERING --------------------
@@ -289,9 +396,16 @@ const Inventory: React.FC = () => {
     });
   };
 
-  const getDaysUntilExpiry = (date: Date | Timestamp) => {
-    const d = date instanceof Timestamp ? date.toDate() : date;
-    return Math.ceil((d.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+  // Worked out on render so rule changes and the passing of time show without a rewrite
+  const getStatus = (item: InventoryItem): InventoryStatus => getItemStatus(item, expirySettings);
+
+  const getExpiryColor = (status: InventoryStatus) => {
+    switch (status) {
+      case 'expired':
+      case 'almostExpired': return 'text-expired';
+      case 'expiringSoon': return 'text-expiring';
+      default: return 'text-fresh';
+    }
   };
 
   const getStorageIcon = (s: string) => {
@@ -303,11 +417,12 @@ const Inventory: React.FC = () => {
     }
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: InventoryStatus) => {
     switch (status) {
       case 'fresh': return <Badge className="status-fresh">Fresh</Badge>;
       case 'expiringSoon': return <Badge className="status-expiring">Expiring</Badge>;
       case 'almostExpired': return <Badge className="status-expired">Use Now</Badge>;
+      case 'expired': return <Badge variant="destructive">Expired</Badge>;
       default: return null;
     }
   };
@@ -340,6 +455,15 @@ const Inventory: React.FC = () => {
           <p className="text-muted-foreground">Manage your kitchen inventory</p>
         </div>
 
+        <ExpirySettingsDialog settings={expirySettings} onSaved={setExpirySettings} />
+
+        <RemoveItemDialog
+          item={removingItem}
+          defaultReason={removingItem && getStatus(removingItem) === 'expired' ? 'expired' : 'consumed'}
+          onOpenChange={(open) => !open && setRemovingItem(null)}
+          onRemoved={loadInventory}
+        />
+
         {/* PRODUCT SELECTION DIALOG */}
         <Dialog open={isProductSelectOpen} onOpenChange={setIsProductSelectOpen}>
           <DialogTrigger asChild>
@@ -354,30 +478,27 @@ const Inventory: React.FC = () => {
               <DialogTitle>Select a Product</DialogTitle>
             </DialogHeader>
 
+            <BarcodeLookup onFound={handleSelectProduct} onNotFound={handleUnknownBarcode} />
+
+            <Button
+              variant="secondary"
+              className="w-full gap-2"
+              onClick={() => {
+                setIsProductSelectOpen(false);
+                setIsScanOpen(true);
+              }}
+            >
+              <ScanLine className="h-4 w-4" />
+              Scan barcodes with camera
+            </Button>
+
             <div className="space-y-2">
               {userProducts.map((prod) => (
                 <Button
                   key={prod.id}
                   variant="ghost"
                   className="w-full flex flex-col items-start text-left border-b"
-                  onClick={() => {
-                    setIsProductSelectOpen(false);
-                    setSelectedProduct(prod);
-                    setSelectedProductId(prod.id);
-                    setFormData({
-                      name: prod.name,
-                      brand: prod.brand || '',
-                      category: prod.category || '',
-                      quantity: 1,
-                      quantityUnit: 'pcs',
-                      expiryDate: '',
-                      storage:
-                        prod.defaultShelfLifeDays !== undefined ? 'fridge' : 'fridge',
-                      reorderThreshold: 2,
-                      defaultShelfLifeDays: prod.defaultShelfLifeDays
-                    });
-                    setIsDialogOpen(true);
-                  }}
+                  onClick={() => handleSelectProduct(prod)}
                 >
                   <span className="font-semibold">{prod.name}</span>
                   <span className="text-xs text-muted-foreground">
@@ -404,6 +525,17 @@ const Inventory: React.FC = () => {
           </DialogContent>
         </Dialog>
 
+        {/* CONTINUOUS BARCODE SCANNING */}
+        <ScanItemsDialog
+          open={isScanOpen}
+          inventory={inventory}
+          onOpenChange={setIsScanOpen}
+          onSaved={() => {
+            loadInventory();
+            loadProducts();
+          }}
+        />
+
         {/* ADD/EDIT ITEM DIALOG */}
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogContent className="bg-card sm:max-w-md">
@@ -446,6 +578,16 @@ const Inventory: React.FC = () => {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="barcode">Barcode</Label>
+                    <Input
+                      id="barcode"
+                      inputMode="numeric"
+                      value={formData.barcode}
+                      onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="defaultShelfLifeDays">
                       Default Shelf Life (days)
@@ -487,7 +629,7 @@ const Inventory: React.FC = () => {
                   <Label>Unit</Label>
                   <Select
                     value={formData.quantityUnit}
-                    onValueChange={(value) =>
+                    onValueChange={(value: QuantityUnit) =>
                       setFormData({ ...formData, quantityUnit: value })
                     }
                   >
@@ -517,6 +659,12 @@ const Inventory: React.FC = () => {
                   }
                   required
                 />
+                {editingItem && getItemLots(editingItem).length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    This item has {getItemLots(editingItem).length} batches. The date applies to the
+                    earliest batch, and quantity changes use up the oldest batch first.
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -550,6 +698,32 @@ const Inventory: React.FC = () => {
                 </Select>
               </div>
 
+              {!editingItem && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="price">Price Paid (optional)</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="$"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="store">Store (optional)</Label>
+                    <Input
+                      id="store"
+                      placeholder="e.g. FairPrice"
+                      value={formData.store}
+                      onChange={(e) => setFormData({ ...formData, store: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="reorderThreshold">Low Stock Threshold</Label>
                 <Input
@@ -565,7 +739,7 @@ const Inventory: React.FC = () => {
                   }
                 />
                 <p className="text-xs text-muted-foreground">
-                  Notify when quantity falls below this threshold
+                  Notify when quantity falls below this threshold (in {formData.quantityUnit})
                 </p>
               </div>
 
@@ -598,44 +772,38 @@ const Inventory: React.FC = () => {
       <div className="space-y-4">
         <div>
           <h2 className="font-display text-2xl font-semibold">Add Items by Image</h2>
-          <p className="text-muted-foreground">Upload a photo to detect items using AI</p>
+          <p className="text-muted-foreground">Upload a photo to detect items using AI, or import a supermarket receipt</p>
         </div>
         <InventoryImageUpload
-          onUploadStart={() => {
-            setPreviousInventoryCount(inventory.length);
-          }}
-          onUploadComplete={async (success, errorMessage) => {
-            if (success) {
-              // Wait 15 seconds for processing
-              await new Promise(resolve => setTimeout(resolve, 15000));
-              
-              // Reload inventory
-              await loadInventory();
-              
-              // Check if items were added
-              const newInventory = await getInventory(user!.uid);
-              const currentCount = newInventory.length;
-              if (currentCount > previousInventoryCount) {
-                toast({
-                  title: 'Success!',
-                  description: `Added ${currentCount - previousInventoryCount} item${currentCount - previousInventoryCount !== 1 ? 's' : ''} to your inventory.`,
-                });
-              } else {
-                toast({
-                  title: 'No new items detected',
-                  description: 'Try uploading a clearer photo or add items manually.',
-                  variant: 'destructive',
-                });
-              }
+          onDetected={(result) => {
+            if (result.items.length > 0) {
+              setDetection(result);
             } else {
               toast({
-                title: 'Failed to process image',
-                description: errorMessage || 'Please try again.',
+                title: 'No items detected',
+                description: 'Try uploading a clearer photo or add items manually.',
                 variant: 'destructive',
               });
             }
           }}
         />
+        <DetectionReviewDialog
+          detection={detection}
+          inventory={inventory}
+          onOpenChange={(open) => !open && setDetection(null)}
+          onSaved={loadInventory}
+        />
+        <Button variant="outline" className="gap-2" onClick={() => setIsReceiptOpen(true)}>
+          <ReceiptText className="h-4 w-4" />
+          Import a receipt
+        </Button>
+        <ReceiptImportDialog
+          open={isReceiptOpen}
+          products={products}
+          inventory={inventory}
+          onOpenChange={setIsReceiptOpen}
+          onImported={loadInventory}
+        />
       </div>
 
       {/* FILTERS */}
@@ -715,13 +883,19 @@ const Inventory: React.FC = () => {
                     </div>
 
                     <div className="mb-3 flex flex-wrap gap-2">
-                      {getStatusBadge(item.status)}
+                      {getStatusBadge(getStatus(item))}
                       <Badge variant="outline" className="text-xs">
                         {item.category}
                       </Badge>
                       {item.isLowStock && (
                         <Badge className="status-expiring text-xs">Low Stock</Badge>
                       )}
+                      {pendingIds.has(item.id!) && (
+                        <Badge variant="outline" className="gap-1 text-xs text-muted-foreground">
+                          <CloudOff className="h-3 w-3" />
+                          Pending sync
+                        </Badge>
+                      )}
                     </div>
 
                     <div className="space-y-1 text-sm text-muted-foreground">
@@ -737,16 +911,22 @@ const Inventory: React.FC = () => {
                         <span
                           className={cn(
                             'font-medium',
-                            getDaysUntilExpiry(item.expiryDate) <= 2
-                              ? 'text-expired'
-                              : getDaysUntilExpiry(item.expiryDate) <= 5
-                              ? 'text-expiring'
-                              : 'text-fresh'
+                            getExpiryColor(getStatus(item))
                           )}
                         >
                           {formatDate(item.expiryDate)}
                         </span>
                       </p>
+
+                      {getItemLots(item).length > 1 && (
+                        <ul className="pt-1 text-xs">
+                          {getItemLots(item).map((lot) => (
+                            <li key={lot.batchId}>
+                              {lot.quantity} {item.quantityUnit} · expires {formatDate(lot.expiryDate)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
 
@@ -762,7 +942,7 @@ const Inventory: React.FC = () => {
                       variant="ghost"
                       size="icon"
                       className="text-destructive hover:text-destructive"
-                      onClick={() => handleDelete(item.id!)}
+                      onClick={() => handleDelete(item)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
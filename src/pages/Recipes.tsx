@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { getRecommendedRecipes, saveRecipe, getSavedRecipes, getRecipes, unsaveRecipe } from '@/services/firebaseService';
+import { getRecommendedRecipes, saveRecipe, getSavedRecipes, unsaveRecipe } from '@/services/firebaseService';
 import { generateRecipes, saveRecipes, fetchAIGeneratedRecipes, testWebhookConnection } from '@/services/aiRecipeService';
 import { RecipeWithScore, SavedRecipe, AIGeneratedRecipe } from '@/types';
 import { Button } from '@/components/ui/button';
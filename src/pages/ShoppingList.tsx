@@ -1,19 +1,48 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { getRecommendedRecipes, getSavedRecipes, getInventory, getSmartSuggestions } from '@/services/firebaseService';
+import { getRecommendedRecipes, getSavedRecipes, getInventory, getSmartSuggestions, buildInventoryStock, getIngredientCoverage } from '@/services/firebaseService';
 import { fetchAIGeneratedRecipes } from '@/services/aiRecipeService';
-import { RecipeWithScore, AIGeneratedRecipe, InventoryItem, StoreProductWithStore } from '@/types';
+import { getActiveHouseholdId } from '@/services/householdService';
+import {
+  DEFAULT_LIST_NAME,
+  ShoppingListItemDraft,
+  addShoppingListItems,
+  clearShoppingList,
+  createShoppingList,
+  deleteShoppingList,
+  removeShoppingListItem,
+  renameShoppingList,
+  setShoppingListItemChecked,
+  subscribeToShoppingListItems,
+  subscribeToShoppingLists,
+  updateShoppingListItem
+} from '@/services/shoppingListService';
+import {
+  RecipeWithScore,
+  AIGeneratedRecipe,
+  InventoryItem,
+  StoreProductWithStore,
+  Ingredient,
+  Quantity,
+  ShoppingList as ShoppingListData,
+  ShoppingListItem
+} from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
+import PutAwayDialog from '@/components/PutAwayDialog';
+import BasketPlanner from '@/components/BasketPlanner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { usePendingWrites } from '@/hooks/usePendingWrites';
+import { getPendingDocIds } from '@/services/syncQueue';
 import {
   ShoppingCart,
   Loader2,
   Check,
+  CloudOff,
   Trash2,
   ChefHat,
   AlertCircle,
@@ -22,26 +51,18 @@ import {
   Lightbulb,
   TrendingDown,
   Edit2,
+  PackageCheck,
+  Plus,
   X
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface ShoppingItem {
-  ingredient: string;
-  recipes: string[]; // which recipes need this
-  hasInInventory: boolean;
-  inventoryQuantity?: string;
-  quantity: number; // editable quantity for estimates
-  checked: boolean;
-  isEditing?: boolean;
-  editValue?: string;
-}
+import { formatQuantity, sumQuantities, toQuantity } from '@/lib/units';
 
 interface SelectedRecipe {
   id: string;
   name: string;
   type: 'ai' | 'regular';
-  ingredients: string[];
+  ingredients: (string | Ingredient)[];
 }
 
 const ShoppingList: React.FC = () => {
@@ -52,70 +73,69 @@ const ShoppingList: React.FC = () => {
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedRecipes, setSelectedRecipes] = useState<SelectedRecipe[]>([]);
-  const [shoppingItems, setShoppingItems] = useState<ShoppingItem[]>([]);
+  const [householdId, setHouseholdId] = useState<string | null>(null);
+  const [lists, setLists] = useState<ShoppingListData[]>([]);
+  const [activeListId, setActiveListId] = useState<string | null>(null);
+  const [shoppingItems, setShoppingItems] = useState<ShoppingListItem[]>([]);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [suggestions, setSuggestions] = useState<{ [ingredient: string]: StoreProductWithStore[] }>({});
   const [loadingSuggestions, setLoadingSuggestions] = useState(false);
   const [selectedItemForSuggestion, setSelectedItemForSuggestion] = useState<string | null>(null);
   const [estimating, setEstimating] = useState(false);
-  
-  // Create API functions for bot to manipulate shopping list
-  const shoppingListApi = {
-    removeItem: (ingredient: string) => {
-      console.log(`Bot requested to remove: ${ingredient}`);
-      removeItem(ingredient);
-    },
-    addItem: (ingredient: string) => {
-      console.log(`Bot requested to add: ${ingredient}`);
-      setShoppingItems(prev => [...prev, {
-        ingredient: ingredient.trim(),
-        recipes: [],
-        hasInInventory: false,
-        quantity: 1,
-        checked: false
-      }]);
-    },
-
-
-    updateItem: (ingredient: string, newIngredient: string) => {
-      console.log(`Bot requested to update: ${ingredient} -> ${newIngredient}`);
-      setShoppingItems(prev =>
-        prev.map(item =>
-          item.ingredient === ingredient
-            ? { ...item, ingredient: newIngredient.trim() }
-            : item
-        )
-      );
-    },
-    clearList: () => {
-      console.log('Bot requested to clear list');
-      clearList();
-    },
-    getList: () => {
-      return shoppingItems.map(item => ({
-        ingredient: item.ingredient,
-        recipes: item.recipes,
-        hasInInventory: item.hasInInventory,
-        quantity: item.quantity,
-        checked: item.checked
-      }));
-    }
-  };
+  const [putAwayOpen, setPutAwayOpen] = useState(false);
+  const creatingDefaultList = useRef(false);
 
-  /* Botpress integration removed — webchat initialization omitted. */
+  const activeList = lists.find(list => list.id === activeListId);
+  const { pendingWrites } = usePendingWrites();
+  const pendingIds = getPendingDocIds('shoppingListItems', pendingWrites);
 
   useEffect(() => {
     loadData();
   }, [user]);
 
+  // Keep the household's lists in sync, and make sure there is always one to add to
+  useEffect(() => {
+    if (!user || !householdId) return;
+    return subscribeToShoppingLists(householdId, (nextLists) => {
+      setLists(nextLists);
+      if (nextLists.length === 0 && !creatingDefaultList.current) {
+        creatingDefaultList.current = true;
+        createShoppingList(user.uid, householdId, DEFAULT_LIST_NAME)
+          .catch(error => console.error('Error creating shopping list:', error))
+          .finally(() => { creatingDefaultList.current = false; });
+      }
+    }, (error) => console.error('Error syncing shopping lists:', error));
+  }, [user, householdId]);
+
+  // Fall back to the first list when the active one is deleted, possibly on another device
+  useEffect(() => {
+    if (lists.length > 0 && !lists.some(list => list.id === activeListId)) {
+      setActiveListId(lists[0].id!);
+    }
+  }, [lists, activeListId]);
+
+  useEffect(() => {
+    if (!householdId || !activeListId) {
+      setShoppingItems([]);
+      return;
+    }
+    setEditingItemId(null);
+    return subscribeToShoppingListItems(householdId, activeListId, setShoppingItems,
+      (error) => console.error('Error syncing shopping list items:', error));
+  }, [householdId, activeListId]);
+
   const loadData = async () => {
     if (!user) return;
     try {
-      const [recipes, aiRecipesData, inventoryData] = await Promise.all([
+      const [recipes, aiRecipesData, inventoryData, activeHouseholdId] = await Promise.all([
         getRecommendedRecipes(user.uid),
         fetchAIGeneratedRecipes(user.uid),
-        getInventory(user.uid)
+        getInventory(user.uid),
+        getActiveHouseholdId(user.uid)
       ]);
+      setHouseholdId(activeHouseholdId);
       setRegularRecipes(recipes);
       setAiRecipes(aiRecipesData);
       setInventory(inventoryData);
@@ -133,8 +153,8 @@ const ShoppingList: React.FC = () => {
 
   const toggleRecipeSelection = (recipe: RecipeWithScore | AIGeneratedRecipe, type: 'ai' | 'regular') => {
     const recipeId = recipe.id || `${type}-${recipe.name}`;
-    const ingredients = recipe.ingredients.map(ing =>
-      typeof ing === 'string' ? ing : ing.name
+    const ingredients = recipe.ingredients.filter(ing =>
+      typeof ing === 'string' ? ing.trim() : ing?.name
     );
 
     setSelectedRecipes(prev => {
@@ -162,52 +182,63 @@ const ShoppingList: React.FC = () => {
       return;
     }
 
-    // Aggregate all ingredients
+    // Aggregate all ingredients, with the quantities recipes ask for
     const ingredientMap = new Map<string, Set<string>>();
+    const requiredMap = new Map<string, Quantity[]>();
 
     selectedRecipes.forEach(recipe => {
       recipe.ingredients.forEach(ingredient => {
-        const normalized = ingredient.toLowerCase().trim();
+        const name = typeof ingredient === 'string' ? ingredient : ingredient.name;
+        const normalized = name.toLowerCase().trim();
         if (!ingredientMap.has(normalized)) {
           ingredientMap.set(normalized, new Set());
         }
         ingredientMap.get(normalized)!.add(recipe.name);
+
+        const required = typeof ingredient === 'string' ? null : toQuantity(ingredient.quantity, ingredient.unit);
+        if (required) {
+          requiredMap.set(normalized, [...(requiredMap.get(normalized) || []), required]);
+        }
       });
     });
 
-    // Convert to shopping items
-    const items: ShoppingItem[] = Array.from(ingredientMap.entries()).map(([ingredient, recipes]) => {
-      const inventoryItem = inventory.find(item =>
-        item.name.toLowerCase().includes(ingredient) ||
-        ingredient.includes(item.name.toLowerCase())
-      );
+    // Total stock per product across inventory rows, in normalized units
+    const stock = buildInventoryStock(inventory);
+
+    // Convert to shopping list items; ones already on the list are merged
+    const drafts: ShoppingListItemDraft[] = Array.from(ingredientMap.entries()).map(([ingredient, recipes]) => {
+      const required = sumQuantities(requiredMap.get(ingredient) || [], ingredient);
+      const { held, shortfall } = getIngredientCoverage(ingredient, required, stock);
 
       return {
         ingredient,
         recipes: Array.from(recipes),
-        hasInInventory: !!inventoryItem,
-        inventoryQuantity: inventoryItem ? `${inventoryItem.quantity} ${inventoryItem.quantityUnit}` : undefined,
-        quantity: 1,
-        checked: false
+        hasInInventory: !!held && !shortfall,
+        inventoryQuantity: held ? formatQuantity(held) : null,
+        shortfall: shortfall ? shortfall.shortfall : (held ? null : required)
       };
     });
 
-    // Sort: missing items first, then by recipe count
-    items.sort((a, b) => {
-      if (a.hasInInventory !== b.hasInInventory) {
-        return a.hasInInventory ? 1 : -1; // Missing items first
-      }
-      return b.recipes.length - a.recipes.length;
-    });
+    if (!user || !householdId || !activeListId) return;
+    try {
+      await addShoppingListItems(user.uid, householdId, activeListId, drafts);
+    } catch (error) {
+      console.error('Error saving shopping list:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the shopping list.',
+        variant: 'destructive',
+      });
+      return;
+    }
 
-    setShoppingItems(items);
     setSuggestions({});
     setSelectedItemForSuggestion(null);
     
     // Load smart suggestions
     try {
       setLoadingSuggestions(true);
-      const missingIngredients = items.filter(item => !item.hasInInventory).map(item => item.ingredient);
+      const missingIngredients = drafts.filter(item => !item.hasInInventory).map(item => item.ingredient);
       if (missingIngredients.length > 0) {
         const suggestionsData = await getSmartSuggestions(missingIngredients, 'Singapore');
         setSuggestions(suggestionsData);
@@ -220,61 +251,90 @@ const ShoppingList: React.FC = () => {
 
     toast({
       title: 'Shopping list generated',
-      description: `${items.length} items added to your shopping list.`,
+      description: `${drafts.length} items added to ${activeList?.name || 'your shopping list'}.`,
     });
   };
 
-  const toggleItemChecked = (ingredient: string) => {
-    setShoppingItems(prev =>
-      prev.map(item =>
-        item.ingredient === ingredient ? { ...item, checked: !item.checked } : item
-      )
-    );
+  // Run a list write and report failures; the snapshot listeners pick up the result
+  const runListAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Shopping list update failed:', error);
+      toast({
+        title: 'Something went wrong',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
-  const removeItem = (ingredient: string) => {
-    setShoppingItems(prev => prev.filter(item => item.ingredient !== ingredient));
+  const toggleItemChecked = (item: ShoppingListItem) => {
+    if (!user) return;
+    runListAction(() => setShoppingListItemChecked(user.uid, item.id!, !item.checked));
   };
 
-  const startEditingItem = (ingredient: string) => {
-    setShoppingItems(prev =>
-      prev.map(item =>
-        item.ingredient === ingredient 
-          ? { ...item, isEditing: true, editValue: item.ingredient }
-          : item
-      )
-    );
+  const removeItem = (item: ShoppingListItem) => {
+    runListAction(() => removeShoppingListItem(item.id!));
   };
 
-  const saveEditedItem = (oldIngredient: string) => {
-    setShoppingItems(prev =>
-      prev.map(item => {
-        if (item.ingredient === oldIngredient && item.editValue && item.editValue.trim()) {
-          return {
-            ...item,
-            ingredient: item.editValue.trim(),
-            isEditing: false,
-            editValue: undefined
-          };
-        }
-        return item;
-      })
-    );
+  const updateItemQuantity = (item: ShoppingListItem, value: string) => {
+    runListAction(() => updateShoppingListItem(item, { quantity: Math.max(1, Number(value) || 1) }));
   };
 
-  const cancelEditingItem = (ingredient: string) => {
-    setShoppingItems(prev =>
-      prev.map(item =>
-        item.ingredient === ingredient
-          ? { ...item, isEditing: false, editValue: undefined }
-          : item
-      )
-    );
+  const startEditingItem = (item: ShoppingListItem) => {
+    setEditingItemId(item.id!);
+    setEditValue(item.ingredient);
+  };
+
+  const saveEditedItem = (item: ShoppingListItem) => {
+    if (!editValue.trim()) return;
+    setEditingItemId(null);
+    runListAction(() => updateShoppingListItem(item, { ingredient: editValue }));
+  };
+
+  const cancelEditingItem = () => {
+    setEditingItemId(null);
+    setEditValue('');
+  };
+
+  // Refresh coverage figures once bought items have landed in the inventory
+  const handlePutAway = async () => {
+    if (!user) return;
+    try {
+      setInventory(await getInventory(user.uid));
+    } catch (error) {
+      console.error('Error reloading inventory:', error);
+    }
   };
 
   const clearList = () => {
-    setShoppingItems([]);
+    if (!householdId || !activeListId) return;
     setSelectedRecipes([]);
+    runListAction(() => clearShoppingList(householdId, activeListId));
+  };
+
+  const handleNewList = () => {
+    if (!user || !householdId) return;
+    const name = prompt('Name for the new list', `${DEFAULT_LIST_NAME} ${lists.length + 1}`);
+    if (name === null) return;
+    runListAction(async () => {
+      const listId = await createShoppingList(user.uid, householdId, name);
+      setActiveListId(listId);
+    });
+  };
+
+  const handleRenameList = () => {
+    if (!activeList) return;
+    const name = prompt('Rename list', activeList.name);
+    if (name === null || name.trim() === activeList.name) return;
+    runListAction(() => renameShoppingList(activeList.id!, name));
+  };
+
+  const handleDeleteList = () => {
+    if (!householdId || !activeList) return;
+    if (!confirm(`Delete "${activeList.name}" and all its items?`)) return;
+    runListAction(() => deleteShoppingList(householdId, activeList.id!));
   };
 
   const downloadList = () => {
@@ -295,10 +355,11 @@ const ShoppingList: React.FC = () => {
 
       // resolve cheapest available price
       const bp = getBestPrice(item.ingredient);
+      const need = item.shortfall ? ` (need ${formatQuantity(item.shortfall)})` : '';
       if (bp) {
-        lines.push(`${base} x${qty} — ${formatCurrency(bp * qty)} (${formatCurrency(bp)} each)`);
+        lines.push(`${base}${need} x${qty} — ${formatCurrency(bp * qty)} (${formatCurrency(bp)} each)`);
       } else {
-        lines.push(`${base} x${qty} — NEED TO BUY`);
+        lines.push(`${base}${need} x${qty} — NEED TO BUY`);
       }
     }
 
@@ -329,10 +390,11 @@ const ShoppingList: React.FC = () => {
       }
 
       const bp = getBestPrice(item.ingredient);
+      const need = item.shortfall ? ` (need ${formatQuantity(item.shortfall)})` : '';
       if (bp) {
-        lines.push(`${base} x${qty} — ${formatCurrency(bp * qty)} (${formatCurrency(bp)} each)`);
+        lines.push(`${base}${need} x${qty} — ${formatCurrency(bp * qty)} (${formatCurrency(bp)} each)`);
       } else {
-        lines.push(`${base} x${qty}`);
+        lines.push(`${base}${need} x${qty}`);
       }
     }
 
@@ -354,6 +416,7 @@ const ShoppingList: React.FC = () => {
           quantity: i.quantity || 1,
           hasInInventory: i.hasInInventory,
           inventoryQuantity: i.inventoryQuantity || null,
+          shortfall: i.shortfall ? formatQuantity(i.shortfall) : null,
           checked: i.checked
         })),
         metadata: { source: 'smart-pantry-chef', timestamp: new Date().toISOString() }
@@ -539,6 +602,8 @@ const ShoppingList: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          <BasketPlanner items={shoppingItems} />
         </div>
 
         {/* Shopping List Section */}
@@ -553,6 +618,36 @@ const ShoppingList: React.FC = () => {
                   </Badge>
                 )}
               </div>
+              <div className="flex items-center gap-1 pt-2">
+                <Select value={activeListId ?? undefined} onValueChange={setActiveListId}>
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue placeholder="Loading lists..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {lists.map(list => (
+                      <SelectItem key={list.id} value={list.id!}>
+                        {list.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="New list" onClick={handleNewList}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Rename list" disabled={!activeList} onClick={handleRenameList}>
+                  <Edit2 className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Delete list"
+                  disabled={!activeList || lists.length < 2}
+                  onClick={handleDeleteList}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               {shoppingItems.length === 0 ? (
@@ -595,36 +690,30 @@ const ShoppingList: React.FC = () => {
 
                   {/* Items */}
                   <div className="space-y-2 max-h-[400px] overflow-y-auto">
-                    {shoppingItems.map((item) => (
+                    {shoppingItems.map((item) => {
+                      const isEditing = editingItemId === item.id;
+                      return (
                       <div
-                        key={item.ingredient}
+                        key={item.id}
                         className={cn(
                           "flex items-center gap-2 p-2 rounded border transition-all group",
-                          item.checked && !item.isEditing ? "bg-muted/50 border-muted" : "hover:bg-accent",
-                          !item.hasInInventory && !item.isEditing ? "border-red-200 dark:border-red-900" : ""
+                          item.checked && !isEditing ? "bg-muted/50 border-muted" : "hover:bg-accent",
+                          !item.hasInInventory && !isEditing ? "border-red-200 dark:border-red-900" : ""
                         )}
                       >
-                        {!item.isEditing && (
+                        {!isEditing && (
                           <Checkbox
                             checked={item.checked}
-                            onChange={() => toggleItemChecked(item.ingredient)}
+                            onCheckedChange={() => toggleItemChecked(item)}
                             className="mt-0.5"
                           />
                         )}
                         
-                        {item.isEditing ? (
+                        {isEditing ? (
                           <div className="flex-1 flex items-center gap-2 min-w-0">
                             <Input
-                              value={item.editValue || ''}
-                              onChange={(e) => {
-                                setShoppingItems(prev =>
-                                  prev.map(i =>
-                                    i.ingredient === item.ingredient
-                                      ? { ...i, editValue: e.target.value }
-                                      : i
-                                  )
-                                );
-                              }}
+                              value={editValue}
+                              onChange={(e) => setEditValue(e.target.value)}
                               placeholder="Item name"
                               className="h-8 text-sm"
                               autoFocus
@@ -635,17 +724,14 @@ const ShoppingList: React.FC = () => {
                               min={1}
                               step={1}
                               value={item.quantity}
-                              onChange={(e) => {
-                                const v = Math.max(1, Number(e.target.value) || 1);
-                                setShoppingItems(prev => prev.map(i => i.ingredient === item.ingredient ? { ...i, quantity: v } : i));
-                              }}
+                              onChange={(e) => updateItemQuantity(item, e.target.value)}
                               className="w-20 h-8 text-sm"
                             />
 
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => saveEditedItem(item.ingredient)}
+                              onClick={() => saveEditedItem(item)}
                               className="h-6 w-6 p-0"
                             >
                               <Check className="h-3 w-3 text-green-600" />
@@ -653,7 +739,7 @@ const ShoppingList: React.FC = () => {
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => cancelEditingItem(item.ingredient)}
+                              onClick={cancelEditingItem}
                               className="h-6 w-6 p-0"
                             >
                               <X className="h-3 w-3 text-red-600" />
@@ -667,6 +753,12 @@ const ShoppingList: React.FC = () => {
                             )}>
                               {item.ingredient}
                             </p>
+                            {pendingIds.has(item.id!) && (
+                              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                <CloudOff className="h-3 w-3" />
+                                Pending sync
+                              </p>
+                            )}
                             {item.hasInInventory && (
                               <p className="text-xs text-muted-foreground">
                                 In inventory: {item.inventoryQuantity}
@@ -676,8 +768,13 @@ const ShoppingList: React.FC = () => {
                             {!item.hasInInventory && (
                               <>
                                 <p className="text-xs text-red-600 dark:text-red-400 font-medium">
-                                  Need to buy
+                                  Need to buy{item.shortfall && ` ${formatQuantity(item.shortfall)}`}
                                 </p>
+                                {item.inventoryQuantity && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Have {item.inventoryQuantity}
+                                  </p>
+                                )}
                                 {/* per-item estimated price (from smart suggestions) */}
                                 {(() => {
                                   const bp = getBestPrice(item.ingredient);
@@ -699,10 +796,7 @@ const ShoppingList: React.FC = () => {
                             min={1}
                             step={1}
                             value={item.quantity}
-                            onChange={(e) => {
-                              const v = Math.max(1, Number(e.target.value) || 1);
-                              setShoppingItems(prev => prev.map(i => i.ingredient === item.ingredient ? { ...i, quantity: v } : i));
-                            }}
+                            onChange={(e) => updateItemQuantity(item, e.target.value)}
                             className="w-16 h-8 text-sm"
                           />
 
@@ -710,7 +804,7 @@ const ShoppingList: React.FC = () => {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => startEditingItem(item.ingredient)}
+                              onClick={() => startEditingItem(item)}
                               className="h-6 w-6 p-0"
                             >
                               <Edit2 className="h-3 w-3" />
@@ -718,7 +812,7 @@ const ShoppingList: React.FC = () => {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => removeItem(item.ingredient)}
+                              onClick={() => removeItem(item)}
                               className="h-6 w-6 p-0"
                             >
                               <Trash2 className="h-3 w-3" />
@@ -727,7 +821,7 @@ const ShoppingList: React.FC = () => {
                         </div>
 
                         {/* show per-item price / line total when available */}
-                        {!item.isEditing && !item.hasInInventory && (
+                        {!isEditing && !item.hasInInventory && (
                           <div className="ml-4 text-right min-w-[120px]">
                             {(() => {
                               const bp = getBestPrice(item.ingredient);
@@ -743,7 +837,8 @@ const ShoppingList: React.FC = () => {
                           </div>
                         )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
 
                   {/* Actions */}
@@ -783,6 +878,18 @@ const ShoppingList: React.FC = () => {
                     </Button>
                   </div>
 
+                  {/* Put away */}
+                  {checkedCount > 0 && (
+                    <Button
+                      size="sm"
+                      onClick={() => setPutAwayOpen(true)}
+                      className="w-full gap-1"
+                    >
+                      <PackageCheck className="h-3 w-3" />
+                      Put away {checkedCount} checked item{checkedCount !== 1 ? 's' : ''}
+                    </Button>
+                  )}
+
                   {/* Clear */}
                   <Button
                     size="sm"
@@ -862,6 +969,15 @@ const ShoppingList: React.FC = () => {
           )}
         </div>
       </div>
+
+      <PutAwayDialog
+        open={putAwayOpen}
+        householdId={householdId}
+        items={shoppingItems.filter(item => item.checked)}
+        inventory={inventory}
+        onOpenChange={setPutAwayOpen}
+        onPutAway={handlePutAway}
+      />
     </div>
   );
 };
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { useAuth } from '@/contexts/AuthContext';
+import { getPurchases } from '@/services/purchaseService';
+import {
+  getTrackedProducts,
+  getUnitPriceTrend,
+  summarizeSpendingByCategory,
+  summarizeSpendingByMonth
+} from '@/lib/spending';
+import { Purchase } from '@/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CalendarDays, Loader2, PieChart, Receipt, TrendingUp } from 'lucide-react';
+
+const MONTHS = 6;
+const RECENT_PURCHASES = 10;
+
+const monthConfig: ChartConfig = {
+  total: { label: 'Spent', color: 'hsl(var(--primary))' }
+};
+const categoryConfig: ChartConfig = {
+  total: { label: 'Spent', color: 'hsl(var(--pantry))' }
+};
+const trendConfig: ChartConfig = {
+  unitPrice: { label: 'Unit price', color: 'hsl(var(--fridge))' }
+};
+
+const formatPrice = (value: number) => `$${value.toFixed(2)}`;
+
+const Spending: React.FC = () => {
+  const { user } = useAuth();
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [productKey, setProductKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getPurchases(user.uid)
+      .then(setPurchases)
+      .catch(error => console.error('Error loading purchases:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const months = summarizeSpendingByMonth(purchases, MONTHS);
+  const thisMonth = months[months.length - 1];
+  const lastMonth = months[months.length - 2];
+  const periodStart = new Date();
+  periodStart.setMonth(periodStart.getMonth() - (MONTHS - 1), 1);
+  periodStart.setHours(0, 0, 0, 0);
+  const categories = summarizeSpendingByCategory(purchases, periodStart);
+  const products = getTrackedProducts(purchases);
+  const selectedKey = productKey ?? products[0]?.key ?? null;
+  const trend = selectedKey ? getUnitPriceTrend(purchases, selectedKey) : null;
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-bold">Spending</h1>
+        <p className="text-muted-foreground">What your household spends on groceries, from receipts, put-aways and items added by hand</p>
+      </div>
+
+      {purchases.length === 0 ? (
+        <Card className="magnet-card">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No purchases yet. Import a receipt, or enter what you paid when adding items or putting away shopping.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card className="magnet-card overflow-hidden">
+            <CardHeader className="bg-gradient-to-r from-primary/10 to-fresh/10">
+              <CardTitle className="flex items-center gap-2 font-display">
+                <CalendarDays className="h-5 w-5 text-primary" />
+                Monthly Spending
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {formatPrice(thisMonth.total)} this month · {formatPrice(lastMonth.total)} last month
+              </p>
+            </CardHeader>
+            <CardContent className="p-4">
+              <ChartContainer config={monthConfig} className="h-64 w-full">
+                <BarChart data={months}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="magnet-card">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 font-display">
+                  <PieChart className="h-5 w-5 text-pantry" />
+                  By Category
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">Last {MONTHS} months</p>
+              </CardHeader>
+              <CardContent>
+                {categories.length === 0 ? (
+                  <p className="py-8 text-center text-muted-foreground">Nothing bought in the last {MONTHS} months.</p>
+                ) : (
+                  <ChartContainer config={categoryConfig} className="w-full" style={{ height: Math.max(160, categories.length * 36) }}>
+                    <BarChart data={categories} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="category" tickLine={false} axisLine={false} width={100} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="magnet-card">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 font-display">
+                  <TrendingUp className="h-5 w-5 text-fridge" />
+                  Price Trend
+                </CardTitle>
+                <Select value={selectedKey ?? undefined} onValueChange={setProductKey}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map(product => (
+                      <SelectItem key={product.key} value={product.key}>
+                        {product.name} ({product.purchases})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {!trend || trend.points.length === 0 ? (
+                  <p className="py-8 text-center text-muted-foreground">No unit price for this product.</p>
+                ) : (
+                  <>
+                    <p className="mb-2 text-sm text-muted-foreground">Price per {trend.unit}</p>
+                    <ChartContainer config={trendConfig} className="h-48 w-full">
+                      <LineChart data={trend.points}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip
+                          content={
+                            <ChartTooltipContent
+                              labelFormatter={(label, payload) => `${label} · ${payload[0]?.payload.store}`}
+                            />
+                          }
+                        />
+                        <Line dataKey="unitPrice" stroke="var(--color-unitPrice)" strokeWidth={2} dot />
+                      </LineChart>
+                    </ChartContainer>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="magnet-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 font-display">
+                <Receipt className="h-5 w-5 text-primary" />
+                Recent Purchases
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchases.slice(0, RECENT_PURCHASES).map(purchase => (
+                    <TableRow key={purchase.id}>
+                      <TableCell>{purchase.purchasedAt.toDate().toLocaleDateString('en-GB')}</TableCell>
+                      <TableCell>{purchase.name}</TableCell>
+                      <TableCell>{purchase.quantity} {purchase.quantityUnit}</TableCell>
+                      <TableCell>{purchase.store ?? '—'}</TableCell>
+                      <TableCell className="text-right">{formatPrice(purchase.price)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Spending;
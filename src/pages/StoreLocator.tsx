@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { useLocation } from 'react-router-dom';
-import { NearbyStore } from '@/types';
+import { NearbyStore, ScrapedProduct } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,6 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { highlightKeywords } from '@/lib/utils';
+import { formatUnitPrice, rankStoresByValue } from '@/lib/unitPricing';
+import { calculateDistance } from '@/lib/distance';
 import { 
   MapPin, 
   Search, 
@@ -31,11 +33,14 @@ interface StoreResult {
   storeCode: string;
   url: string;
   hasItem: boolean;
+  products?: ScrapedProduct[];
 }
 
 import StoreCard from '@/components/StoreCard';
 import Filters from '@/components/Filters';
 import InAppMap from '@/components/InAppMap';
+import PriceHistoryChart from '@/components/PriceHistoryChart';
+import PriceComparisonTable from '@/components/PriceComparisonTable';
 
 // Environment variables
 const N8N_WEBHOOK_URL = import.meta.env.VITE_N8N_WEBHOOK_URL as string | undefined;
@@ -76,22 +81,11 @@ const StoreLocator: React.FC = () => {
   const [webhookLoading, setWebhookLoading] = useState(false);
   const [webhookError, setWebhookError] = useState<string | null>(null);
   const [webhookResults, setWebhookResults] = useState<StoreResult[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
 
   // Get initial search from navigation state
   const initialSearch = (location.state as { searchItem?: string })?.searchItem || '';
 
-  // Helper function for distance calculation
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
   useEffect(() => {
     if (initialSearch && !productSearchLoading && productResults.length === 0) {
       searchProducts(initialSearch);
@@ -162,6 +156,9 @@ const StoreLocator: React.FC = () => {
     });
   }, [results, distanceFilter, ratingFilter, userLocation]);
 
+  // Cheapest per litre / 100 g first, so a bigger pack isn't ranked on its sticker price
+  const rankedWebhookResults = useMemo(() => rankStoresByValue(webhookResults), [webhookResults]);
+
   const handleSearch = async () => {
     if (!selectedArea.trim()) {
       toast({
@@ -737,6 +734,7 @@ const StoreLocator: React.FC = () => {
       
       const results: StoreResult[] = data.results;
       setWebhookResults(results);
+      setHistoryQuery(cleanedQuery);
 
       if (results.length === 0) {
         setWebhookError(`No results found for "${webhookQuery}"`);
@@ -1065,15 +1063,28 @@ const StoreLocator: React.FC = () => {
             <div className="space-y-4">
               <div className="space-y-2">
                 <h3 className="font-semibold text-sm">Nearest store that might sell this product:</h3>
-                {webhookResults.map((result, idx) => (
+                {rankedWebhookResults.map((result, idx) => (
                   <div key={idx} className="flex items-center justify-between p-3 border rounded-lg">
                     <div className="flex-1">
                       <p className="font-semibold">{result.storeName}</p>
-                      <div className="flex items-center gap-2 mt-1">
+                      <div className="flex flex-wrap items-center gap-2 mt-1">
                         <Badge variant={result.hasItem ? 'default' : 'secondary'}>
                           {result.hasItem ? '✓ Has item' : '✗ Not found'}
                         </Badge>
+                        {result.bestValue?.unitPrice && (
+                          <Badge variant="outline">{formatUnitPrice(result.bestValue.unitPrice)}</Badge>
+                        )}
+                        {idx === 0 && result.bestValue && rankedWebhookResults.length > 1 && (
+                          <Badge className="bg-green-600 hover:bg-green-600">Best value</Badge>
+                        )}
                       </div>
+                      {result.bestValue && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {result.bestValue.product.name} • ${result.bestValue.price.toFixed(2)}
+                          {result.bestValue.product.size && ` • ${result.bestValue.product.size}`}
+                          {result.bestValue.product.pricing?.promo && ` • ${result.bestValue.product.pricing.promo.text}`}
+                        </p>
+                      )}
                     </div>
                     <Button 
                       size="sm" 
@@ -1109,6 +1120,10 @@ const StoreLocator: React.FC = () => {
               )}
 
               {/* Removed nearest stores summary to simplify product section */}
+
+              {historyQuery && <PriceComparisonTable query={historyQuery} />}
+
+              {historyQuery && <PriceHistoryChart product={historyQuery} />}
             </div>
           )}
         </CardContent>
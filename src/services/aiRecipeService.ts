@@ -13,6 +13,7 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getActiveHouseholdId } from '@/services/householdService';
 import { AIGeneratedRecipe, Ingredient } from '@/types';
 
 // Generate recipes using n8n webhook and retrieve from Firebase
@@ -34,6 +35,7 @@ export const generateRecipes = async (
       },
       body: JSON.stringify({
         userId,
+        householdId: await getActiveHouseholdId(userId),
         strictOnly,
         preference: preferenceText, // Note: using 'preference' as per your spec
         timestamp: new Date().toISOString()
@@ -85,6 +87,7 @@ export const saveRecipes = async (
   recipes: Omit<AIGeneratedRecipe, 'id' | 'isFavourite' | 'createdAt' | 'source'>[]
 ): Promise<AIGeneratedRecipe[]> => {
   const savedRecipes: AIGeneratedRecipe[] = [];
+  const householdId = await getActiveHouseholdId(userId);
 
   for (const recipe of recipes) {
     // Check for duplicates based on name and ingredients
@@ -115,10 +118,11 @@ export const saveRecipes = async (
       continue;
     }
 
-    // Save new recipe into root 'recipes' collection with userId field
+    // Save new recipe into root 'recipes' collection with userId and householdId fields
     const recipeData: Omit<AIGeneratedRecipe, 'id'> = {
       ...recipe,
       userId,
+      householdId,
       isFavourite: false,
       createdAt: serverTimestamp() as any,
       source: 'ai'
@@ -232,12 +236,13 @@ export const fetchSavedRecipes = async (userId: string): Promise<AIGeneratedReci
   }
 };
 
-// Fetch favourite recipes
+// Fetch the household's favourite recipes
 export const fetchFavourites = async (userId: string): Promise<AIGeneratedRecipe[]> => {
   try {
+    const householdId = await getActiveHouseholdId(userId);
     const q = query(
       collection(db, 'recipes'),
-      where('userId', '==', userId),
+      where('householdId', '==', householdId),
       where('isFavourite', '==', true)
     );
 
@@ -277,12 +282,13 @@ export const fetchFavourites = async (userId: string): Promise<AIGeneratedRecipe
   }
 };
 
-// Fetch all AI-generated recipes (for the main recipes page)
+// Fetch all of the household's AI-generated recipes (for the main recipes page)
 export const fetchAIGeneratedRecipes = async (userId: string): Promise<AIGeneratedRecipe[]> => {
   try {
+    const householdId = await getActiveHouseholdId(userId);
     const q = query(
       collection(db, 'recipes'),
-      where('userId', '==', userId),
+      where('householdId', '==', householdId),
       where('source', '==', 'ai')
     );
 
@@ -322,12 +328,13 @@ export const fetchAIGeneratedRecipes = async (userId: string): Promise<AIGenerat
   }
 };
 
-// Fetch all recipes in the recipes collection for a user (any source)
+// Fetch all recipes in the recipes collection for the user's household (any source)
 export const fetchUserRecipes = async (userId: string): Promise<AIGeneratedRecipe[]> => {
   try {
+    const householdId = await getActiveHouseholdId(userId);
     const q = query(
       collection(db, 'recipes'),
-      where('userId', '==', userId)
+      where('householdId', '==', householdId)
     );
 
     const querySnapshot = await getDocs(q);
@@ -369,9 +376,11 @@ export const addManualRecipe = async (
   recipe: Omit<AIGeneratedRecipe, 'id' | 'isFavourite' | 'createdAt' | 'source' | 'favouritedAt'>
 ): Promise<AIGeneratedRecipe> => {
   const now = Timestamp.now();
+  const householdId = await getActiveHouseholdId(userId);
   const recipeData: any = {
     ...recipe,
     userId,
+    householdId,
     isFavourite: true,
     createdAt: now,
     source: 'manual',
@@ -0,0 +1,202 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { convertQuantity, normalizeUnit, toQuantity } from '@/lib/units';
+import { consumeFromLots, getEarliestExpiry, getItemLots, restoreLots } from '@/lib/lots';
+import { buildLotUpdate, getHouseholdExpirySettings } from '@/services/firebaseService';
+import { CookingDeduction, CookingHistoryEntry, Ingredient, InventoryItem } from '@/types';
+
+// How long after cooking the deductions can still be rolled back
+export const COOK_UNDO_WINDOW_MS = 30 * 1000;
+
+export interface CookPlan {
+  deductions: CookingDeduction[];
+  skippedIngredients: string[];
+}
+
+interface CookableRecipe {
+  id?: string;
+  name: string;
+  ingredients: (string | Ingredient)[];
+}
+
+const toDate = (date: Timestamp | Date): Date => (date instanceof Timestamp ? date.toDate() : date);
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Work out which inventory rows a recipe draws from, soonest-expiring first.
+// Pure so the dialog can re-plan instantly when the servings multiplier changes.
+export const planCookDeductions = (
+  ingredients: (string | Ingredient)[],
+  servingsMultiplier: number,
+  inventory: InventoryItem[]
+): CookPlan => {
+  const remaining = new Map(inventory.map(item => [item.id!, item.quantity]));
+  const deductions = new Map<string, CookingDeduction>();
+  const skippedIngredients: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const name = typeof ingredient === 'string' ? ingredient : ingredient?.name;
+    if (!name) continue;
+
+    // Free-text ingredients carry no amount, so we can't tell how much to take
+    const required = typeof ingredient === 'string' ? null : toQuantity(ingredient.quantity, ingredient.unit);
+    if (!required || required.amount <= 0) {
+      skippedIngredients.push(name);
+      continue;
+    }
+
+    const nameLower = name.toLowerCase().trim();
+    const candidates = inventory
+      .filter(item => {
+        const itemName = item.name.toLowerCase().trim();
+        return item.id && (remaining.get(item.id) ?? 0) > 0 &&
+          (nameLower.includes(itemName) || itemName.includes(nameLower));
+      })
+      .sort((a, b) => toDate(getEarliestExpiry(a)).getTime() - toDate(getEarliestExpiry(b)).getTime());
+
+    let needed = required.amount * servingsMultiplier;
+    for (const item of candidates) {
+      if (needed <= 0) break;
+
+      const itemUnit = normalizeUnit(item.quantityUnit) ?? 'pcs';
+      const left = remaining.get(item.id!) ?? 0;
+      const availableInRequiredUnit = convertQuantity(left, itemUnit, required.unit, nameLower);
+      if (availableInRequiredUnit === null || availableInRequiredUnit <= 0) continue;
+
+      const taken = Math.min(needed, availableInRequiredUnit);
+      const deducted = Math.min(left, convertQuantity(taken, required.unit, itemUnit, nameLower) ?? 0);
+      needed -= taken;
+      remaining.set(item.id!, left - deducted);
+
+      const existing = deductions.get(item.id!);
+      const totalDeducted = (existing?.deducted ?? 0) + deducted;
+      deductions.set(item.id!, {
+        inventoryItemId: item.id!,
+        name: item.name,
+        ingredient: existing ? existing.ingredient : name,
+        unit: itemUnit,
+        quantityBefore: item.quantity,
+        deducted: round(totalDeducted),
+        quantityAfter: round(Math.max(0, item.quantity - totalDeducted))
+      });
+    }
+
+    if (needed >= required.amount * servingsMultiplier) {
+      skippedIngredients.push(name);
+    }
+  }
+
+  return { deductions: Array.from(deductions.values()), skippedIngredients };
+};
+
+// Apply a cook plan and record it in the user's cooking history. It runs as a
+// transaction, so if a row changes after it is read here the deduction is retried
+// against the new amount rather than overwriting the change.
+export const applyCookPlan = async (
+  userId: string,
+  recipe: CookableRecipe,
+  servingsMultiplier: number,
+  plan: CookPlan
+): Promise<string> => {
+  const historyRef = doc(collection(db, 'cookingHistory'));
+
+  await runTransaction(db, async (transaction) => {
+    // Firestore wants every read before the first write
+    const items = [];
+    for (const deduction of plan.deductions) {
+      const itemRef = doc(db, 'inventory', deduction.inventoryItemId);
+      const snap = await transaction.get(itemRef);
+      if (!snap.exists()) continue;
+      const current = snap.data() as InventoryItem;
+      items.push({ deduction, itemRef, current, settings: await getHouseholdExpirySettings(current.householdId) });
+    }
+
+    // Take from the lots first-expired-first-out
+    const appliedDeductions: CookingDeduction[] = [];
+    for (const { deduction, itemRef, current, settings } of items) {
+      const { lots, consumed } = consumeFromLots(getItemLots(current), deduction.deducted);
+      const update = buildLotUpdate(current, lots, settings);
+      transaction.update(itemRef, update);
+      appliedDeductions.push({
+        ...deduction,
+        quantityBefore: current.quantity,
+        deducted: round(current.quantity - update.quantity),
+        quantityAfter: update.quantity,
+        consumedLots: consumed
+      });
+    }
+
+    const entry: Omit<CookingHistoryEntry, 'id'> = {
+      userId,
+      recipeName: recipe.name,
+      servingsMultiplier,
+      deductions: appliedDeductions,
+      skippedIngredients: plan.skippedIngredients,
+      cookedAt: Timestamp.now(),
+      undoneAt: null
+    };
+    if (recipe.id) entry.recipeId = recipe.id;
+    transaction.set(historyRef, entry);
+  });
+
+  return historyRef.id;
+};
+
+// Put the deducted amounts back, as long as we're still inside the undo window.
+// A transaction too, so a second undo or an edit made meanwhile can't be lost.
+export const undoCook = async (historyId: string): Promise<void> => {
+  const historyRef = doc(db, 'cookingHistory', historyId);
+
+  await runTransaction(db, async (transaction) => {
+    const historySnap = await transaction.get(historyRef);
+    if (!historySnap.exists()) {
+      throw new Error('Cooking record not found');
+    }
+
+    const entry = historySnap.data() as CookingHistoryEntry;
+    if (entry.undoneAt) {
+      throw new Error('This cook has already been undone');
+    }
+    if (Date.now() - entry.cookedAt.toMillis() > COOK_UNDO_WINDOW_MS) {
+      throw new Error('The undo window has expired');
+    }
+
+    const items = [];
+    for (const deduction of entry.deductions) {
+      const itemRef = doc(db, 'inventory', deduction.inventoryItemId);
+      const snap = await transaction.get(itemRef);
+      if (!snap.exists()) continue;
+      const current = snap.data() as InventoryItem;
+      items.push({ deduction, itemRef, current, settings: await getHouseholdExpirySettings(current.householdId) });
+    }
+
+    for (const { deduction, itemRef, current, settings } of items) {
+      const consumed = deduction.consumedLots && deduction.consumedLots.length > 0
+        ? deduction.consumedLots
+        : [{ batchId: 'initial', quantity: deduction.deducted, expiryDate: current.expiryDate }];
+      const lots = restoreLots(getItemLots(current).filter(lot => lot.quantity > 0), consumed);
+      transaction.update(itemRef, buildLotUpdate(current, lots, settings));
+    }
+    transaction.update(historyRef, { undoneAt: Timestamp.now() });
+  });
+};
+
+export const getCookingHistory = async (userId: string): Promise<CookingHistoryEntry[]> => {
+  const q = query(collection(db, 'cookingHistory'), where('userId', '==', userId));
+  const snapshot = await getDocs(q);
+  const entries = snapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as CookingHistoryEntry));
+
+  // Sort by cookedAt in code (descending) to avoid a composite index
+  return entries.sort((a, b) => b.cookedAt.toMillis() - a.cookedAt.toMillis());
+};
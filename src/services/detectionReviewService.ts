@@ -0,0 +1,87 @@
+import { doc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { buildCorrection } from '@/lib/detectionReview';
+import { findInventoryMatch } from '@/lib/putAway';
+import { convertQuantity, normalizeUnit } from '@/lib/units';
+import { addInventoryItem, addInventoryLot } from '@/services/firebaseService';
+import { getActiveHouseholdId } from '@/services/householdService';
+import { DetectionFields, DetectionReview, ImageDetection, InventoryItem } from '@/types';
+
+// One row of the review table: the item as detected, and as corrected (null if deselected)
+export interface ReviewedDetection {
+  item: InventoryItem;
+  corrected: DetectionFields | null;
+}
+
+const toTimestamp = (date: Timestamp | Date): Timestamp =>
+  date instanceof Timestamp ? date : Timestamp.fromDate(date);
+
+/**
+ * Add the kept rows of a reviewed photo upload to the inventory, then record
+ * every row's corrections under the upload's batchId. Items already on the
+ * shelf get a new lot instead of a second row.
+ */
+export const saveDetectionReview = async (
+  userId: string,
+  detection: ImageDetection,
+  reviewed: ReviewedDetection[],
+  inventory: InventoryItem[]
+): Promise<{ added: number; merged: number }> => {
+  const householdId = await getActiveHouseholdId(userId);
+  let added = 0;
+  let merged = 0;
+
+  for (const { item, corrected } of reviewed) {
+    if (!corrected) continue;
+    const name = corrected.name.trim();
+    const expiryDate = toTimestamp(corrected.expiryDate);
+    const existing = findInventoryMatch(name, undefined, corrected.quantityUnit, inventory);
+
+    if (existing) {
+      const unit = normalizeUnit(existing.quantityUnit) ?? 'pcs';
+      await addInventoryLot(existing.id!, {
+        quantity: convertQuantity(corrected.quantity, corrected.quantityUnit, unit, existing.name) ?? corrected.quantity,
+        expiryDate
+      });
+      merged++;
+    } else {
+      await addInventoryItem({
+        userId,
+        householdId,
+        name,
+        category: item.category,
+        quantity: corrected.quantity,
+        quantityUnit: corrected.quantityUnit,
+        expiryDate,
+        storage: corrected.storage,
+        reorderThreshold: item.reorderThreshold,
+        reorderThresholdUnit: corrected.quantityUnit,
+        source: 'ai',
+        batchId: detection.batchId,
+        // Firestore rejects undefined fields, and not every provider reports confidence
+        ...(typeof item.aiConfidence === 'number' ? { aiConfidence: item.aiConfidence } : {})
+      });
+      added++;
+    }
+  }
+
+  const corrections = reviewed.map(({ item, corrected }) => buildCorrection(item, corrected));
+  const review: DetectionReview = {
+    batchId: detection.batchId,
+    userId,
+    householdId,
+    provider: detection.provider,
+    corrections,
+    detectedCount: corrections.length,
+    keptCount: corrections.filter(c => c.kept).length,
+    correctedCount: corrections.filter(c => c.kept && c.changedFields.length > 0).length,
+    reviewedAt: Timestamp.now()
+  };
+
+  // Not awaited: the review is only for measuring accuracy, and Firestore's cache
+  // sends it once we're online without holding up the inventory update
+  setDoc(doc(db, 'detectionReviews', detection.batchId), review)
+    .catch(error => console.error('Error saving detection review:', error));
+
+  return { added, merged };
+};
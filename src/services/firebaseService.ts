@@ -9,12 +9,35 @@ import {
   query, 
   where,
   orderBy,
+  limit,
+  setDoc,
+  runTransaction,
   Timestamp,
   writeBatch
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { compareQuantities, convertQuantity, normalizeUnit, sumQuantities, toQuantity } from '@/lib/units';
+import { adjustLotsToQuantity, createBatchId, getItemLots, sortLotsByExpiry, summarizeLots } from '@/lib/lots';
+import { DEFAULT_EXPIRY_SETTINGS, getItemStatus, isExpiringStatus, mergeExpirySettings } from '@/lib/expiryStatus';
+import { mergeQuantityEdit } from '@/lib/quantityMerge';
+import { normalizeBarcode } from '@/lib/barcode';
+import { getActiveHouseholdId } from '@/services/householdService';
+import {
+  applyPendingWrites,
+  enqueueWrite,
+  registerSyncHandler,
+  wasWriteApplied,
+  withSyncedWriteId
+} from '@/services/syncQueue';
 import { 
+  ExpirySettings,
   InventoryItem, 
+  InventoryStatus,
+  InventoryLot,
+  Ingredient,
+  IngredientShortfall,
+  Product,
+  Quantity,
   Recipe, 
   RecipeAI, 
   SavedRecipe, 
@@ -24,86 +47,366 @@ import {
   StoreProductWithStore 
 } from '@/types';
 
-// Helper to calculate status based on expiry date
-export const calculateStatus = (expiryDate: Date | Timestamp): 'fresh' | 'expiringSoon' | 'almostExpired' => {
-  const now = new Date();
-  const expiry = expiryDate instanceof Timestamp ? expiryDate.toDate() : expiryDate;
-  const daysUntilExpiry = Math.ceil((expiry.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-  
-  if (daysUntilExpiry <= 2) return 'almostExpired';
-  if (daysUntilExpiry <= 5) return 'expiringSoon';
-  return 'fresh';
+// Helper to calculate status based on expiry date, or on the earliest non-empty lot,
+// using the category/storage thresholds from the user's expiry settings
+export const calculateStatus = (
+  expiryDate: Date | Timestamp | InventoryLot[],
+  item: Partial<Pick<InventoryItem, 'category' | 'storage'>> = {},
+  settings: ExpirySettings = DEFAULT_EXPIRY_SETTINGS
+): InventoryStatus => {
+  return Array.isArray(expiryDate)
+    ? getItemStatus({ ...item, lots: expiryDate }, settings)
+    : getItemStatus({ ...item, expiryDate }, settings);
+};
+
+// Helper to check if low stock, comparing quantity and threshold in normalized units
+export const isLowStock = (
+  item: Pick<InventoryItem, 'name' | 'quantity' | 'quantityUnit' | 'reorderThreshold' | 'reorderThresholdUnit'>
+): boolean => {
+  const unit = normalizeUnit(item.quantityUnit) ?? 'pcs';
+  const thresholdUnit = normalizeUnit(item.reorderThresholdUnit) ?? unit;
+  const comparison = compareQuantities(
+    { amount: item.quantity, unit },
+    { amount: item.reorderThreshold, unit: thresholdUnit },
+    item.name
+  );
+  // Units we can't reconcile (e.g. pcs vs g without a piece weight) fall back to raw numbers
+  return comparison === null ? item.quantity <= item.reorderThreshold : comparison <= 0;
 };
 
-// Helper to check if low stock
-export const isLowStock = (quantity: number, threshold: number): boolean => {
-  return quantity <= threshold;
+// Helper to total stock per product name so "500 g" and "0.5 kg" rows add up
+export const buildInventoryStock = (inventory: InventoryItem[]): Map<string, Quantity> => {
+  const grouped = new Map<string, Quantity[]>();
+  for (const item of inventory) {
+    const quantity = toQuantity(item.quantity, item.quantityUnit);
+    // Only products we actually hold some of count as stock
+    if (!quantity || quantity.amount <= 0) continue;
+    const key = item.name.toLowerCase().trim();
+    grouped.set(key, [...(grouped.get(key) || []), quantity]);
+  }
+
+  const stock = new Map<string, Quantity>();
+  grouped.forEach((quantities, name) => {
+    const total = sumQuantities(quantities, name);
+    if (total) stock.set(name, total);
+  });
+  return stock;
+};
+
+// Helper to work out how much of a recipe ingredient the inventory covers.
+// `held` is expressed in the required unit when the two can be converted.
+export const getIngredientCoverage = (
+  ingredientName: string,
+  required: Quantity | null,
+  stock: Map<string, Quantity>
+): { held: Quantity | null; shortfall: IngredientShortfall | null } => {
+  const ingredientLower = ingredientName.toLowerCase().trim();
+  const matching = Array.from(stock.entries())
+    .filter(([name]) => ingredientLower.includes(name) || name.includes(ingredientLower))
+    .map(([, quantity]) => quantity);
+  const held = sumQuantities(matching, ingredientLower);
+  if (!held) return { held: null, shortfall: null };
+  if (!required || required.amount <= 0) return { held, shortfall: null };
+
+  const heldInRequiredUnit = convertQuantity(held.amount, held.unit, required.unit, ingredientLower);
+  // Quantities we can't compare (e.g. "1 pack" vs "200 g") are treated as covered
+  if (heldInRequiredUnit === null) return { held, shortfall: null };
+
+  const available: Quantity = { amount: heldInRequiredUnit, unit: required.unit };
+  if (compareQuantities(available, required, ingredientLower) >= 0) {
+    return { held: available, shortfall: null };
+  }
+
+  return {
+    held: available,
+    shortfall: {
+      ingredient: ingredientName,
+      required,
+      available,
+      shortfall: { amount: required.amount - heldInRequiredUnit, unit: required.unit }
+    }
+  };
 };
 
 // ============ INVENTORY OPERATIONS ============
 
+// The whole household's inventory, soonest expiry first
 export const getInventory = async (userId: string): Promise<InventoryItem[]> => {
+  const householdId = await getActiveHouseholdId(userId);
   const q = query(
     collection(db, 'inventory'),
-    where('userId', '==', userId),
+    where('householdId', '==', householdId),
     orderBy('expiryDate', 'asc')
   );
   
+  // Served from the local cache when offline
   const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
+  const items = snapshot.docs.map(doc => ({
     id: doc.id,
     ...doc.data()
   } as InventoryItem));
+
+  // Edits that haven't synced yet are shown as if they had
+  const toMillis = (date: Timestamp | Date) => date instanceof Timestamp ? date.toMillis() : new Date(date).getTime();
+  return applyPendingWrites('inventory', items)
+    .filter(item => item.householdId === householdId)
+    .sort((a, b) => toMillis(a.expiryDate) - toMillis(b.expiryDate));
 };
 
+// Queued rather than written directly so adding works offline; the id is known straight away
 export const addInventoryItem = async (item: Omit<InventoryItem, 'id' | 'status' | 'isLowStock'>): Promise<string> => {
-  const status = calculateStatus(item.expiryDate);
-  const lowStock = isLowStock(item.quantity, item.reorderThreshold);
-  
-  const docRef = await addDoc(collection(db, 'inventory'), {
-    ...item,
-    status,
-    isLowStock: lowStock
+  // Every row starts with at least one lot so later purchases can be added alongside it
+  const lots = item.lots && item.lots.length > 0
+    ? item.lots
+    : [{ batchId: createBatchId(), quantity: item.quantity, expiryDate: item.expiryDate, addedAt: Timestamp.now() }];
+  const summary = summarizeLots(lots);
+  const quantity = summary.quantity;
+  const expiryDate = summary.expiryDate ?? item.expiryDate;
+  const householdId = item.householdId ?? await getActiveHouseholdId(item.userId);
+  const settings = await getHouseholdExpirySettings(householdId);
+  const docRef = doc(collection(db, 'inventory'));
+
+  enqueueWrite({
+    kind: 'inventory.add',
+    collection: 'inventory',
+    docId: docRef.id,
+    change: 'add',
+    data: {
+      ...item,
+      householdId,
+      quantity,
+      expiryDate,
+      lots: sortLotsByExpiry(lots),
+      quantityUnit: normalizeUnit(item.quantityUnit) ?? item.quantityUnit,
+      status: calculateStatus(lots, item, settings),
+      isLowStock: isLowStock({ ...item, quantity })
+    }
   });
   
   return docRef.id;
 };
 
-export const updateInventoryItem = async (id: string, updates: Partial<InventoryItem>): Promise<void> => {
-  if (!id) {
-    throw new Error('Item ID is required for update');
+// Helper to derive the stored summary fields (quantity, earliest expiry, status, low stock) from lots
+export const buildLotUpdate = (
+  current: InventoryItem,
+  lots: InventoryLot[],
+  settings: ExpirySettings = DEFAULT_EXPIRY_SETTINGS
+): Partial<InventoryItem> => {
+  const summary = summarizeLots(lots);
+  const sorted = sortLotsByExpiry(lots.filter(lot => lot.quantity > 0));
+  return {
+    lots: sorted,
+    quantity: summary.quantity,
+    expiryDate: summary.expiryDate ?? current.expiryDate,
+    status: calculateStatus(summary.expiryDate ?? current.expiryDate, current, settings),
+    isLowStock: isLowStock({ ...current, quantity: summary.quantity })
+  };
+};
+
+// The item as this device knows it: the cached document plus any edits still waiting to sync
+const getLocalInventoryItem = async (id: string): Promise<InventoryItem | null> => {
+  let cached: InventoryItem[] = [];
+  try {
+    const docSnap = await getDoc(doc(db, 'inventory', id));
+    if (docSnap.exists()) cached = [{ id, ...docSnap.data() } as InventoryItem];
+  } catch (error) {
+    // Offline and not in the cache; it may still be a queued add
+    console.warn('[getLocalInventoryItem] not available offline', error);
   }
+  return applyPendingWrites('inventory', cached).find(item => item.id === id) ?? null;
+};
 
-  const docRef = doc(db, 'inventory', id);
-  
-  // Verify document exists
-  const docSnap = await getDoc(docRef);
-  if (!docSnap.exists()) {
+// Record another purchase of an existing product as a new lot on the same row
+export const addInventoryLot = async (
+  id: string,
+  lot: { quantity: number; expiryDate: Timestamp | Date; batchId?: string }
+): Promise<void> => {
+  const current = await getLocalInventoryItem(id);
+  if (!current) {
     throw new Error('Item not found');
   }
 
-  // Recalculate status and isLowStock if relevant fields changed
+  const newLot: InventoryLot = {
+    batchId: lot.batchId || createBatchId(),
+    quantity: lot.quantity,
+    expiryDate: lot.expiryDate,
+    addedAt: Timestamp.now()
+  };
+  const lots = [...getItemLots(current).filter(existing => existing.quantity > 0), newLot];
+
+  // data is what this device shows until it syncs; the handler re-adds the lot to the server's copy
+  enqueueWrite({
+    kind: 'inventory.addLot',
+    collection: 'inventory',
+    docId: id,
+    change: 'update',
+    data: buildLotUpdate(current, lots, await getHouseholdExpirySettings(current.householdId)),
+    lot: newLot
+  });
+};
+
+// Helper to turn an edit into the full update, recalculating lots, status and low stock
+export const buildInventoryUpdate = (
+  current: InventoryItem,
+  updates: Partial<InventoryItem>,
+  settings: ExpirySettings = DEFAULT_EXPIRY_SETTINGS
+): Partial<InventoryItem> => {
   const updateData: Partial<InventoryItem> = { ...updates };
-  
-  if (updates.expiryDate) {
-    updateData.status = calculateStatus(updates.expiryDate);
+
+  if (updates.quantityUnit) {
+    updateData.quantityUnit = normalizeUnit(updates.quantityUnit) ?? updates.quantityUnit;
   }
-  
-  if (updates.quantity !== undefined || updates.reorderThreshold !== undefined) {
-    const current = docSnap.data() as InventoryItem;
-    const quantity = updates.quantity ?? current.quantity;
-    const threshold = updates.reorderThreshold ?? current.reorderThreshold;
-    updateData.isLowStock = isLowStock(quantity, threshold);
+
+  // Keep lots in step with quantity/expiry edits: the edited expiry applies to the
+  // earliest lot, and quantity changes are consumed or topped up FEFO
+  if (updates.lots || updates.quantity !== undefined || updates.expiryDate) {
+    let lots = updates.lots ?? getItemLots(current);
+    if (!updates.lots && updates.expiryDate && lots.length > 0) {
+      lots = [{ ...lots[0], expiryDate: updates.expiryDate }, ...lots.slice(1)];
+    }
+    if (!updates.lots && updates.quantity !== undefined) {
+      lots = adjustLotsToQuantity(lots, updates.quantity);
+      if (lots.length === 0 && updates.quantity > 0) {
+        lots = [{ batchId: createBatchId(), quantity: updates.quantity, expiryDate: updates.expiryDate ?? current.expiryDate, addedAt: Timestamp.now() }];
+      }
+    }
+    Object.assign(updateData, buildLotUpdate({ ...current, ...updateData }, lots, settings));
+  } else if (updates.category !== undefined || updates.storage !== undefined) {
+    // A new category or storage location can move the item under different thresholds
+    updateData.status = calculateStatus(getItemLots(current), { ...current, ...updateData }, settings);
   }
   
-  await updateDoc(docRef, updateData);
+  if (
+    updates.quantity !== undefined ||
+    updates.quantityUnit !== undefined ||
+    updates.reorderThreshold !== undefined ||
+    updates.reorderThresholdUnit !== undefined
+  ) {
+    updateData.isLowStock = isLowStock({ ...current, ...updateData });
+  }
+
+  return updateData;
+};
+
+/**
+ * Queue an edit. The quantity the edit started from travels with it, so an edit
+ * made offline merges with what other devices did in the meantime.
+ */
+export const updateInventoryItem = async (id: string, updates: Partial<InventoryItem>): Promise<void> => {
+  if (!id) {
+    throw new Error('Item ID is required for update');
+  }
+
+  // Verify document exists
+  const current = await getLocalInventoryItem(id);
+  if (!current) {
+    throw new Error('Item not found');
+  }
+
+  // data is what this device shows until it syncs, with lots, status and low stock
+  // recalculated; the handler re-applies just the edit to the server's copy
+  enqueueWrite({
+    kind: 'inventory.update',
+    collection: 'inventory',
+    docId: id,
+    change: 'update',
+    data: buildInventoryUpdate(current, updates, await getHouseholdExpirySettings(current.householdId)),
+    edit: updates,
+    baseQuantity: updates.quantity !== undefined ? current.quantity : undefined
+  });
 };
 
 export const deleteInventoryItem = async (id: string): Promise<void> => {
   if (!id) {
     throw new Error('Item ID is required for deletion');
   }
-  await deleteDoc(doc(db, 'inventory', id));
+  enqueueWrite({ kind: 'inventory.delete', collection: 'inventory', docId: id, change: 'delete' });
+};
+
+registerSyncHandler('inventory.add', async (write) => {
+  await setDoc(doc(db, 'inventory', write.docId), write.data);
+});
+
+registerSyncHandler('inventory.update', async (write) => {
+  const docRef = doc(db, 'inventory', write.docId);
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(docRef);
+    // Deleted on another device (the delete wins), or already applied before a timeout
+    if (!snap.exists()) return;
+    const current = snap.data() as InventoryItem;
+    if (wasWriteApplied(write, current)) return;
+
+    // Writes queued before edits were stored separately only carry the edit in data
+    const updates = { ...(write.edit ?? write.data) } as Partial<InventoryItem>;
+    if (write.baseQuantity !== undefined && updates.quantity !== undefined) {
+      updates.quantity = mergeQuantityEdit(write.baseQuantity, updates.quantity, current.quantity);
+    }
+    const settings = await getHouseholdExpirySettings(current.householdId);
+    transaction.update(docRef, {
+      ...buildInventoryUpdate(current, updates, settings),
+      syncedWriteIds: withSyncedWriteId(write, current)
+    });
+  });
+});
+
+registerSyncHandler('inventory.addLot', async (write) => {
+  const docRef = doc(db, 'inventory', write.docId);
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(docRef);
+    if (!snap.exists() || !write.lot) return;
+    const current = snap.data() as InventoryItem;
+    // The lot's batchId makes a replay after a timeout harmless
+    if (getItemLots(current).some(lot => lot.batchId === write.lot!.batchId)) return;
+
+    const lots = [...getItemLots(current).filter(existing => existing.quantity > 0), write.lot];
+    transaction.update(docRef, buildLotUpdate(current, lots, await getHouseholdExpirySettings(current.householdId)));
+  });
+});
+
+registerSyncHandler('inventory.delete', async (write) => {
+  await deleteDoc(doc(db, 'inventory', write.docId));
+});
+
+// ============ EXPIRY SETTINGS ============
+
+// Rules belong to the household, so every member and the server's recompute job
+// work out the same status for a row. They are read on every inventory write, so
+// keep them per household for the session.
+const expirySettingsCache = new Map<string, ExpirySettings>();
+
+// Rows without a household (from before households) use the defaults
+export const getHouseholdExpirySettings = async (householdId?: string): Promise<ExpirySettings> => {
+  if (!householdId) return DEFAULT_EXPIRY_SETTINGS;
+  const cached = expirySettingsCache.get(householdId);
+  if (cached) return cached;
+
+  try {
+    const snap = await getDoc(doc(db, 'households', householdId));
+    const settings = mergeExpirySettings(snap.exists() ? snap.data().expirySettings : null);
+    expirySettingsCache.set(householdId, settings);
+    return settings;
+  } catch (error) {
+    console.error('[getHouseholdExpirySettings] error', error);
+    return DEFAULT_EXPIRY_SETTINGS;
+  }
+};
+
+// The rules of the user's active household
+export const getExpirySettings = async (userId: string): Promise<ExpirySettings> => {
+  if (!userId) return DEFAULT_EXPIRY_SETTINGS;
+  try {
+    return getHouseholdExpirySettings(await getActiveHouseholdId(userId));
+  } catch (error) {
+    console.error('[getExpirySettings] error', error);
+    return DEFAULT_EXPIRY_SETTINGS;
+  }
+};
+
+export const saveExpirySettings = async (userId: string, settings: ExpirySettings): Promise<void> => {
+  const merged = mergeExpirySettings(settings);
+  const householdId = await getActiveHouseholdId(userId);
+  await updateDoc(doc(db, 'households', householdId), { expirySettings: merged });
+  expirySettingsCache.set(householdId, merged);
 };
 
 // ============ PRODUCT OPERATIONS ============
@@ -124,12 +427,25 @@ export const getProducts = async (userId: string): Promise<any[]> => {
   return Array.from(map.values());
 };
 
-export const createProduct = async (product: { name: string; brand?: string; category: string; defaultShelfLifeDays?: number; source?: string; createdBy?: string; }): Promise<string> => {
+// Look a scanned or typed barcode up in the shared product catalog
+export const getProductByBarcode = async (barcode: string): Promise<Product | null> => {
+  const code = normalizeBarcode(barcode);
+  if (!code) return null;
+  const q = query(collection(db, 'products'), where('barcode', '==', code), limit(1));
+  const snapshot = await getDocs(q);
+  if (snapshot.empty) return null;
+  const match = snapshot.docs[0];
+  return { id: match.id, ...match.data() } as Product;
+};
+
+export const createProduct = async (product: { name: string; brand?: string; category: string; barcode?: string; defaultShelfLifeDays?: number; source?: string; createdBy?: string; }): Promise<string> => {
   const data: any = {
     name: product.name,
   };
   if (product.brand !== undefined) data.brand = product.brand;
   if (product.category !== undefined) data.category = product.category;
+  const barcode = product.barcode ? normalizeBarcode(product.barcode) : null;
+  if (barcode) data.barcode = barcode;
   if (typeof product.defaultShelfLifeDays === 'number' && !isNaN(product.defaultShelfLifeDays)) {
     data.defaultShelfLifeDays = product.defaultShelfLifeDays;
   }
@@ -143,20 +459,6 @@ export const createProduct = async (product: { name: string; brand?: string; cat
 
 // ============ RECIPE OPERATIONS ============
 
-export const getRecipes = async (): Promise<Recipe[]> => {
-  const snapshot = await getDocs(collection(db, 'recipes'));
-  return snapshot.docs
-    .map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as Recipe))
-    .filter(recipe =>
-      recipe.name &&
-      Array.isArray(recipe.ingredients) &&
-      recipe.ingredients.every(ingredient => typeof ingredient === 'string')
-    );
-};
-
 export const getRecipeAI = async (recipeId: string): Promise<RecipeAI | null> => {
   const q = query(
     collection(db, 'recipeAi'),
@@ -189,16 +491,23 @@ export const getRecipeById = async (recipeId: string): Promise<Recipe | null> =>
 
 export const getRecommendedRecipes = async (userId: string): Promise<RecipeWithScore[]> => {
   // Get user's inventory
-  const inventory = await getInventory(userId);
-  const inventoryNames = inventory.map(item => item.name.toLowerCase());
+  // Statuses are recomputed here so the scorer follows the user's current thresholds,
+  // and expired stock is left out rather than suggested for cooking
+  const settings = await getExpirySettings(userId);
+  const inventory = (await getInventory(userId))
+    .map(item => ({ ...item, status: getItemStatus(item, settings) }))
+    .filter(item => item.status !== 'expired');
+  const stock = buildInventoryStock(inventory);
+  const inventoryNames = Array.from(stock.keys());
   const expiringItems = inventory
-    .filter(item => item.status !== 'fresh')
-    .map(item => item.name.toLowerCase());
+    .filter(item => isExpiringStatus(item.status) && inventoryNames.includes(item.name.toLowerCase().trim()))
+    .map(item => item.name.toLowerCase().trim());
   
-  // Get user's recipes only (filter by userId)
-  const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+  // Get the household's recipes only
+  const householdId = await getActiveHouseholdId(userId);
+  const q = query(collection(db, 'recipes'), where('householdId', '==', householdId));
   const snapshot = await getDocs(q);
-  console.log(`[getRecommendedRecipes] Found ${snapshot.docs.length} recipes for userId: ${userId}`);
+  console.log(`[getRecommendedRecipes] Found ${snapshot.docs.length} recipes for householdId: ${householdId}`);
   const recipes = snapshot.docs
     .map(doc => ({
       id: doc.id,
@@ -219,8 +528,10 @@ export const getRecommendedRecipes = async (userId: string): Promise<RecipeWithS
     const matchedIngredients: string[] = [];
     const expiringIngredients: string[] = [];
     const missingIngredients: string[] = [];
+    const partialIngredients: string[] = [];
+    const shortfalls: IngredientShortfall[] = [];
     
-    for (const ingredient of recipe.ingredients) {
+    for (const ingredient of recipe.ingredients as (string | Ingredient)[]) {
       // Handle both string and object ingredients
       const ingredientName = typeof ingredient === 'string' ? ingredient : ingredient?.name;
       
@@ -230,23 +541,32 @@ export const getRecommendedRecipes = async (userId: string): Promise<RecipeWithS
       }
 
       const ingredientLower = ingredientName.toLowerCase();
-      const isInInventory = inventoryNames.some(name => 
-        ingredientLower.includes(name) || name.includes(ingredientLower)
-      );
       const isExpiring = expiringItems.some(name => 
         ingredientLower.includes(name) || name.includes(ingredientLower)
       );
+      const required = typeof ingredient === 'string' ? null : toQuantity(ingredient.quantity, ingredient.unit);
+      const { held, shortfall } = getIngredientCoverage(ingredientName, required, stock);
+      const weight = isExpiring ? 2 : 1;
       
+      if (!held) {
+        score -= 1;
+        missingIngredients.push(ingredientName);
+        continue;
+      }
+
       if (isExpiring) {
-        score += 2;
         expiringIngredients.push(ingredientName);
-        matchedIngredients.push(ingredientName);
-      } else if (isInInventory) {
-        score += 1;
-        matchedIngredients.push(ingredientName);
+      }
+
+      if (shortfall) {
+        // Partially covered: scale between "missing" (-1) and a full match
+        const coverage = held.amount / shortfall.required.amount;
+        score += weight * coverage - (1 - coverage);
+        partialIngredients.push(ingredientName);
+        shortfalls.push(shortfall);
       } else {
-        score -= 1;
-        missingIngredients.push(ingredientName);
+        score += weight;
+        matchedIngredients.push(ingredientName);
       }
     }
     
@@ -258,6 +578,8 @@ export const getRecommendedRecipes = async (userId: string): Promise<RecipeWithS
       matchedIngredients,
       expiringIngredients,
       missingIngredients,
+      partialIngredients,
+      shortfalls,
       aiData: aiData || undefined
     });
   }
@@ -351,64 +673,67 @@ export const getStoreProducts = async (storeId: string): Promise<StoreProduct[]>
   } as StoreProduct));
 };
 
-// Get smart suggestions for shopping items
-export const getSmartSuggestions = async (
+// Whether a store product can stand in for a shopping list ingredient
+const matchesIngredient = (product: StoreProduct, ingredient: string): boolean => {
+  const ingredientLower = ingredient.toLowerCase();
+  const productNameLower = product.productName.toLowerCase();
+  const categoryLower = product.category.toLowerCase();
+  
+  // Helper function for whole-word matching
+  const matchesWord = (text: string, word: string): boolean => {
+    // Split text into words and check for exact match or variations
+    const words = text.replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 0);
+    
+    // Check exact match
+    if (words.includes(word)) return true;
+    
+    // Check plural/singular variations
+    const singular = word.replace(/s$/, '');
+    const plural = word + 's';
+    if (words.includes(plural) || words.includes(singular)) return true;
+    
+    // For longer words, allow substring match within words
+    if (word.length >= 5) {
+      return words.some(w => w.length >= word.length && w.includes(word));
+    }
+    
+    return false;
+  };
+  
+  // Match if ingredient is in product name, category, or keywords using whole-word matching
+  return (
+    matchesWord(productNameLower, ingredientLower) ||
+    matchesWord(ingredientLower, productNameLower) ||
+    product.keywords.some(kw => matchesWord(kw.toLowerCase(), ingredientLower)) ||
+    (categoryLower.includes('vegetable') && ingredientLower.includes('vegetable')) ||
+    (categoryLower.includes('dairy') && ingredientLower.includes('dairy')) ||
+    (categoryLower.includes('meat') && ingredientLower.includes('meat')) ||
+    (categoryLower.includes('fruit') && ingredientLower.includes('fruit'))
+  );
+};
+
+// Every in-stock product in the area that matches each ingredient, cheapest first
+export const getIngredientPrices = async (
   ingredients: string[],
   area: string
 ): Promise<{ [ingredient: string]: StoreProductWithStore[] }> => {
   const stores = await getStoresByArea(area);
   if (stores.length === 0) return {};
   
-  const storeMap = new Map(stores.map(s => [s.id!, s]));
-  const suggestions: { [ingredient: string]: StoreProductWithStore[] } = {};
+  // Each store's products are loaded once and matched against every ingredient
+  const storeProducts = await Promise.all(stores.map(async store => ({
+    store,
+    products: await getStoreProducts(store.id!)
+  })));
+  const prices: { [ingredient: string]: StoreProductWithStore[] } = {};
   
   for (const ingredient of ingredients) {
     const allMatches: StoreProductWithStore[] = [];
     
-    for (const storeId of Array.from(storeMap.keys())) {
-      const products = await getStoreProducts(storeId);
-      
+    for (const { store, products } of storeProducts) {
       products.forEach(product => {
-        const ingredientLower = ingredient.toLowerCase();
-        const productNameLower = product.productName.toLowerCase();
-        const categoryLower = product.category.toLowerCase();
-        
-        // Helper function for whole-word matching
-        const matchesWord = (text: string, word: string): boolean => {
-          // Split text into words and check for exact match or variations
-          const words = text.replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 0);
-          
-          // Check exact match
-          if (words.includes(word)) return true;
-          
-          // Check plural/singular variations
-          const singular = word.replace(/s$/, '');
-          const plural = word + 's';
-          if (words.includes(plural) || words.includes(singular)) return true;
-          
-          // For longer words, allow substring match within words
-          if (word.length >= 5) {
-            return words.some(w => w.length >= word.length && w.includes(word));
-          }
-          
-          return false;
-        };
-        
-        // Match if ingredient is in product name, category, or keywords using whole-word matching
-        const isMatch = 
-          matchesWord(productNameLower, ingredientLower) ||
-          matchesWord(ingredientLower, productNameLower) ||
-          product.keywords.some(kw => matchesWord(kw.toLowerCase(), ingredientLower)) ||
-          (categoryLower.includes('vegetable') && ingredientLower.includes('vegetable')) ||
-          (categoryLower.includes('dairy') && ingredientLower.includes('dairy')) ||
-          (categoryLower.includes('meat') && ingredientLower.includes('meat')) ||
-          (categoryLower.includes('fruit') && ingredientLower.includes('fruit'));
-        
-        if (isMatch && product.inStock) {
-          allMatches.push({
-            ...product,
-            store: storeMap.get(storeId)!
-          });
+        if (product.inStock && matchesIngredient(product, ingredient)) {
+          allMatches.push({ ...product, store });
         }
       });
     }
@@ -417,11 +742,22 @@ export const getSmartSuggestions = async (
     allMatches.sort((a, b) => a.price - b.price);
     
     if (allMatches.length > 0) {
-      suggestions[ingredient] = allMatches.slice(0, 3); // Top 3 suggestions
+      prices[ingredient] = allMatches;
     }
   }
   
-  return suggestions;
+  return prices;
+};
+
+// Get smart suggestions for shopping items
+export const getSmartSuggestions = async (
+  ingredients: string[],
+  area: string
+): Promise<{ [ingredient: string]: StoreProductWithStore[] }> => {
+  const prices = await getIngredientPrices(ingredients, area);
+  return Object.fromEntries(
+    Object.entries(prices).map(([ingredient, matches]) => [ingredient, matches.slice(0, 3)]) // Top 3 suggestions
+  );
 };
 
 export const searchStoreProducts = async (
@@ -590,7 +926,7 @@ export const seedSampleData = async (userId: string): Promise<void> => {
   const recipeRefs: string[] = [];
   for (const recipe of recipesData) {
     const ref = doc(collection(db, 'recipes'));
-    batch.set(ref, recipe);
+    batch.set(ref, { ...recipe, userId });
     recipeRefs.push(ref.id);
   }
   
@@ -0,0 +1,255 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  FirestoreError,
+  getDoc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  Timestamp,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ExpirySettings, Household, HouseholdRole } from '@/types';
+
+// Collections whose documents belong to a household. Legacy rows only carry userId.
+const HOUSEHOLD_SCOPED_COLLECTIONS = ['inventory', 'recipes', 'wasteLog', 'purchases'];
+
+// Firestore caps a batch at 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// Unambiguous characters only, so codes can be read out loud or typed on a phone
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Every inventory/recipe query needs the household, so keep it per user for the session
+const householdIdCache = new Map<string, string>();
+
+export const generateInviteCode = (length = 6): string => {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  return Array.from(values, value => INVITE_ALPHABET[value % INVITE_ALPHABET.length]).join('');
+};
+
+export const getHouseholdRole = (household: Household, userId: string): HouseholdRole | null => {
+  if (household.ownerId === userId) return 'owner';
+  return household.memberIds.includes(userId) ? 'member' : null;
+};
+
+export const getHousehold = async (householdId: string): Promise<Household | null> => {
+  const snap = await getDoc(doc(db, 'households', householdId));
+  if (!snap.exists()) return null;
+  return { id: snap.id, ...snap.data() } as Household;
+};
+
+// Create a household owned by the user and make it their active one, optionally
+// starting from expiry rules the user set up before households
+export const createHousehold = async (
+  userId: string,
+  name: string,
+  ownerName: string,
+  expirySettings?: ExpirySettings
+): Promise<string> => {
+  const householdRef = doc(collection(db, 'households'));
+  const inviteCode = generateInviteCode();
+  const household: Omit<Household, 'id'> = {
+    name: name.trim() || 'My Kitchen',
+    ownerId: userId,
+    memberIds: [userId],
+    memberNames: { [userId]: ownerName },
+    inviteCode,
+    createdAt: Timestamp.now()
+  };
+  if (expirySettings) household.expirySettings = expirySettings;
+
+  const batch = writeBatch(db);
+  batch.set(householdRef, household);
+  batch.set(doc(db, 'householdInvites', inviteCode), { householdId: householdRef.id, createdAt: Timestamp.now() });
+  batch.set(doc(db, 'users', userId), { householdId: householdRef.id, updatedAt: Timestamp.now() }, { merge: true });
+  await batch.commit();
+
+  householdIdCache.set(userId, householdRef.id);
+  return householdRef.id;
+};
+
+/**
+ * Stamp the user's own documents with a household id. Covers legacy rows that
+ * predate households and, with `fromHouseholdId`, items brought along when joining
+ * another one. Rows the user added to other households are left alone.
+ */
+export const migrateUserDataToHousehold = async (
+  userId: string,
+  householdId: string,
+  fromHouseholdId?: string
+): Promise<number> => {
+  const refs = [];
+  for (const collectionName of HOUSEHOLD_SCOPED_COLLECTIONS) {
+    const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+    refs.push(...snapshot.docs
+      .filter(d => {
+        const current = d.data().householdId;
+        return !current || (fromHouseholdId !== undefined && current === fromHouseholdId);
+      })
+      .map(d => d.ref));
+  }
+
+  for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    for (const ref of refs.slice(i, i + MAX_BATCH_WRITES)) {
+      batch.update(ref, { householdId });
+    }
+    await batch.commit();
+  }
+
+  return refs.length;
+};
+
+/**
+ * Stamp rows the user wrote without a household (the n8n webhooks only know the
+ * userId) with their current household, so household queries pick them up.
+ */
+export const adoptUnassignedDocs = async (collectionName: string, userId: string, householdId: string): Promise<number> => {
+  const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+  const unassigned = snapshot.docs.filter(d => !d.data().householdId);
+  for (let i = 0; i < unassigned.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    unassigned.slice(i, i + MAX_BATCH_WRITES).forEach(d => batch.update(d.ref, { householdId }));
+    await batch.commit();
+  }
+  return unassigned.length;
+};
+
+// Once per session, when the household is first resolved. Not awaited, so pages
+// never wait on the commit, which doesn't resolve at all while offline.
+const adoptUnassignedDocsInBackground = (userId: string, householdId: string) => {
+  for (const collectionName of ['inventory', 'recipes']) {
+    adoptUnassignedDocs(collectionName, userId, householdId)
+      .catch(error => console.error(`[adoptUnassignedDocs] ${collectionName} error`, error));
+  }
+};
+
+/**
+ * The household the user is currently using. Users from before households get a
+ * personal one on first use, and their existing data is moved into it.
+ */
+export const getActiveHouseholdId = async (userId: string): Promise<string> => {
+  const cached = householdIdCache.get(userId);
+  if (cached) return cached;
+
+  const userSnap = await getDoc(doc(db, 'users', userId));
+  const userData = userSnap.exists() ? userSnap.data() : null;
+  if (userData?.householdId) {
+    // A member who was removed can no longer read the household; start them a new one.
+    // Any other failure (offline, quota) must not cost the user their household.
+    const household = await getHousehold(userData.householdId).catch((error: unknown) => {
+      if (error instanceof FirestoreError && error.code === 'permission-denied') return null;
+      throw error;
+    });
+    if (household && getHouseholdRole(household, userId)) {
+      householdIdCache.set(userId, userData.householdId);
+      adoptUnassignedDocsInBackground(userId, userData.householdId);
+      return userData.householdId;
+    }
+    return createHousehold(userId, 'My Kitchen', userData.name || 'Me', userData.expirySettings);
+  }
+
+  const householdId = await createHousehold(userId, 'My Kitchen', userData?.name || 'Me', userData?.expirySettings);
+  await migrateUserDataToHousehold(userId, householdId);
+  return householdId;
+};
+
+// Remove a user from a household's member list and name map
+const removeMemberFields = (userId: string) => ({
+  memberIds: arrayRemove(userId),
+  [`memberNames.${userId}`]: deleteField()
+});
+
+/**
+ * Join a household by invite code. With `bringItems` the user's own inventory,
+ * recipes and waste log move across; otherwise they stay in the old household.
+ */
+export const joinHousehold = async (
+  userId: string,
+  userName: string,
+  inviteCode: string,
+  bringItems: boolean
+): Promise<string> => {
+  const code = inviteCode.trim().toUpperCase();
+  const inviteSnap = await getDoc(doc(db, 'householdInvites', code));
+  if (!inviteSnap.exists()) {
+    throw new Error('That invite code is not valid');
+  }
+
+  const householdId = inviteSnap.data().householdId as string;
+  const previousHouseholdId = await getActiveHouseholdId(userId);
+  if (previousHouseholdId === householdId) {
+    throw new Error('You are already in this household');
+  }
+  const previous = await getHousehold(previousHouseholdId);
+  if (previous && previous.ownerId === userId && previous.memberIds.length > 1) {
+    throw new Error('Remove the other members of your household before joining another one');
+  }
+
+  // The rules check the code on the user doc in the same batch as the membership change
+  const joinBatch = writeBatch(db);
+  joinBatch.update(doc(db, 'households', householdId), {
+    memberIds: arrayUnion(userId),
+    [`memberNames.${userId}`]: userName
+  });
+  joinBatch.set(doc(db, 'users', userId), { householdId, joinCode: code, updatedAt: Timestamp.now() }, { merge: true });
+  await joinBatch.commit();
+  householdIdCache.set(userId, householdId);
+
+  if (bringItems) {
+    await migrateUserDataToHousehold(userId, householdId, previousHouseholdId);
+  }
+
+  // Leave the old household last so the move above is still permitted
+  if (previous && previous.ownerId !== userId) {
+    await updateDoc(doc(db, 'households', previousHouseholdId), removeMemberFields(userId));
+  }
+
+  return householdId;
+};
+
+// Members only: leave the current household and start a fresh personal one.
+// Everything they added stays with the household.
+export const leaveHousehold = async (userId: string, userName: string): Promise<string> => {
+  const householdId = await getActiveHouseholdId(userId);
+  const household = await getHousehold(householdId);
+  if (household && household.ownerId === userId) {
+    throw new Error('The owner cannot leave their own household');
+  }
+
+  await updateDoc(doc(db, 'households', householdId), removeMemberFields(userId));
+  return createHousehold(userId, 'My Kitchen', userName);
+};
+
+export const renameHousehold = async (householdId: string, name: string): Promise<void> => {
+  if (!name.trim()) {
+    throw new Error('Household name is required');
+  }
+  await updateDoc(doc(db, 'households', householdId), { name: name.trim() });
+};
+
+// Owner only: remove another member. Their items stay with the household.
+export const removeHouseholdMember = async (household: Household, memberId: string): Promise<void> => {
+  if (memberId === household.ownerId) {
+    throw new Error('The owner cannot be removed');
+  }
+  await updateDoc(doc(db, 'households', household.id!), removeMemberFields(memberId));
+};
+
+// Owner only: replace the invite code so the old one stops working
+export const regenerateInviteCode = async (household: Household): Promise<string> => {
+  const inviteCode = generateInviteCode();
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'householdInvites', inviteCode), { householdId: household.id, createdAt: Timestamp.now() });
+  batch.update(doc(db, 'households', household.id!), { inviteCode });
+  await batch.commit();
+  await deleteDoc(doc(db, 'householdInvites', household.inviteCode));
+  return inviteCode;
+};
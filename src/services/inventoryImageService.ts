@@ -1,5 +1,10 @@
-import { InventoryItem } from '@/types';
+import { ExpirySettings, ImageDetection, InventoryItem, InventoryStatus } from '@/types';
 import { Timestamp } from 'firebase/firestore';
+import { DEFAULT_EXPIRY_SETTINGS, getItemStatus } from '@/lib/expiryStatus';
+import { createBatchId } from '@/lib/lots';
+import { suggestStorage } from '@/lib/putAway';
+import { getExpirySettings } from '@/services/firebaseService';
+import { detectItems, getVisionProvider, VisionResponseError } from '@/services/visionService';
 
 // Convert image file to base64
 export const imageToBase64 = (file: File): Promise<string> => {
@@ -14,97 +19,63 @@ export const imageToBase64 = (file: File): Promise<string> => {
   });
 };
 
-// Send image to webhook for AI processing
-export const addInventoryViaImage = async (
+// Ask the configured vision provider which items are in a photo. Nothing is
+// saved yet: the items share a batchId and go to the review step first.
+export const detectInventoryInImage = async (
   userId: string,
   imageFile: File
-): Promise<InventoryItem[]> => {
-  const WEBHOOK_URL = 'https://n8ngc.codeblazar.org/webhook/add-inventory-image';
-
+): Promise<ImageDetection> => {
   try {
+    const provider = getVisionProvider();
     const imageBase64 = await imageToBase64(imageFile);
+    const detected = await detectItems({
+      userId,
+      image: imageFile,
+      imageBase64,
+      mimeType: imageFile.type || 'image/jpeg'
+    }, provider);
 
-    const response = await fetch(WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        userId,
-        imageBase64
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Webhook failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const webhookData = await response.json();
-    console.log('Webhook response:', webhookData);
+    const settings = await getExpirySettings(userId);
+    const batchId = createBatchId();
+    const now = new Date();
 
-    // Extract items array from response (webhook may return { items: [] } or direct array)
-    let itemsArray: any[] = [];
-    if (Array.isArray(webhookData)) {
-      itemsArray = webhookData;
-    } else if (webhookData && Array.isArray(webhookData.items)) {
-      itemsArray = webhookData.items;
-    } else if (webhookData && Array.isArray(webhookData.data)) {
-      itemsArray = webhookData.data;
-    } else if (webhookData && typeof webhookData === 'object') {
-      // Try to find any array property in the response
-      const firstArrayProp = Object.values(webhookData).find(v => Array.isArray(v));
-      itemsArray = firstArrayProp as any[] || [];
-    }
-
-    // Transform webhook response to InventoryItem format
-    const items: InventoryItem[] = itemsArray.map((item: any) => {
-      // Parse expiry date if it's a string
-      let expiryDate: Timestamp | Date;
-      if (typeof item.expiryDate === 'string') {
-        expiryDate = Timestamp.fromDate(new Date(item.expiryDate));
-      } else if (item.expiryDate instanceof Timestamp) {
-        expiryDate = item.expiryDate;
-      } else {
-        expiryDate = Timestamp.fromDate(new Date());
-      }
-
-      // Parse quantity
-      const quantity = typeof item.quantity === 'string' ? parseInt(item.quantity, 10) : item.quantity || 1;
-
-      // Calculate status
-      const status = calculateItemStatus(expiryDate);
+    // Fill in what the photo couldn't show from the usual storage and shelf life for the category
+    const items = detected.map((item): InventoryItem => {
+      const suggestion = suggestStorage(item.category, item.name);
+      const storage = item.storage ?? suggestion.storage;
+      const expiryDate = Timestamp.fromDate(
+        item.expiryDate ?? new Date(now.getTime() + suggestion.shelfLifeDays * 24 * 60 * 60 * 1000)
+      );
 
       return {
         userId,
-        name: item._name || item.name || 'Unknown Item',
-        category: item.category || 'Uncategorized',
-        quantity: quantity,
-        quantityUnit: item.quantityUnit || item.unit || 'pcs',
+        name: item.name,
+        category: item.category,
+        quantity: item.quantity,
+        quantityUnit: item.quantityUnit,
         expiryDate,
-        storage: item.storage || 'fridge' as 'fridge' | 'freezer' | 'pantry',
+        storage,
         reorderThreshold: 2,
         isLowStock: false,
-        status,
+        status: calculateItemStatus(expiryDate, { category: item.category, storage }, settings),
         source: 'ai',
+        aiConfidence: item.confidence,
+        batchId,
         createdAt: Timestamp.now()
       };
     });
 
-    return items;
+    return { batchId, provider: provider.id, items };
   } catch (error) {
-    console.error('Inventory image webhook error:', error);
+    console.error('Inventory image detection error:', error);
+    if (error instanceof VisionResponseError) throw error;
     throw new Error(`Failed to process image: ${error.message}`);
   }
 };
 
-// Helper to calculate item status based on expiry date
-export const calculateItemStatus = (expiryDate: Timestamp | Date): 'fresh' | 'expiringSoon' | 'almostExpired' => {
-  const now = new Date();
-  const expiry = expiryDate instanceof Timestamp ? expiryDate.toDate() : expiryDate;
-  const daysUntilExpiry = Math.ceil((expiry.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-  
-  if (daysUntilExpiry <= 2) return 'almostExpired';
-  if (daysUntilExpiry <= 5) return 'expiringSoon';
-  return 'fresh';
-};
+// Helper to calculate item status based on expiry date, category and storage
+export const calculateItemStatus = (
+  expiryDate: Timestamp | Date,
+  item: Partial<Pick<InventoryItem, 'category' | 'storage'>> = {},
+  settings: ExpirySettings = DEFAULT_EXPIRY_SETTINGS
+): InventoryStatus => getItemStatus({ ...item, expiryDate }, settings);
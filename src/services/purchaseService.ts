@@ -0,0 +1,50 @@
+import { collection, doc, getDocs, query, setDoc, where, WriteBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getActiveHouseholdId } from '@/services/householdService';
+import { applyPendingWrites, enqueueWrite, registerSyncHandler } from '@/services/syncQueue';
+import { Purchase } from '@/types';
+
+/**
+ * Record what was paid for items that were just queued into the inventory.
+ * Purchases are queued behind those writes, so they sync once we're online and
+ * a rejected one shows up in the sync status to retry or discard.
+ */
+export const recordPurchases = (purchases: Purchase[]): void => {
+  for (const purchase of purchases) {
+    enqueueWrite({
+      kind: 'purchase.add',
+      collection: 'purchases',
+      docId: doc(collection(db, 'purchases')).id,
+      change: 'add',
+      data: { ...purchase }
+    });
+  }
+};
+
+// For callers that write the inventory in a batch: the purchases commit or fail with it
+export const addPurchasesToBatch = (batch: WriteBatch, purchases: Purchase[]): void => {
+  for (const purchase of purchases) {
+    batch.set(doc(collection(db, 'purchases')), purchase);
+  }
+};
+
+// The fixed id makes a replay after a timeout harmless
+registerSyncHandler('purchase.add', async (write) => {
+  await setDoc(doc(db, 'purchases', write.docId), write.data);
+});
+
+// The whole household's purchases, newest first
+export const getPurchases = async (userId: string): Promise<Purchase[]> => {
+  const householdId = await getActiveHouseholdId(userId);
+  const q = query(collection(db, 'purchases'), where('householdId', '==', householdId));
+  const snapshot = await getDocs(q);
+  const purchases = snapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as Purchase));
+
+  // Sort by purchasedAt in code (descending) to avoid a composite index
+  return applyPendingWrites('purchases', purchases)
+    .filter(purchase => purchase.householdId === householdId)
+    .sort((a, b) => b.purchasedAt.toMillis() - a.purchasedAt.toMillis());
+};
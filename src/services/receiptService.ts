@@ -0,0 +1,108 @@
+import { Timestamp } from 'firebase/firestore';
+import { createBatchId } from '@/lib/lots';
+import { findInventoryMatch } from '@/lib/putAway';
+import { convertQuantity, normalizeUnit } from '@/lib/units';
+import { addInventoryItem, addInventoryLot } from '@/services/firebaseService';
+import { getActiveHouseholdId } from '@/services/householdService';
+import { recordPurchases } from '@/services/purchaseService';
+import { InventoryItem, Purchase, QuantityUnit, StorageLocation } from '@/types';
+
+// One receipt line as confirmed in the review step
+export interface ReceiptImportRow {
+  name: string;
+  category: string;
+  productId?: string;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  price: number;
+  storage: StorageLocation;
+  expiryDate: Date;
+}
+
+/**
+ * Read the text off a receipt photo in the browser. Tesseract is loaded on
+ * first use since it's large, and downloads its English model the first time.
+ */
+export const recognizeReceiptText = async (
+  image: File,
+  onProgress?: (progress: number) => void
+): Promise<string> => {
+  const { default: Tesseract } = await import('tesseract.js');
+  const { data } = await Tesseract.recognize(image, 'eng', {
+    logger: (message) => {
+      if (message.status === 'recognizing text') onProgress?.(message.progress);
+    }
+  });
+  return data.text;
+};
+
+/**
+ * Add the confirmed receipt lines to the inventory and record what each one
+ * cost. Items already on the shelf get a new lot instead of a second row.
+ */
+export const importReceipt = async (
+  userId: string,
+  receipt: { store: string; purchasedAt: Date },
+  rows: ReceiptImportRow[],
+  inventory: InventoryItem[]
+): Promise<{ added: number; merged: number }> => {
+  const householdId = await getActiveHouseholdId(userId);
+  const receiptId = createBatchId();
+  const purchasedAt = Timestamp.fromDate(receipt.purchasedAt);
+  const purchases: Purchase[] = [];
+  let added = 0;
+  let merged = 0;
+
+  for (const row of rows) {
+    const name = row.name.trim();
+    const expiryDate = Timestamp.fromDate(row.expiryDate);
+    const existing = findInventoryMatch(name, row.productId, row.quantityUnit, inventory);
+    let inventoryItemId: string;
+
+    if (existing) {
+      const unit = normalizeUnit(existing.quantityUnit) ?? 'pcs';
+      await addInventoryLot(existing.id!, {
+        quantity: convertQuantity(row.quantity, row.quantityUnit, unit, existing.name) ?? row.quantity,
+        expiryDate
+      });
+      inventoryItemId = existing.id!;
+      merged++;
+    } else {
+      inventoryItemId = await addInventoryItem({
+        userId,
+        householdId,
+        ...(row.productId ? { productId: row.productId } : {}),
+        name,
+        category: row.category,
+        quantity: row.quantity,
+        quantityUnit: row.quantityUnit,
+        expiryDate,
+        storage: row.storage,
+        reorderThreshold: 2,
+        reorderThresholdUnit: row.quantityUnit,
+        source: 'receipt',
+        batchId: receiptId
+      });
+      added++;
+    }
+
+    purchases.push({
+      userId,
+      householdId,
+      inventoryItemId,
+      ...(row.productId ? { productId: row.productId } : {}),
+      name,
+      category: row.category,
+      quantity: row.quantity,
+      quantityUnit: row.quantityUnit,
+      price: Math.round(row.price * 100) / 100,
+      store: receipt.store,
+      receiptId,
+      source: 'receipt',
+      purchasedAt
+    });
+  }
+
+  recordPurchases(purchases);
+  return { added, merged };
+};
@@ -0,0 +1,391 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  Timestamp,
+  Unsubscribe,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { normalizeUnit } from '@/lib/units';
+import { createBatchId, getItemLots, sortLotsByExpiry } from '@/lib/lots';
+import { getMergeQuantity, PutAwayDraft } from '@/lib/putAway';
+import { mergeQuantityEdit } from '@/lib/quantityMerge';
+import { buildLotUpdate, calculateStatus, getHouseholdExpirySettings, isLowStock } from '@/services/firebaseService';
+import { addPurchasesToBatch } from '@/services/purchaseService';
+import {
+  applyPendingWrites,
+  enqueueWrite,
+  registerSyncHandler,
+  subscribeToPendingWrites,
+  wasWriteApplied,
+  withSyncedWriteId
+} from '@/services/syncQueue';
+import { InventoryItem, InventoryLot, Purchase, ShoppingList, ShoppingListItem } from '@/types';
+
+// Firestore caps a batch at 500 writes
+const MAX_BATCH_WRITES = 500;
+
+export const DEFAULT_LIST_NAME = 'Shopping List';
+
+// What callers provide for a new item; the service fills in ownership and timestamps
+export type ShoppingListItemDraft = Pick<ShoppingListItem, 'ingredient'> &
+  Partial<Pick<ShoppingListItem, 'recipes' | 'hasInInventory' | 'inventoryQuantity' | 'shortfall' | 'quantity'>>;
+
+const normalizeIngredient = (ingredient: string) => ingredient.toLowerCase().trim();
+
+// Missing items first, then the ones most recipes need, then oldest first
+export const sortShoppingListItems = (items: ShoppingListItem[]): ShoppingListItem[] =>
+  [...items].sort((a, b) => {
+    if (a.hasInInventory !== b.hasInInventory) {
+      return a.hasInInventory ? 1 : -1;
+    }
+    if (a.recipes.length !== b.recipes.length) {
+      return b.recipes.length - a.recipes.length;
+    }
+    return a.addedAt.toMillis() - b.addedAt.toMillis();
+  });
+
+const getListItems = async (householdId: string, listId: string): Promise<ShoppingListItem[]> => {
+  const q = query(
+    collection(db, 'shoppingListItems'),
+    where('householdId', '==', householdId),
+    where('listId', '==', listId)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ShoppingListItem));
+};
+
+// Live view of the household's lists, oldest first
+export const subscribeToShoppingLists = (
+  householdId: string,
+  onChange: (lists: ShoppingList[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(collection(db, 'shoppingLists'), where('householdId', '==', householdId));
+  return onSnapshot(q, (snapshot) => {
+    const lists = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ShoppingList));
+    // Sort by createdAt in code to avoid a composite index
+    onChange(lists.sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis()));
+  }, onError);
+};
+
+// Live view of one list's items, so check-offs show up on every device.
+// Edits still waiting to sync are layered on top and re-emitted as they go through.
+export const subscribeToShoppingListItems = (
+  householdId: string,
+  listId: string,
+  onChange: (items: ShoppingListItem[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'shoppingListItems'),
+    where('householdId', '==', householdId),
+    where('listId', '==', listId)
+  );
+  let latest: ShoppingListItem[] = [];
+  const emit = () => {
+    const items = applyPendingWrites('shoppingListItems', latest).filter(item => item.listId === listId);
+    onChange(sortShoppingListItems(items));
+  };
+
+  const unsubscribeSnapshot = onSnapshot(q, (snapshot) => {
+    latest = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ShoppingListItem));
+    emit();
+  }, onError);
+  const unsubscribeQueue = subscribeToPendingWrites(emit);
+
+  return () => {
+    unsubscribeSnapshot();
+    unsubscribeQueue();
+  };
+};
+
+export const createShoppingList = async (userId: string, householdId: string, name: string): Promise<string> => {
+  const listRef = doc(collection(db, 'shoppingLists'));
+  const now = Timestamp.now();
+  const list: Omit<ShoppingList, 'id'> = {
+    householdId,
+    name: name.trim() || DEFAULT_LIST_NAME,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await setDoc(listRef, list);
+  return listRef.id;
+};
+
+export const renameShoppingList = async (listId: string, name: string): Promise<void> => {
+  if (!name.trim()) {
+    throw new Error('List name cannot be empty');
+  }
+  await updateDoc(doc(db, 'shoppingLists', listId), { name: name.trim(), updatedAt: Timestamp.now() });
+};
+
+// Delete the list and every item on it
+export const deleteShoppingList = async (householdId: string, listId: string): Promise<void> => {
+  await clearShoppingList(householdId, listId);
+  await deleteDoc(doc(db, 'shoppingLists', listId));
+};
+
+/**
+ * Add items to a list. An ingredient already on the list is updated in place:
+ * its recipes are merged and the inventory coverage refreshed, but the
+ * quantity and check-off state someone set are kept.
+ */
+export const addShoppingListItems = async (
+  userId: string,
+  householdId: string,
+  listId: string,
+  drafts: ShoppingListItemDraft[]
+): Promise<number> => {
+  const existing = new Map(
+    (await getListItems(householdId, listId)).map(item => [normalizeIngredient(item.ingredient), item])
+  );
+  const now = Timestamp.now();
+  let batch = writeBatch(db);
+  let writes = 0;
+
+  for (const draft of drafts) {
+    const ingredient = draft.ingredient.trim();
+    if (!ingredient) continue;
+
+    const coverage = {
+      hasInInventory: draft.hasInInventory ?? false,
+      inventoryQuantity: draft.inventoryQuantity ?? null,
+      shortfall: draft.shortfall ?? null
+    };
+    const match = existing.get(normalizeIngredient(ingredient));
+
+    if (match?.id) {
+      batch.update(doc(db, 'shoppingListItems', match.id), {
+        ...coverage,
+        recipes: Array.from(new Set([...match.recipes, ...(draft.recipes || [])]))
+      });
+    } else {
+      const item: Omit<ShoppingListItem, 'id'> = {
+        listId,
+        householdId,
+        ingredient,
+        recipes: draft.recipes || [],
+        ...coverage,
+        quantity: draft.quantity ?? 1,
+        checked: false,
+        checkedBy: null,
+        addedBy: userId,
+        addedAt: now
+      };
+      batch.set(doc(collection(db, 'shoppingListItems')), item);
+    }
+    writes++;
+    if (writes % MAX_BATCH_WRITES === 0) {
+      await batch.commit();
+      batch = writeBatch(db);
+    }
+  }
+
+  batch.update(doc(db, 'shoppingLists', listId), { updatedAt: now });
+  await batch.commit();
+  return writes;
+};
+
+export const addShoppingListItem = async (
+  userId: string,
+  householdId: string,
+  listId: string,
+  ingredient: string
+): Promise<void> => {
+  await addShoppingListItems(userId, householdId, listId, [{ ingredient }]);
+};
+
+// Edits are queued so checking things off works without signal in the store
+export const updateShoppingListItem = async (
+  item: ShoppingListItem,
+  changes: Partial<Pick<ShoppingListItem, 'ingredient' | 'quantity'>>
+): Promise<void> => {
+  const update: Partial<ShoppingListItem> = { ...changes };
+  if (changes.ingredient !== undefined) {
+    if (!changes.ingredient.trim()) {
+      throw new Error('Item name cannot be empty');
+    }
+    update.ingredient = changes.ingredient.trim();
+  }
+  if (changes.quantity !== undefined) {
+    update.quantity = Math.max(1, Math.round(changes.quantity) || 1);
+  }
+  enqueueWrite({
+    kind: 'shoppingListItem.update',
+    collection: 'shoppingListItems',
+    docId: item.id!,
+    change: 'update',
+    data: update,
+    baseQuantity: update.quantity !== undefined ? item.quantity : undefined
+  });
+};
+
+// Check an item off (or back on), remembering who picked it up
+export const setShoppingListItemChecked = async (userId: string, itemId: string, checked: boolean): Promise<void> => {
+  enqueueWrite({
+    kind: 'shoppingListItem.update',
+    collection: 'shoppingListItems',
+    docId: itemId,
+    change: 'update',
+    data: { checked, checkedBy: checked ? userId : null }
+  });
+};
+
+export const removeShoppingListItem = async (itemId: string): Promise<void> => {
+  enqueueWrite({ kind: 'shoppingListItem.delete', collection: 'shoppingListItems', docId: itemId, change: 'delete' });
+};
+
+// Last write wins for names and check-offs; quantities merge like inventory edits
+registerSyncHandler('shoppingListItem.update', async (write) => {
+  const itemRef = doc(db, 'shoppingListItems', write.docId);
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(itemRef);
+    // Removed on another device (the removal wins), or already applied before a timeout
+    if (!snap.exists()) return;
+    const current = snap.data() as ShoppingListItem;
+    if (wasWriteApplied(write, current)) return;
+
+    const update = { ...write.data } as Partial<ShoppingListItem>;
+    if (write.baseQuantity !== undefined && update.quantity !== undefined) {
+      update.quantity = Math.max(1, mergeQuantityEdit(write.baseQuantity, update.quantity, current.quantity));
+    }
+    transaction.update(itemRef, { ...update, syncedWriteIds: withSyncedWriteId(write, current) });
+  });
+});
+
+registerSyncHandler('shoppingListItem.delete', async (write) => {
+  await deleteDoc(doc(db, 'shoppingListItems', write.docId));
+});
+
+// Remove every item but keep the list itself
+export const clearShoppingList = async (householdId: string, listId: string): Promise<void> => {
+  const items = await getListItems(householdId, listId);
+  for (let i = 0; i < items.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    for (const item of items.slice(i, i + MAX_BATCH_WRITES)) {
+      batch.delete(doc(db, 'shoppingListItems', item.id!));
+    }
+    await batch.commit();
+  }
+};
+
+/**
+ * Move bought items into the inventory and off the list in one batch.
+ * A purchase of something already on the shelf becomes a new lot on that row, as
+ * long as it goes in the same storage and its unit converts to the row's;
+ * anything else becomes a new inventory item with `source: 'shopping'`.
+ * Each lot gets its own batchId; lots from one put-away share a putAwayId.
+ * Rows with a price are also recorded as purchases at `store`, in the same batch.
+ */
+export const putAwayShoppingItems = async (
+  userId: string,
+  householdId: string,
+  drafts: PutAwayDraft[],
+  store?: string
+): Promise<{ created: number; merged: number }> => {
+  // Each item is up to three writes: its inventory row, its list row and its purchase
+  const maxItems = Math.floor(MAX_BATCH_WRITES / 3);
+  if (drafts.length > maxItems) {
+    throw new Error(`Put away at most ${maxItems} items at a time`);
+  }
+
+  const batch = writeBatch(db);
+  const putAwayId = createBatchId();
+  const now = Timestamp.now();
+  const settings = await getHouseholdExpirySettings(householdId);
+  const purchases: Purchase[] = [];
+  let created = 0;
+
+  // Re-read rows being added to so edits made while the dialog was open are kept
+  const targets = new Map<string, InventoryItem>();
+  for (const itemId of new Set(drafts.map(draft => draft.mergeIntoId).filter((id): id is string => !!id))) {
+    const snap = await getDoc(doc(db, 'inventory', itemId));
+    if (!snap.exists()) {
+      throw new Error('An inventory item was removed while putting away. Please try again.');
+    }
+    targets.set(itemId, snap.data() as InventoryItem);
+  }
+  const newLots = new Map<string, InventoryLot[]>();
+
+  for (const draft of drafts) {
+    const expiryDate = Timestamp.fromDate(draft.expiryDate);
+    const lot: InventoryLot = { batchId: createBatchId(), quantity: draft.quantity, expiryDate, addedAt: now, putAwayId };
+
+    // A purchase kept elsewhere, or in a unit the row can't take, gets its own row
+    const target = draft.mergeIntoId ? targets.get(draft.mergeIntoId) : undefined;
+    const mergeQuantity = target ? getMergeQuantity(draft, target) : null;
+
+    let inventoryItemId: string;
+
+    if (draft.mergeIntoId && mergeQuantity !== null) {
+      newLots.set(draft.mergeIntoId, [...(newLots.get(draft.mergeIntoId) || []), { ...lot, quantity: mergeQuantity }]);
+      inventoryItemId = draft.mergeIntoId;
+    } else {
+      const quantityUnit = normalizeUnit(draft.quantityUnit) ?? draft.quantityUnit;
+      const item: Omit<InventoryItem, 'id'> = {
+        userId,
+        householdId,
+        name: draft.name,
+        category: draft.category,
+        quantity: draft.quantity,
+        quantityUnit,
+        expiryDate,
+        lots: [lot],
+        storage: draft.storage,
+        reorderThreshold: 2,
+        reorderThresholdUnit: quantityUnit,
+        isLowStock: false,
+        status: calculateStatus([lot], draft, settings),
+        source: 'shopping',
+        batchId: lot.batchId,
+        createdAt: now
+      };
+      if (draft.productId) item.productId = draft.productId;
+      item.isLowStock = isLowStock(item);
+      const itemRef = doc(collection(db, 'inventory'));
+      batch.set(itemRef, item);
+      inventoryItemId = itemRef.id;
+      created++;
+    }
+    batch.delete(doc(db, 'shoppingListItems', draft.shoppingItemId));
+
+    if (typeof draft.price === 'number') {
+      purchases.push({
+        userId,
+        householdId,
+        inventoryItemId,
+        ...(draft.productId ? { productId: draft.productId } : {}),
+        name: draft.name,
+        category: draft.category || 'Uncategorized',
+        quantity: draft.quantity,
+        quantityUnit: draft.quantityUnit,
+        price: Math.round(draft.price * 100) / 100,
+        ...(store ? { store } : {}),
+        source: 'shopping',
+        purchasedAt: now
+      });
+    }
+  }
+
+  for (const [itemId, lots] of newLots) {
+    const current = targets.get(itemId)!;
+    const merged = sortLotsByExpiry([...getItemLots(current).filter(lot => lot.quantity > 0), ...lots]);
+    batch.update(doc(db, 'inventory', itemId), buildLotUpdate(current, merged, settings));
+  }
+
+  addPurchasesToBatch(batch, purchases);
+  await batch.commit();
+  return { created, merged: drafts.length - created };
+};
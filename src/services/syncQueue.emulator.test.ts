@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Firestore } from 'firebase/firestore';
+import type { InventoryItem, PendingWrite } from '@/types';
+
+// Runs against the Firestore emulator: `npm run test:emulator` starts one and sets
+// FIRESTORE_EMULATOR_HOST. Without it these tests are skipped.
+const EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST;
+const PROJECT_ID = 'demo-freshkeep';
+const STORAGE_KEY = 'freshkeep.pendingWrites';
+
+// The app's db is swapped for one on the emulator, kept across vi.resetModules()
+// so a "reload" reuses the same connection
+const emulator = vi.hoisted(() => ({ db: null as Firestore | null }));
+
+vi.mock('@/lib/firebase', async () => {
+  const { initializeApp } = await import('firebase/app');
+  const { connectFirestoreEmulator, getFirestore } = await import('firebase/firestore');
+  if (!emulator.db) {
+    const app = initializeApp({ projectId: 'demo-freshkeep', apiKey: 'demo-key' }, 'sync-queue-test');
+    emulator.db = getFirestore(app);
+    const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? '').split(':');
+    connectFirestoreEmulator(emulator.db, host, Number(port));
+  }
+  return { db: emulator.db, auth: null, functions: null };
+});
+
+// The queue persists to localStorage, which Node doesn't have
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+
+// These tests cover the merge, not firestore.rules, so every write is allowed
+const OPEN_RULES = `rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    match /{document=**} { allow read, write: if true; }
+  }
+}`;
+
+const emulatorUrl = (path: string) => `http://${EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}${path}`;
+
+// Import the queue and its inventory handlers the way the app does on page load
+const loadApp = async () => {
+  const syncQueue = await import('@/services/syncQueue');
+  await import('@/services/firebaseService');
+  return syncQueue;
+};
+
+const seedItem = async (docId: string, quantity: number) => {
+  const { doc, setDoc, Timestamp } = await import('firebase/firestore');
+  const expiryDate = Timestamp.fromDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+  await setDoc(doc(emulator.db!, 'inventory', docId), {
+    userId: 'alice',
+    householdId: 'household-1',
+    name: 'Milk',
+    category: 'Dairy',
+    storage: 'fridge',
+    quantity,
+    quantityUnit: 'L',
+    expiryDate,
+    lots: [{ batchId: 'batch-1', quantity, expiryDate }],
+    status: 'fresh',
+  });
+};
+
+const readItem = async (docId: string) => {
+  const { doc, getDoc } = await import('firebase/firestore');
+  return (await getDoc(doc(emulator.db!, 'inventory', docId))).data() as InventoryItem & { syncedWriteIds?: string[] };
+};
+
+const quantityEdit = (docId: string, baseQuantity: number, quantity: number) => ({
+  kind: 'inventory.update',
+  collection: 'inventory' as const,
+  docId,
+  change: 'update' as const,
+  data: { quantity },
+  edit: { quantity },
+  baseQuantity,
+});
+
+describe.skipIf(!EMULATOR_HOST)('sync queue against the Firestore emulator', () => {
+  beforeAll(async () => {
+    const response = await fetch(emulatorUrl(':securityRules'), {
+      method: 'PUT',
+      body: JSON.stringify({ rules: { files: [{ content: OPEN_RULES }] } }),
+    });
+    expect(response.ok).toBe(true);
+  });
+
+  beforeEach(async () => {
+    storage.clear();
+    vi.resetModules();
+    await fetch(emulatorUrl('/databases/(default)/documents'), { method: 'DELETE' });
+  });
+
+  afterAll(async () => {
+    const { terminate } = await import('firebase/firestore');
+    if (emulator.db) await terminate(emulator.db);
+  });
+
+  it('merges two edits made from the same starting quantity', async () => {
+    await seedItem('milk', 5);
+    const { enqueueWrite, flushPendingWrites, getPendingWrites } = await loadApp();
+
+    // One phone took 2 and another took 1, both while they still saw 5
+    enqueueWrite(quantityEdit('milk', 5, 3));
+    enqueueWrite(quantityEdit('milk', 5, 4));
+    await flushPendingWrites();
+    await flushPendingWrites();
+
+    const item = await readItem('milk');
+    expect(item.quantity).toBe(2);
+    expect(item.lots?.reduce((sum, lot) => sum + lot.quantity, 0)).toBe(2);
+    expect(item.syncedWriteIds).toHaveLength(2);
+    expect(getPendingWrites()).toEqual([]);
+  });
+
+  it('keeps a change made on the server after the edit was queued', async () => {
+    await seedItem('milk', 10);
+    const { enqueueWrite, flushPendingWrites } = await loadApp();
+
+    // Queued offline while the device still saw 5; someone has since restocked to 10
+    enqueueWrite(quantityEdit('milk', 5, 3));
+    await flushPendingWrites();
+
+    expect((await readItem('milk')).quantity).toBe(8);
+  });
+
+  it('does not apply a replayed queue entry twice', async () => {
+    await seedItem('milk', 5);
+    const first = await loadApp();
+    const write = first.enqueueWrite(quantityEdit('milk', 5, 3));
+    await first.flushPendingWrites();
+    expect((await readItem('milk')).quantity).toBe(3);
+
+    // The commit reached the server but the device timed out and kept the entry;
+    // after a reload the same write is sent again
+    const replayed: PendingWrite = { ...write, attempts: 1 };
+    storage.set(STORAGE_KEY, JSON.stringify([replayed]));
+    vi.resetModules();
+    const reloaded = await loadApp();
+    expect(reloaded.getPendingWrites()).toHaveLength(1);
+    await reloaded.flushPendingWrites();
+
+    const item = await readItem('milk');
+    expect(item.quantity).toBe(3);
+    expect(item.syncedWriteIds).toEqual([write.id]);
+    expect(reloaded.getPendingWrites()).toEqual([]);
+  });
+});
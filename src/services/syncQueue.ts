@@ -0,0 +1,194 @@
+import { FirestoreError, Timestamp } from 'firebase/firestore';
+import { PendingWrite } from '@/types';
+
+// Writes are applied by a handler registered for their kind, so services keep
+// their own Firestore logic and this module only orders, stores and retries them
+type SyncHandler = (write: PendingWrite) => Promise<void>;
+type PendingWritesListener = (writes: PendingWrite[]) => void;
+
+const STORAGE_KEY = 'freshkeep.pendingWrites';
+// A write that hangs this long is treated like a dropped connection and retried
+const SYNC_TIMEOUT_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+// How many applied write ids a document remembers, to skip replays after a timeout
+const MAX_SYNCED_WRITE_IDS = 20;
+
+// Errors that mean "try again later" rather than "this write can never succeed"
+const RETRYABLE_CODES = ['unavailable', 'deadline-exceeded', 'resource-exhausted', 'aborted', 'internal', 'unknown'];
+
+const handlers = new Map<string, SyncHandler>();
+const listeners = new Set<PendingWritesListener>();
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// localStorage only holds JSON, so Timestamps and Dates are tagged on the way in and restored on the way out
+function encodeValue(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (raw instanceof Timestamp) return { __timestamp: raw.toMillis() };
+  if (raw instanceof Date) return { __date: raw.getTime() };
+  return value;
+}
+
+const decodeValue = (_key: string, value: unknown): unknown => {
+  if (value && typeof value === 'object') {
+    const tagged = value as { __timestamp?: number; __date?: number };
+    if (typeof tagged.__timestamp === 'number') return Timestamp.fromMillis(tagged.__timestamp);
+    if (typeof tagged.__date === 'number') return new Date(tagged.__date);
+  }
+  return value;
+};
+
+const loadQueue = (): PendingWrite[] => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return stored ? JSON.parse(stored, decodeValue) : [];
+  } catch (error) {
+    console.error('[syncQueue] could not read pending writes:', error);
+    return [];
+  }
+};
+
+let queue: PendingWrite[] = loadQueue();
+
+const saveQueue = (next: PendingWrite[]) => {
+  queue = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queue, encodeValue));
+  } catch (error) {
+    console.error('[syncQueue] could not store pending writes:', error);
+  }
+  listeners.forEach(listener => listener(queue));
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const isRetryable = (error: unknown): boolean =>
+  !(error instanceof FirestoreError) || RETRYABLE_CODES.includes(error.code);
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for Firestore')), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const scheduleRetry = (attempts: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempts);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushPendingWrites();
+  }, delay);
+};
+
+const isWaiting = (write: PendingWrite) => write.failedAt === undefined;
+
+// Replay queued writes oldest first, stopping at the first one that can't get through yet.
+// Failed writes stay queued, and visible, until they are retried or discarded.
+const runFlush = async () => {
+  while (isOnline()) {
+    const write = queue.find(isWaiting);
+    if (!write) return;
+    const handler = handlers.get(write.kind);
+    // The service that owns this kind hasn't loaded yet; it flushes when it registers
+    if (!handler) return;
+
+    try {
+      await withTimeout(handler(write), SYNC_TIMEOUT_MS);
+      saveQueue(queue.filter(w => w.id !== write.id));
+    } catch (error) {
+      if (isRetryable(error)) {
+        const attempts = write.attempts + 1;
+        saveQueue(queue.map(w => w.id === write.id ? { ...w, attempts } : w));
+        scheduleRetry(attempts);
+        return;
+      }
+      console.error(`[syncQueue] ${write.kind} for ${write.docId} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      saveQueue(queue.map(w => w.id === write.id ? { ...w, failedAt: Date.now(), error: message } : w));
+    }
+  }
+};
+
+export const flushPendingWrites = (): Promise<void> => {
+  if (!flushing) {
+    flushing = runFlush().finally(() => { flushing = null; });
+  }
+  return flushing;
+};
+
+export const registerSyncHandler = (kind: string, handler: SyncHandler): void => {
+  handlers.set(kind, handler);
+  flushPendingWrites();
+};
+
+/**
+ * Queue a write and try to send it straight away. Returns once the write is
+ * stored locally, so the UI never waits on the network.
+ */
+export const enqueueWrite = (write: Omit<PendingWrite, 'id' | 'queuedAt' | 'attempts'>): PendingWrite => {
+  const pending: PendingWrite = { ...write, id: crypto.randomUUID(), queuedAt: Date.now(), attempts: 0 };
+  saveQueue([...queue, pending]);
+  flushPendingWrites();
+  return pending;
+};
+
+/**
+ * A timed-out write may still have reached the server, so handlers that aren't
+ * idempotent record each applied write id on the document and skip repeats.
+ */
+export const wasWriteApplied = (write: PendingWrite, current: { syncedWriteIds?: string[] }): boolean =>
+  (current.syncedWriteIds || []).includes(write.id);
+
+export const withSyncedWriteId = (write: PendingWrite, current: { syncedWriteIds?: string[] }): string[] =>
+  [...(current.syncedWriteIds || []), write.id].slice(-MAX_SYNCED_WRITE_IDS);
+
+// Send a failed write again, e.g. after the user fixed their household membership
+export const retryFailedWrite = (id: string): Promise<void> => {
+  saveQueue(queue.map(w => w.id === id ? { ...w, failedAt: undefined, error: undefined, attempts: 0 } : w));
+  return flushPendingWrites();
+};
+
+// Give up on a failed write; the document keeps whatever the server has
+export const discardFailedWrite = (id: string): void => {
+  saveQueue(queue.filter(w => w.id !== id));
+};
+
+export const getPendingWrites = (): PendingWrite[] => queue;
+
+export const subscribeToPendingWrites = (listener: PendingWritesListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Ids of documents in a collection that have writes still waiting to sync
+export const getPendingDocIds = (collectionName: PendingWrite['collection'], writes = queue): Set<string> =>
+  new Set(writes.filter(w => w.collection === collectionName && isWaiting(w)).map(w => w.docId));
+
+/**
+ * Show queued writes on top of what Firestore returned, so edits made offline
+ * don't disappear when the page reloads before they sync. Failed writes are left
+ * out, so the row shows what was actually saved.
+ */
+export const applyPendingWrites = <T extends { id?: string }>(
+  collectionName: PendingWrite['collection'],
+  docs: T[]
+): T[] => {
+  let result = [...docs];
+  for (const write of queue) {
+    if (write.collection !== collectionName || !isWaiting(write)) continue;
+    if (write.change === 'delete') {
+      result = result.filter(d => d.id !== write.docId);
+    } else if (write.change === 'add') {
+      if (!result.some(d => d.id === write.docId)) {
+        result.push({ id: write.docId, ...write.data } as T);
+      }
+    } else {
+      result = result.map(d => d.id === write.docId ? { ...d, ...write.data } : d);
+    }
+  }
+  return result;
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { flushPendingWrites(); });
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMockProvider, detectItems, parseVisionResponse, VisionResponseError } from './visionService';
+import { VisionRequest } from '@/types';
+
+// Only the n8n and OpenAI providers need the signed-in user
+vi.mock('@/lib/firebase', () => ({ auth: { currentUser: null } }));
+
+// An upload of a file with this name, as the Inventory page sends it
+const upload = (fileName: string): VisionRequest => ({
+  userId: 'alice',
+  image: new File([], fileName, { type: 'image/jpeg' }),
+  imageBase64: '',
+  mimeType: 'image/jpeg',
+});
+
+describe('detectItems with the mock provider', () => {
+  const provider = createMockProvider();
+
+  it('reads the fridge fixture, filling in and converting what the schema allows', async () => {
+    const items = await detectItems(upload('fridge-shelf.jpg'), provider);
+
+    expect(items.map(item => item.name)).toEqual(['Fresh Milk', 'Eggs', 'Baby Spinach', 'Greek Yogurt']);
+    expect(items[0]).toMatchObject({ category: 'Dairy', quantity: 1, storage: 'fridge', confidence: 0.94 });
+    expect(items[0].expiryDate).toEqual(new Date('2026-10-24'));
+    expect(items[1].expiryDate).toBeUndefined();
+    // A quoted number is accepted
+    expect(items[3].quantity).toBe(2);
+  });
+
+  it('accepts the bare array form from the pantry fixture', async () => {
+    const items = await detectItems(upload('pantry-shelf.jpg'), provider);
+
+    expect(items.map(item => [item.name, item.quantity, item.quantityUnit])).toEqual([
+      ['Jasmine Rice', 5, 'kg'],
+      ['Canned Tuna', 3, 'pcs'],
+    ]);
+  });
+
+  it('rejects the malformed fixture with a VisionResponseError', async () => {
+    const detection = detectItems(upload('malformed-response.jpg'), provider);
+
+    await expect(detection).rejects.toBeInstanceOf(VisionResponseError);
+    await expect(detection).rejects.toMatchObject({ issues: ['items: Required'] });
+  });
+
+  it('detects nothing in an image without a fixture', async () => {
+    expect(await detectItems(upload('holiday.jpg'), provider)).toEqual([]);
+  });
+});
+
+describe('parseVisionResponse', () => {
+  it('lists every bad field of an item', () => {
+    let error: unknown;
+    try {
+      parseVisionResponse({ items: [{ _name: 'Cheddar', quantity: 'a block', unit: 'wedge' }] });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(VisionResponseError);
+    expect((error as VisionResponseError).issues).toEqual([
+      'items.0.name: Required',
+      'items.0.quantity: Expected a number',
+      'items.0.unit: Unknown unit "wedge"',
+    ]);
+  });
+
+  it('defaults the category, quantity and unit', () => {
+    expect(parseVisionResponse({ items: [{ name: 'Apples' }] })).toEqual([{
+      name: 'Apples',
+      category: 'Uncategorized',
+      quantity: 1,
+      quantityUnit: 'pcs',
+      storage: undefined,
+      expiryDate: undefined,
+      confidence: undefined,
+    }]);
+  });
+});
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { auth } from '@/lib/firebase';
+import { normalizeUnit } from '@/lib/units';
+import { DetectedItem, VisionProvider, VisionProviderId, VisionRequest } from '@/types';
+
+type VisionConfig = Record<string, string | undefined>;
+
+// A replayed response for the mock provider, matched on the uploaded file's name
+export interface VisionFixture {
+  image: string;
+  response: unknown;
+}
+
+const DEFAULT_WEBHOOK_URL = 'https://n8ngc.codeblazar.org/webhook/add-inventory-image';
+const DEFAULT_OPENAI_ENDPOINT = '/api/vision/detect';
+
+/** Thrown when a provider's response doesn't match the detected-items schema. */
+export class VisionResponseError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    const shown = issues.slice(0, 3).join('; ');
+    const more = issues.length > 3 ? ` and ${issues.length - 3} more` : '';
+    super(`The vision provider returned an invalid response: ${shown}${more}`);
+    this.name = 'VisionResponseError';
+    this.issues = issues;
+  }
+}
+
+// ============ RESPONSE SCHEMA ============
+
+// Models like to quote numbers, so "2" is accepted but "two" is not
+const quantitySchema = z.preprocess(
+  raw => typeof raw === 'string' && /^\s*\d+(\.\d+)?\s*$/.test(raw) ? Number(raw) : raw,
+  z.number({ invalid_type_error: 'Expected a number' }).positive()
+);
+
+const unitSchema = z.string().optional().transform((raw, ctx) => {
+  const unit = normalizeUnit(raw ?? 'pcs');
+  if (!unit) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown unit "${raw}"` });
+    return z.NEVER;
+  }
+  return unit;
+});
+
+const expiryDateSchema = z
+  .string()
+  .nullish()
+  .refine(value => !value || !isNaN(new Date(value).getTime()), 'Expected a date such as 2026-10-31')
+  .transform(value => value ? new Date(value) : undefined);
+
+const detectedItemSchema = z.object({
+  name: z.string().trim().min(1, 'Item name is required'),
+  category: z.string().trim().min(1).optional(),
+  quantity: quantitySchema.optional(),
+  unit: unitSchema,
+  storage: z.enum(['fridge', 'freezer', 'pantry']).optional(),
+  expiryDate: expiryDateSchema,
+  confidence: z.number().min(0).max(1).optional()
+});
+
+// Providers reply with { items: [...] }; the n8n workflow may also send the bare array
+const visionResponseSchema = z.preprocess(
+  raw => Array.isArray(raw) ? { items: raw } : raw,
+  z.object({ items: z.array(detectedItemSchema) })
+);
+
+/** Validate a provider's raw response and convert it to DetectedItems. */
+export const parseVisionResponse = (raw: unknown): DetectedItem[] => {
+  const result = visionResponseSchema.safeParse(raw);
+  if (!result.success) {
+    throw new VisionResponseError(
+      result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    );
+  }
+  return result.data.items.map(item => ({
+    name: item.name,
+    category: item.category ?? 'Uncategorized',
+    quantity: item.quantity ?? 1,
+    quantityUnit: item.unit,
+    storage: item.storage,
+    expiryDate: item.expiryDate,
+    confidence: item.confidence
+  }));
+};
+
+const readJson = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new VisionResponseError([`response: Expected JSON but got "${text.slice(0, 80)}"`]);
+  }
+};
+
+// ============ PROVIDERS ============
+
+// The n8n workflow receives the photo as base64 and replies with the detected items
+export const createN8nProvider = (webhookUrl: string): VisionProvider => ({
+  id: 'n8n',
+  detect: async ({ userId, imageBase64 }) => {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userId, imageBase64 })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Webhook failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+    return readJson(response);
+  }
+});
+
+// The server's /api/vision/detect holds the OpenAI key and prompt, so the browser only
+// sends the photo with the user's ID token and gets back the model's JSON reply
+export const createOpenAiProvider = (endpoint: string): VisionProvider => ({
+  id: 'openai',
+  detect: async ({ imageBase64, mimeType }) => {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('Sign in to detect items in a photo');
+    }
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${await user.getIdToken()}`
+      },
+      body: JSON.stringify({ imageBase64, mimeType })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Vision API failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+    return readJson(response);
+  }
+});
+
+const loadFixtures = (): VisionFixture[] =>
+  Object.values(import.meta.glob<VisionFixture>('/src/fixtures/vision/*.json', { eager: true, import: 'default' }));
+
+/**
+ * Replays a canned response for each known fixture image, so the upload flow can
+ * be exercised without a network or a model. Unknown images detect nothing.
+ */
+export const createMockProvider = (fixtures: VisionFixture[] = loadFixtures()): VisionProvider => ({
+  id: 'mock',
+  detect: async ({ image }) => {
+    const name = (image.name || '').toLowerCase();
+    const fixture = fixtures.find(f => f.image.toLowerCase() === name);
+    return fixture ? structuredClone(fixture.response) : { items: [] };
+  }
+});
+
+/** The provider chosen by VITE_VISION_PROVIDER (n8n by default). */
+export const getVisionProvider = (config: VisionConfig = import.meta.env): VisionProvider => {
+  const id = (config.VITE_VISION_PROVIDER || 'n8n') as VisionProviderId;
+  switch (id) {
+    case 'n8n':
+      return createN8nProvider(config.VITE_VISION_WEBHOOK_URL || DEFAULT_WEBHOOK_URL);
+    case 'openai':
+      return createOpenAiProvider(config.VITE_VISION_API_URL || DEFAULT_OPENAI_ENDPOINT);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown vision provider "${id}". Set VITE_VISION_PROVIDER to n8n, openai or mock.`);
+  }
+};
+
+/** Ask the configured provider what's in a photo and validate its answer. */
+export const detectItems = async (
+  request: VisionRequest,
+  provider: VisionProvider = getVisionProvider()
+): Promise<DetectedItem[]> => parseVisionResponse(await provider.detect(request));
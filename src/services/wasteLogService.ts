@@ -0,0 +1,74 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  Timestamp,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getActiveHouseholdId } from '@/services/householdService';
+import { enqueueWrite, registerSyncHandler } from '@/services/syncQueue';
+import { InventoryItem, RemovalReason, WasteLogEntry } from '@/types';
+
+// Remove an inventory item and record who removed it and why. The pair is queued
+// as one write and applied in one batch, so the log never disagrees with the inventory.
+export const removeInventoryItem = async (
+  userId: string,
+  item: InventoryItem,
+  reason: RemovalReason,
+  estimatedValue: number | null
+): Promise<string> => {
+  if (!item.id) {
+    throw new Error('Item ID is required for removal');
+  }
+
+  const logRef = doc(collection(db, 'wasteLog'));
+  const entry: WasteLogEntry = {
+    userId,
+    householdId: item.householdId ?? await getActiveHouseholdId(userId),
+    inventoryItemId: item.id,
+    name: item.name,
+    category: item.category || 'Uncategorized',
+    storage: item.storage,
+    quantity: item.quantity,
+    quantityUnit: item.quantityUnit,
+    estimatedValue: estimatedValue !== null && isFinite(estimatedValue) ? estimatedValue : null,
+    reason,
+    removedAt: Timestamp.now()
+  };
+
+  enqueueWrite({
+    kind: 'inventory.remove',
+    collection: 'inventory',
+    docId: item.id,
+    change: 'delete',
+    data: { logId: logRef.id, entry }
+  });
+
+  return logRef.id;
+};
+
+registerSyncHandler('inventory.remove', async (write) => {
+  const { logId, entry } = write.data as { logId: string; entry: WasteLogEntry };
+  const batch = writeBatch(db);
+  // Fixed ids make a replay after a timeout harmless
+  batch.set(doc(db, 'wasteLog', logId), entry);
+  batch.delete(doc(db, 'inventory', write.docId));
+  await batch.commit();
+});
+
+// The whole household's waste log, newest first
+export const getWasteLog = async (userId: string): Promise<WasteLogEntry[]> => {
+  const householdId = await getActiveHouseholdId(userId);
+  const q = query(collection(db, 'wasteLog'), where('householdId', '==', householdId));
+  const snapshot = await getDocs(q);
+  const entries = snapshot.docs.map(doc => ({
+    id: doc.id,
+    ...doc.data()
+  } as WasteLogEntry));
+
+  // Sort by removedAt in code (descending) to avoid a composite index
+  return entries.sort((a, b) => b.removedAt.toMillis() - a.removedAt.toMillis());
+};
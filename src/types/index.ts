@@ -4,44 +4,210 @@ export interface UserData {
   uid: string;
   name: string;
   email: string;
+  householdId?: string;  // The household whose pantry this user is currently using
+  joinCode?: string;  // Invite code presented when joining householdId; checked by the rules in the same write
+  expirySettings?: ExpirySettings;  // From before households; copied to the user's first household
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export type HouseholdRole = 'owner' | 'member';
+
+// A shared pantry. The owner manages members and the invite code; everyone in
+// memberIds can read and edit the household's inventory, recipes and lists.
+export interface Household {
+  id?: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  memberNames: Record<string, string>;  // uid -> display name, since user docs are private
+  inviteCode: string;
+  expirySettings?: ExpirySettings;  // Shared by every member and the server; absent means the defaults
+  createdAt: Timestamp;
+}
+
 export interface Product {
   id?: string;
   name: string;
   brand?: string;
   category: string;
+  barcode?: string;  // EAN-13 (UPC-A is stored with a leading 0) or EAN-8
+  packageSize?: Quantity;  // e.g. 1 L for a carton of milk
   defaultShelfLifeDays?: number;
   source?: 'manual' | 'openfoodfacts' | 'system';
   createdBy?: string; // uid or "system"
   createdAt?: Timestamp;
 }
 
+// Units an inventory or recipe quantity can be expressed in
+export type QuantityUnit =
+  | 'mg' | 'g' | 'kg' | 'oz' | 'lb'
+  | 'ml' | 'L' | 'tsp' | 'tbsp' | 'cup'
+  | 'pcs' | 'dozen' | 'pack';
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface Quantity {
+  amount: number;
+  unit: QuantityUnit;
+}
+
+// One purchase of an inventory product; lots are used first-expired-first-out
+export interface InventoryLot {
+  batchId: string;  // Unique within the item
+  quantity: number;  // In the item's quantityUnit
+  expiryDate: Timestamp | Date;
+  addedAt?: Timestamp;
+  putAwayId?: string;  // Shared by every lot put away from the shopping list together
+}
+
+export type InventoryStatus = 'fresh' | 'expiringSoon' | 'almostExpired' | 'expired';
+
+export type StorageLocation = 'fridge' | 'freezer' | 'pantry';
+
+// Days before expiry at which an item turns "Expiring" and then "Use Now"
+export interface ExpiryThresholds {
+  expiringSoonDays: number;
+  almostExpiredDays: number;
+}
+
+// Household-level status rules; category rules win over storage rules, which win over defaults
+export interface ExpirySettings {
+  defaults: ExpiryThresholds;
+  categories: Record<string, ExpiryThresholds>;  // Keyed by lowercase category keyword, e.g. "fish"
+  storage: Partial<Record<StorageLocation, ExpiryThresholds>>;
+}
+
 export interface InventoryItem {
   id?: string;
-  userId: string;
+  userId: string;  // Who added the item
+  householdId?: string;  // Absent on rows created before households
   productId?: string;
   name: string;
   category: string;
   quantity: number;
-  quantityUnit: string;
-  expiryDate: Timestamp | Date;
-  storage: 'fridge' | 'freezer' | 'pantry';
+  quantityUnit: QuantityUnit;
+  expiryDate: Timestamp | Date;  // Earliest lot's expiry when lots are tracked
+  lots?: InventoryLot[];  // quantity is the sum of these; absent on legacy rows
+  storage: StorageLocation;
   reorderThreshold: number;
+  reorderThresholdUnit?: QuantityUnit;  // Defaults to quantityUnit when absent
   isLowStock: boolean;
-  status: 'fresh' | 'expiringSoon' | 'almostExpired';
+  status: InventoryStatus;
   // New fields for AI integration
-  source: 'manual' | 'ai' | 'openfoodfacts' | 'system';  // Track origin
+  source: 'manual' | 'ai' | 'openfoodfacts' | 'system' | 'shopping' | 'receipt';  // Track origin
   imageUrl?: string;  // Firebase Storage download URL from the upload
   aiConfidence?: number;  // AI confidence score (0-1), optional
   batchId?: string;  // UUID or timestamp for grouping items from one photo
   createdAt?: Timestamp;  // Add if not present, for sorting/filtering
+  syncedWriteIds?: string[];  // Recently applied offline writes, so replays are skipped
+}
+
+// An item a vision provider found in a photo, after validation
+export interface DetectedItem {
+  name: string;
+  category: string;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  storage?: StorageLocation;
+  expiryDate?: Date;  // Only when the packaging shows one
+  confidence?: number;  // 0-1
+}
+
+export type VisionProviderId = 'n8n' | 'openai' | 'mock';
+
+export interface VisionRequest {
+  userId: string;
+  image: Blob & { name?: string };
+  imageBase64: string;
+  mimeType: string;
+}
+
+// Something that can list the grocery items in a photo. Providers return the raw
+// response body; parseVisionResponse checks it against the shared schema.
+export interface VisionProvider {
+  id: VisionProviderId;
+  detect: (request: VisionRequest) => Promise<unknown>;
+}
+
+// What one photo upload found; its items share batchId until they are reviewed
+export interface ImageDetection {
+  batchId: string;
+  provider: VisionProviderId;
+  items: InventoryItem[];
+}
+
+// The fields of a detected item the user can correct before saving
+export interface DetectionFields {
+  name: string;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  storage: StorageLocation;
+  expiryDate: Timestamp | Date;
+}
+
+export interface DetectionCorrection {
+  detected: DetectionFields;
+  confidence: number | null;
+  kept: boolean;  // false when the user deselected the row
+  corrected: DetectionFields | null;  // What was saved; null for rejected rows
+  changedFields: (keyof DetectionFields)[];
+}
+
+// How the user reviewed one upload, stored under its batchId to track detection accuracy
+export interface DetectionReview {
+  id?: string;  // Same as batchId
+  batchId: string;
+  userId: string;
+  householdId?: string;
+  provider: VisionProviderId;
+  corrections: DetectionCorrection[];
+  detectedCount: number;
+  keptCount: number;
+  correctedCount: number;  // Kept, but with at least one field changed
+  reviewedAt: Timestamp;
+}
+
+// Supermarket chains whose receipts we can read
+export type ReceiptStore = 'fairprice' | 'shengsiong' | 'coldstorage';
+
+// One purchased line read off a receipt, with store abbreviations expanded
+export interface ReceiptLine {
+  raw: string;  // The receipt text it came from
+  name: string;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  price: number;  // SGD paid for the whole line, after line discounts
+}
+
+export interface ParsedReceipt {
+  store: ReceiptStore | null;
+  purchasedAt: Date | null;
+  lines: ReceiptLine[];
+  total: number | null;  // As printed, to compare against the lines
+}
+
+// What was paid for something that went into the inventory
+export interface Purchase {
+  id?: string;
+  userId: string;
+  householdId?: string;
+  inventoryItemId?: string;
+  productId?: string;
+  name: string;
+  category: string;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  price: number;  // SGD for the whole quantity
+  store?: string;  // Display name, e.g. "FairPrice"
+  receiptId?: string;  // Shared by every line of one imported receipt
+  source: 'manual' | 'receipt' | 'shopping';
+  purchasedAt: Timestamp;
 }
 
 export interface Recipe {
   id?: string;
+  householdId?: string;
   name: string;
   ingredients: string[];
   tags: string[];
@@ -69,6 +235,7 @@ export interface Instruction {
 
 export interface AIGeneratedRecipe {
   id?: string;
+  householdId?: string;
   name: string;
   ingredients: (string | Ingredient)[];
   instructions: (string | Instruction)[];
@@ -89,6 +256,92 @@ export interface SavedRecipe {
   savedAt: Timestamp;
 }
 
+// One inventory row adjusted when a recipe is marked as cooked
+export interface CookingDeduction {
+  inventoryItemId: string;
+  name: string;
+  ingredient: string;
+  unit: QuantityUnit;  // The inventory item's unit
+  quantityBefore: number;
+  deducted: number;
+  quantityAfter: number;
+  consumedLots?: InventoryLot[];  // What was taken from each lot, for undo
+}
+
+export interface CookingHistoryEntry {
+  id?: string;
+  userId: string;
+  recipeId?: string;
+  recipeName: string;
+  servingsMultiplier: number;
+  deductions: CookingDeduction[];
+  skippedIngredients: string[];  // No quantity given or nothing in inventory
+  cookedAt: Timestamp;
+  undoneAt?: Timestamp | null;
+}
+
+// Why an item left the inventory; only 'expired' counts as waste
+export type RemovalReason = 'consumed' | 'expired' | 'givenAway';
+
+export interface WasteLogEntry {
+  id?: string;
+  userId: string;  // Who removed the item
+  householdId?: string;
+  inventoryItemId?: string;
+  name: string;
+  category: string;
+  storage?: StorageLocation;
+  quantity: number;
+  quantityUnit: QuantityUnit;
+  estimatedValue: number | null;  // SGD, when the user knows or we can estimate it
+  reason: RemovalReason;
+  removedAt: Timestamp;
+}
+
+// A named shopping list shared by the household
+export interface ShoppingList {
+  id?: string;
+  householdId: string;
+  name: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface ShoppingListItem {
+  id?: string;
+  listId: string;
+  householdId: string;
+  ingredient: string;
+  recipes: string[];  // Which recipes need this
+  hasInInventory: boolean;
+  inventoryQuantity?: string | null;
+  shortfall?: Quantity | null;  // Exact amount still to buy, when recipes give quantities
+  quantity: number;  // Number of packs to buy
+  checked: boolean;
+  checkedBy?: string | null;
+  addedBy: string;
+  addedAt: Timestamp;
+  syncedWriteIds?: string[];
+}
+
+// A write made while offline (or not yet confirmed), replayed in order once we reconnect
+export interface PendingWrite {
+  id: string;
+  kind: string;  // Which registered sync handler applies it, e.g. "inventory.update"
+  collection: 'inventory' | 'shoppingListItems' | 'purchases';
+  docId: string;
+  change: 'add' | 'update' | 'delete';
+  data?: Record<string, unknown>;  // The new document for adds, the changed fields for updates
+  edit?: Record<string, unknown>;  // Fields the user changed, when data also holds derived ones
+  baseQuantity?: number;  // Quantity the edit started from, for merging concurrent edits
+  lot?: InventoryLot;  // A purchase added to an existing row
+  queuedAt: number;
+  attempts: number;
+  failedAt?: number;  // Firestore rejected the write; it waits for the user to retry or discard it
+  error?: string;
+}
+
 export interface Store {
   id?: string;
   name: string;
@@ -109,12 +362,22 @@ export interface StoreProduct {
   lastUpdated: Timestamp;
 }
 
+// How much more of an ingredient is needed than the inventory holds
+export interface IngredientShortfall {
+  ingredient: string;
+  required: Quantity;
+  available: Quantity;  // Expressed in the required unit
+  shortfall: Quantity;
+}
+
 // Extended types for UI
 export interface RecipeWithScore extends Recipe {
   score: number;
   matchedIngredients: string[];
   expiringIngredients: string[];
   missingIngredients: string[];
+  partialIngredients: string[];  // In inventory, but not enough of it
+  shortfalls: IngredientShortfall[];
   aiData?: RecipeAI;
   // Add fields from AIGeneratedRecipe for recommended recipes
   instructions?: (string | Instruction)[];
@@ -148,3 +411,108 @@ export interface NearbyStore {
     openNow?: boolean;
   };
 }
+
+// Lowest scraped price at one store on one day (YYYY-MM-DD, Singapore time)
+export interface PriceHistoryPoint {
+  date: string;
+  price: number;  // Per the series' unit, or per pack when it has none
+  productName: string;
+  size: string | null;  // Pack size of the product that set the price
+}
+
+// One store's line in /api/prices/history
+export interface PriceHistorySeries {
+  storeCode: string;
+  storeName: string;
+  per: UnitPrice['per'] | null;  // Null when the points are pack prices
+  points: PriceHistoryPoint[];
+}
+
+// Price per 100 g, per litre or per piece, from the scraper's pack size parsing
+export interface UnitPrice {
+  amount: number;
+  per: '100g' | 'L' | 'each';
+}
+
+// Structured pricing the scraper reads from a product card
+export interface ProductPricing {
+  price: number;
+  currency: 'SGD';
+  wasPrice?: number;
+  promo?: { type: 'multiBuy'; quantity: number; price: number; text: string };
+  effectivePrice: number;  // Best price per pack, counting a multi-buy offer
+  packCount?: number;
+  unitSize?: number;
+  unit?: 'g' | 'ml' | 'each';
+  totalQuantity?: number;
+  unitPrice: UnitPrice | null;
+}
+
+// One matched product in a /search-products store result
+export interface ScrapedProduct {
+  name: string;
+  price: number;
+  size: string | null;
+  image?: string;
+  pricing?: ProductPricing;
+}
+
+// One store's price for a product in /api/compare
+export interface ComparisonOffer {
+  storeCode: string;
+  storeName: string;
+  url: string;
+  productName: string;
+  price: number;
+  effectivePrice: number;
+  wasPrice?: number;
+  promo?: ProductPricing['promo'];
+  unitPrice: UnitPrice | null;
+}
+
+// The same SKU across stores, matched by brand, name and pack size; offers cheapest first
+export interface ProductComparison {
+  id: string;
+  brand: string;
+  name: string;
+  size: string | null;
+  storeCount: number;
+  cheapestStoreCode: string;
+  saving: number;  // Cheapest vs dearest store
+  offers: ComparisonOffer[];
+}
+
+// Limits on a shopping trip for the basket optimizer
+export interface BasketConstraints {
+  maxStores: number;
+  maxExtraKm?: number | null;  // Extra travel over a round trip to the nearest store; needs an origin
+  origin?: { lat: number; lng: number } | null;
+}
+
+// One shopping list item bought at a stop
+export interface BasketLine {
+  itemId?: string;
+  ingredient: string;
+  quantity: number;
+  product: StoreProductWithStore;
+  lineTotal: number;
+  averagePrice: number;  // Mean of each store's cheapest price for the ingredient
+}
+
+export interface BasketStop {
+  store: Store;
+  distanceKm: number | null;  // From the origin
+  lines: BasketLine[];
+  subtotal: number;
+}
+
+// Cheapest way to buy a shopping list within the trip limits
+export interface BasketPlan {
+  stops: BasketStop[];
+  unavailable: string[];  // Ingredients none of the chosen stores sell
+  total: number;
+  savings: number;  // Against paying each ingredient's average price
+  cheapestPossibleTotal: number;  // Every ingredient at its cheapest store, ignoring the limits
+  travelKm: number | null;  // Round trip from the origin through every stop
+  extraKm: number | null;  // travelKm beyond a round trip to the nearest store
+}